@@ -15,6 +15,19 @@ const config: CodegenConfig = {
           Block: '../data/types.js#BlockData',
           Challenge: '../data/types.js#ChallengeMetadata', // Critical: Metadata only!
           Certification: '../data/types.js#CertificationData',
+          ChallengeContent:
+            '../data/types.js#ChallengeContent as ChallengeContentData',
+          ChallengeFile: '../data/types.js#ChallengeFile as ChallengeFileData',
+          Test: '../data/types.js#Test as TestData',
+          Solution: '../data/types.js#Solution as SolutionData',
+          SearchResult: '../data/types.js#SearchHit',
+          CurriculumPath: '../data/types.js#BlockPlacement',
+          CurriculumStats:
+            '../data/types.js#CurriculumStats as CurriculumStatsData',
+          SuperblockStats:
+            '../data/types.js#SuperblockStats as SuperblockStatsData',
+          ChapterStats: '../data/types.js#ChapterStats as ChapterStatsData',
+          NotFound: './errors.js#NotFoundResult',
           // RequiredResource uses generated type (simple structure, no mapping needed)
         },
 
@@ -22,10 +35,14 @@ const config: CodegenConfig = {
         enumValues: {
           BlockLayout: '../data/types.js#BlockLayout',
           BlockLabel: '../data/types.js#BlockLabel',
+          SuperblockStructure: '../data/types.js#SuperblockStructure',
+          SearchResultType: '../data/types.js#SearchResultType',
+          ErrorCode: './errors.js#ErrorCode',
+          NodeType: './node.js#NodeType',
         },
 
         // Context type for all resolvers
-        contextType: '../data/types.js#DataProvider',
+        contextType: '../context.js#GraphQLContext',
 
         // Type safety settings
         useIndexSignature: false, // No [key: string]: any
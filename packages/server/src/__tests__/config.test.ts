@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { describeConfig, loadConfig, type AppConfig } from '../config.js';
+import { DEFAULT_QUERY_LIMITS } from '../query-limits.js';
+
+describe('Configuration', () => {
+  let configDir: string;
+
+  const writeConfig = async (name: string, data: unknown) => {
+    const filePath = join(configDir, name);
+    await writeFile(filePath, JSON.stringify(data));
+    return filePath;
+  };
+
+  const load = async (env: NodeJS.ProcessEnv): Promise<AppConfig> => {
+    const result = await loadConfig(env, '/srv/app');
+    if (!result.success) {
+      throw new Error(result.error.map((e) => e.message).join('\n'));
+    }
+    return result.data;
+  };
+
+  beforeAll(async () => {
+    configDir = await mkdtemp(join(tmpdir(), 'curriculum-config-'));
+  });
+
+  afterAll(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should use defaults without a config file or env vars', async () => {
+    const config = await load({});
+
+    expect(config.port).toBe(4000);
+    expect(config.corsOrigins).toEqual(['*']);
+    expect(config.dataPath).toBe(resolve('/srv/app', '../../data/structure'));
+    expect(config.contentPath).toBeNull();
+    expect(config.queryLimits).toEqual(DEFAULT_QUERY_LIMITS);
+    expect(config.graphiql).toBe(true);
+    expect(config.introspection).toBe(true);
+    expect(config.exposeErrors).toBe(true);
+    expect(config.log).toEqual({ level: 'info', format: 'pretty' });
+  });
+
+  it('should switch error exposure and log format in production', async () => {
+    const config = await load({ NODE_ENV: 'production' });
+
+    expect(config.exposeErrors).toBe(false);
+    expect(config.log.format).toBe('json');
+  });
+
+  it('should let env vars override the config file', async () => {
+    const filePath = await writeConfig('override.json', {
+      port: 5000,
+      dataPath: 'structure',
+      queryLimits: { maxCost: 1000 },
+      introspection: false,
+      sharedChallengeIds: ['a', 'b'],
+    });
+
+    const config = await load({
+      CONFIG_FILE: filePath,
+      PORT: '6000',
+      CONTENT_PATH: 'content',
+      GRAPHIQL: 'false',
+      CORS_ORIGIN: 'https://www.freecodecamp.org, https://*.freecodecamp.dev',
+    });
+
+    expect(config.port).toBe(6000);
+    // File paths resolve against the file, env paths against the cwd
+    expect(config.dataPath).toBe(join(configDir, 'structure'));
+    expect(config.contentPath).toBe('/srv/app/content');
+    expect(config.queryLimits).toEqual({
+      ...DEFAULT_QUERY_LIMITS,
+      maxCost: 1000,
+    });
+    expect(config.graphiql).toBe(false);
+    expect(config.introspection).toBe(false);
+    expect(config.sharedChallengeIds).toEqual(['a', 'b']);
+    expect(config.corsOrigins).toEqual([
+      'https://www.freecodecamp.org',
+      'https://*.freecodecamp.dev',
+    ]);
+  });
+
+  it('should report every invalid setting with its source', async () => {
+    const filePath = await writeConfig('invalid.json', {
+      port: 'http',
+      queryLimits: { maxDepth: -1, maxDeph: 3 },
+      log: 'debug',
+    });
+
+    const result = await loadConfig(
+      {
+        CONFIG_FILE: filePath,
+        DATA_WATCH: 'yes',
+        PERSISTED_QUERIES_MODE: 'strict',
+        CORS_ORIGIN: 'https://ok.org,freecodecamp.org',
+      },
+      '/srv/app'
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.map(({ key, source }) => ({ key, source }))).toEqual([
+        { key: 'port', source: filePath },
+        { key: 'corsOrigins', source: 'env CORS_ORIGIN' },
+        { key: 'reload.watch', source: 'env DATA_WATCH' },
+        { key: 'queryLimits.maxDepth', source: filePath },
+        { key: 'persistedQueries.manifestPath', source: 'config' },
+        { key: 'queryLimits.maxDeph', source: filePath },
+        { key: 'log', source: filePath },
+      ]);
+      expect(result.error[2]?.message).toBe(
+        'Invalid DATA_WATCH value "yes": DATA_WATCH must be true or false'
+      );
+    }
+  });
+
+  it('should reject GraphiQL without introspection', async () => {
+    const result = await loadConfig({ INTROSPECTION: 'false' }, '/srv/app');
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.map(({ key, source }) => ({ key, source }))).toEqual([
+        { key: 'graphiql', source: 'config' },
+      ]);
+    }
+    await expect(
+      load({ INTROSPECTION: 'false', GRAPHIQL: 'false' })
+    ).resolves.toMatchObject({ graphiql: false, introspection: false });
+  });
+
+  it('should fail when the config file cannot be read', async () => {
+    const result = await loadConfig(
+      { CONFIG_FILE: join(configDir, 'missing.json') },
+      '/srv/app'
+    );
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error[0]?.message).toContain('Failed to read config file');
+    }
+  });
+
+  it('should redact secrets when describing the config', async () => {
+    const config = await load({
+      ADMIN_TOKEN: 's3cret',
+      METRICS_TOKEN: 'scr4pe',
+    });
+
+    expect(JSON.stringify(describeConfig(config))).not.toContain('s3cret');
+    expect(JSON.stringify(describeConfig(config))).not.toContain('scr4pe');
+    expect(describeConfig(config)['reload']).toEqual({
+      watch: false,
+      adminToken: '[redacted]',
+    });
+  });
+});
@@ -0,0 +1,395 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parse, type ExecutionResult } from 'graphql';
+import {
+  FileContentSource,
+  parseChallengeMarkdown,
+  parseChallengeJson,
+} from '../data/content.js';
+import { InMemoryDataProvider } from '../data/provider.js';
+import { Logger } from '../logger.js';
+import { createGraphQLServer } from '../server.js';
+import type { DataStore } from '../data/types.js';
+import { createTestExecutor, getTestDataStore } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+
+const SAMPLE_MARKDOWN = `---
+id: abc123
+title: Say Hello
+challengeType: 0
+---
+
+# --description--
+
+Welcome to HTML.
+
+# --instructions--
+
+Change the text to \`Hello World\`.
+
+# --hints--
+
+Your \`h1\` should say \`Hello World\`.
+
+\`\`\`js
+assert(document.querySelector('h1').textContent === 'Hello World');
+\`\`\`
+
+You should keep the \`h1\` element.
+
+\`\`\`js
+assert(document.querySelector('h1'));
+\`\`\`
+
+# --seed--
+
+## --seed-contents--
+
+\`\`\`html
+<main>
+--fcc-editable-region--
+<h1>Hello</h1>
+--fcc-editable-region--
+</main>
+\`\`\`
+
+\`\`\`css
+h1 { color: red; }
+\`\`\`
+
+# --solutions--
+
+\`\`\`html
+<h1>Hello World</h1>
+\`\`\`
+
+---
+
+\`\`\`html
+<main><h1>Hello World</h1></main>
+\`\`\`
+`;
+
+describe('Challenge Content Loading', () => {
+  describe('parseChallengeMarkdown()', () => {
+    it('should parse description and instructions sections', () => {
+      const result = parseChallengeMarkdown(SAMPLE_MARKDOWN, 'abc123', 'a.md');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.id).toBe('abc123');
+        expect(result.data.description).toBe('Welcome to HTML.');
+        expect(result.data.instructions).toBe(
+          'Change the text to `Hello World`.'
+        );
+      }
+    });
+
+    it('should pair each hint with its test code', () => {
+      const result = parseChallengeMarkdown(SAMPLE_MARKDOWN, 'abc123', 'a.md');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.tests).toEqual([
+          {
+            text: 'Your `h1` should say `Hello World`.',
+            testString:
+              "assert(document.querySelector('h1').textContent === 'Hello World');",
+          },
+          {
+            text: 'You should keep the `h1` element.',
+            testString: "assert(document.querySelector('h1'));",
+          },
+        ]);
+      }
+    });
+
+    it('should extract seed files with editable region boundaries', () => {
+      const result = parseChallengeMarkdown(SAMPLE_MARKDOWN, 'abc123', 'a.md');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.files).toEqual([
+          {
+            name: 'index.html',
+            ext: 'html',
+            contents: '<main>\n<h1>Hello</h1>\n</main>',
+            editableRegionBoundaries: [1, 2],
+          },
+          {
+            name: 'styles.css',
+            ext: 'css',
+            contents: 'h1 { color: red; }',
+            editableRegionBoundaries: null,
+          },
+        ]);
+      }
+    });
+
+    it('should split solutions on separator lines', () => {
+      const result = parseChallengeMarkdown(SAMPLE_MARKDOWN, 'abc123', 'a.md');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.solutions).toHaveLength(2);
+        expect(result.data.solutions[1]?.files[0]?.contents).toBe(
+          '<main><h1>Hello World</h1></main>'
+        );
+      }
+    });
+
+    it('should default missing sections to empty values', () => {
+      const result = parseChallengeMarkdown(
+        '# --description--\n\nOnly text.\n',
+        'x',
+        'x.md'
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.instructions).toBe('');
+        expect(result.data.files).toEqual([]);
+        expect(result.data.tests).toEqual([]);
+        expect(result.data.solutions).toEqual([]);
+      }
+    });
+
+    it('should fail on an unterminated code fence', () => {
+      const result = parseChallengeMarkdown(
+        '# --hints--\n\nText\n\n```js\nassert(true);\n',
+        'x',
+        'x.md'
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain('Unterminated code fence');
+        expect(result.error.filePath).toBe('x.md');
+        expect(result.error.field).toBe('hints');
+      }
+    });
+  });
+
+  describe('parseChallengeJson()', () => {
+    it('should parse a valid content file', () => {
+      const result = parseChallengeJson(
+        JSON.stringify({
+          description: 'Desc',
+          instructions: 'Do it',
+          files: [{ name: 'main.py', ext: 'py', contents: 'print(1)' }],
+          tests: [{ text: 'Prints 1', testString: 'assert True' }],
+          solutions: [],
+        }),
+        'py1',
+        'py1.json'
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.files[0]).toEqual({
+          name: 'main.py',
+          ext: 'py',
+          contents: 'print(1)',
+          editableRegionBoundaries: null,
+        });
+        expect(result.data.tests).toHaveLength(1);
+      }
+    });
+
+    it('should report the field path of invalid entries', () => {
+      const result = parseChallengeJson(
+        JSON.stringify({ tests: [{ text: 'ok', testString: 'ok' }, {}] }),
+        'bad',
+        'bad.json'
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.field).toBe('tests[1]');
+        expect(result.error.filePath).toBe('bad.json');
+      }
+    });
+
+    it('should fail on malformed JSON', () => {
+      const result = parseChallengeJson('{', 'bad', 'bad.json');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.message).toContain(
+          'Failed to parse challenge content'
+        );
+      }
+    });
+  });
+
+  describe('FileContentSource', () => {
+    let contentPath: string;
+
+    beforeAll(async () => {
+      contentPath = await mkdtemp(join(tmpdir(), 'curriculum-content-'));
+      await mkdir(join(contentPath, 'test-block'));
+      await writeFile(
+        join(contentPath, 'test-block', 'md-challenge.md'),
+        SAMPLE_MARKDOWN
+      );
+      await writeFile(
+        join(contentPath, 'test-block', 'json-challenge.json'),
+        JSON.stringify({ description: 'From JSON' })
+      );
+    });
+
+    afterAll(async () => {
+      await rm(contentPath, { recursive: true, force: true });
+    });
+
+    const challenge = (id: string) => ({
+      id,
+      title: id,
+      blockDashedName: 'test-block',
+      order: 0,
+      previousChallengeId: null,
+      nextChallengeId: null,
+      nextInSuperblock: new Map<string, string>(),
+    });
+
+    it('should load markdown content by block and id', async () => {
+      const source = new FileContentSource(contentPath);
+      const result = await source.loadChallengeContent(
+        challenge('md-challenge')
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data?.description).toBe('Welcome to HTML.');
+      }
+    });
+
+    it('should load JSON content by block and id', async () => {
+      const source = new FileContentSource(contentPath);
+      const result = await source.loadChallengeContent(
+        challenge('json-challenge')
+      );
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data?.description).toBe('From JSON');
+      }
+    });
+
+    it('should return null when no content file exists', async () => {
+      const source = new FileContentSource(contentPath);
+      const result = await source.loadChallengeContent(challenge('missing'));
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+  });
+
+  describe('Challenge.content resolver', () => {
+    let store: DataStore;
+    let contentPath: string;
+    let challengeId: string;
+
+    beforeAll(async () => {
+      store = await getTestDataStore();
+      const block = store.blocks.get(KNOWN_TEST_DATA.validBlock);
+      challengeId = block?.challenges[0]?.id ?? '';
+
+      contentPath = await mkdtemp(join(tmpdir(), 'curriculum-content-'));
+      await mkdir(join(contentPath, KNOWN_TEST_DATA.validBlock));
+      await writeFile(
+        join(contentPath, KNOWN_TEST_DATA.validBlock, `${challengeId}.md`),
+        SAMPLE_MARKDOWN
+      );
+    });
+
+    afterAll(async () => {
+      await rm(contentPath, { recursive: true, force: true });
+    });
+
+    it('should serve content from the configured content source', async () => {
+      const provider = new InMemoryDataProvider(
+        store,
+        new FileContentSource(contentPath)
+      );
+      const executor = await createTestExecutor(provider);
+
+      const result = await executor.execute<{
+        challenge: {
+          content: {
+            description: string;
+            tests: Array<{ testString: string }>;
+            files: Array<{ name: string }>;
+          } | null;
+        } | null;
+      }>({
+        document: parse(`
+          query GetChallengeContent($id: ID!) {
+            challenge(id: $id) {
+              content {
+                description
+                tests { testString }
+                files { name }
+              }
+            }
+          }
+        `),
+        variables: { id: challengeId },
+      });
+
+      expectValidGraphQLResponse(result);
+      expect(result.data.challenge?.content?.description).toBe(
+        'Welcome to HTML.'
+      );
+      expect(result.data.challenge?.content?.tests).toHaveLength(2);
+      expect(result.data.challenge?.content?.files[0]?.name).toBe('index.html');
+    });
+
+    it('should return a CONTENT_LOAD_FAILED error for broken content', async () => {
+      await writeFile(
+        join(contentPath, KNOWN_TEST_DATA.validBlock, `${challengeId}.json`),
+        '{ not json'
+      );
+      const provider = new InMemoryDataProvider(
+        store,
+        new FileContentSource(contentPath)
+      );
+      const lines: string[] = [];
+      const logger = new Logger({
+        level: 'warn',
+        format: 'json',
+        write: (_level, line) => lines.push(line),
+      });
+      const { yoga } = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin: '*',
+        logger,
+      });
+
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({
+          query: `query GetChallengeContent($id: ID!) {
+            challenge(id: $id) { content { description } }
+          }`,
+          variables: { id: challengeId },
+        }),
+      });
+      const result = (await response.json()) as ExecutionResult;
+
+      expect(result.errors?.[0]?.extensions?.code).toBe('CONTENT_LOAD_FAILED');
+      // The parse error behind it is logged with the request
+      const entry = JSON.parse(lines[0] ?? '{}') as {
+        challengeId?: string;
+        requestId?: string;
+        error?: { message: string };
+      };
+      expect(entry.challengeId).toBe(challengeId);
+      expect(entry.requestId).toBe(response.headers.get('x-request-id'));
+      expect(entry.error?.message).toContain('Failed to parse');
+    });
+  });
+});
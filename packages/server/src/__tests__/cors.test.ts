@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getTestDataStore } from './setup.js';
+import { InMemoryDataProvider } from '../data/provider.js';
+import { CorsPolicy, validateCorsOrigins } from '../cors.js';
+import { createGraphQLServer } from '../server.js';
+
+let provider: InMemoryDataProvider;
+
+beforeAll(async () => {
+  provider = new InMemoryDataProvider(await getTestDataStore());
+});
+
+describe('CORS', () => {
+  describe('CorsPolicy', () => {
+    const policy = new CorsPolicy([
+      'https://www.freecodecamp.org',
+      'https://*.freecodecamp.dev',
+      'http://localhost:3000',
+    ]);
+
+    it('should match exact origins and subdomain patterns', () => {
+      expect(policy.match('https://www.freecodecamp.org')).toEqual({
+        allowOrigin: 'https://www.freecodecamp.org',
+        credentials: true,
+      });
+      expect(policy.match('https://a.b.freecodecamp.dev')?.credentials).toBe(
+        true
+      );
+      expect(policy.match('http://localhost:3000')).not.toBeNull();
+    });
+
+    it('should reject other origins', () => {
+      for (const origin of [
+        'https://freecodecamp.dev',
+        'http://www.freecodecamp.dev',
+        'https://evil-freecodecamp.dev',
+        'https://www.freecodecamp.org.evil.com',
+        'http://localhost:3001',
+      ]) {
+        expect(policy.match(origin)).toBeNull();
+      }
+    });
+
+    it('should allow any origin with * but never with credentials', () => {
+      const open = new CorsPolicy(['*', 'https://www.freecodecamp.org']);
+
+      expect(open.match('https://example.com')).toEqual({
+        allowOrigin: '*',
+        credentials: false,
+      });
+      expect(open.match('https://www.freecodecamp.org')?.credentials).toBe(
+        true
+      );
+    });
+
+    it('should report invalid entries', () => {
+      expect(
+        validateCorsOrigins([
+          '*',
+          'https://ok.org',
+          'freecodecamp.org',
+          'https://freecodecamp.org/',
+          'https://www.*.org',
+        ])
+      ).toHaveLength(3);
+      expect(() => new CorsPolicy(['not an origin'])).toThrow(
+        'Invalid CORS origin'
+      );
+    });
+  });
+
+  describe('Preflight and response headers', () => {
+    const request = async (
+      corsOrigin: string,
+      method: 'OPTIONS' | 'POST',
+      origin: string
+    ) => {
+      const { yoga } = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin,
+      });
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method,
+        headers: {
+          Origin: origin,
+          'Content-Type': 'application/json',
+          ...(method === 'OPTIONS' && {
+            'Access-Control-Request-Method': 'POST',
+            'Access-Control-Request-Headers': 'content-type',
+          }),
+        },
+        ...(method === 'POST' && {
+          body: JSON.stringify({ query: '{ __typename }' }),
+        }),
+      });
+      await response.text();
+      return response;
+    };
+
+    const list = 'https://www.freecodecamp.org, https://*.freecodecamp.dev';
+
+    it('should echo an allowed origin in preflight responses', async () => {
+      const response = await request(
+        list,
+        'OPTIONS',
+        'https://beta.freecodecamp.dev'
+      );
+
+      expect(response.status).toBe(204);
+      expect(response.headers.get('access-control-allow-origin')).toBe(
+        'https://beta.freecodecamp.dev'
+      );
+      expect(response.headers.get('access-control-allow-credentials')).toBe(
+        'true'
+      );
+      expect(response.headers.get('access-control-allow-methods')).toContain(
+        'POST'
+      );
+      expect(response.headers.get('access-control-allow-headers')).toBe(
+        'content-type'
+      );
+      expect(response.headers.get('access-control-max-age')).toBe('7200');
+      expect(response.headers.get('vary')).toContain('Origin');
+    });
+
+    it('should send no CORS headers to other origins', async () => {
+      const preflight = await request(list, 'OPTIONS', 'https://example.com');
+      const post = await request(list, 'POST', 'https://example.com');
+
+      for (const response of [preflight, post]) {
+        expect(response.headers.get('access-control-allow-origin')).toBeNull();
+        expect(
+          response.headers.get('access-control-allow-credentials')
+        ).toBeNull();
+      }
+      expect(post.headers.get('vary')).toContain('Origin');
+    });
+
+    it('should answer * without credentials', async () => {
+      const response = await request('*', 'OPTIONS', 'https://example.com');
+
+      expect(response.headers.get('access-control-allow-origin')).toBe('*');
+      expect(
+        response.headers.get('access-control-allow-credentials')
+      ).toBeNull();
+    });
+
+    it('should add CORS headers to GraphQL responses', async () => {
+      const response = await request(
+        list,
+        'POST',
+        'https://www.freecodecamp.org'
+      );
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('access-control-allow-origin')).toBe(
+        'https://www.freecodecamp.org'
+      );
+      expect(response.headers.get('access-control-expose-headers')).toBe(
+        'x-request-id'
+      );
+      expect(response.headers.get('access-control-max-age')).toBeNull();
+    });
+  });
+});
@@ -1,6 +1,11 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { join } from 'node:path';
 import { initializeDataStore } from '../data/index.js';
-import { getTestDataStore } from './setup.js';
+import {
+  createTempCurriculum,
+  getTestDataStore,
+  type TempCurriculum,
+} from './setup.js';
 import { BlockLayout, BlockLabel } from '../data/types.js';
 
 describe('Data Loading Validation', () => {
@@ -14,6 +19,200 @@ describe('Data Loading Validation', () => {
         expect(result.data.curriculum).toBeDefined();
       }
     });
+
+    it('should start with empty diagnostics for valid data', async () => {
+      const store = await getTestDataStore();
+
+      expect(store.diagnostics).toEqual({
+        validationErrors: [],
+        excludedSuperblocks: [],
+        excludedBlocks: [],
+        sharedChallenges: [],
+      });
+    });
+  });
+
+  describe('Validation Modes', () => {
+    let curriculum: TempCurriculum;
+
+    beforeAll(async () => {
+      curriculum = await createTempCurriculum('curriculum-structure-');
+
+      await curriculum.writeJson('curriculum.json', {
+        superblocks: ['good-superblock', 'missing-superblock'],
+        certifications: [],
+      });
+      await curriculum.writeJson('superblocks/good-superblock.json', {
+        blocks: ['good-block', 'bad-enum-block', 'bad-challenge-block'],
+      });
+      await curriculum.writeBlock('good-block', {
+        name: 'Good',
+        challengeOrder: [{ id: 'c1', title: 'Challenge 1' }],
+      });
+      await curriculum.writeBlock('bad-enum-block', {
+        name: 'Bad Enum',
+        blockLayout: 'not-a-layout',
+        blockLabel: 'not-a-label',
+        challengeOrder: [{ id: 'c2', title: 'Challenge 2' }],
+      });
+      await curriculum.writeBlock('bad-challenge-block', {
+        name: 'Bad Challenge',
+        challengeOrder: [{ title: 'No id' }],
+      });
+    });
+
+    afterAll(async () => {
+      await curriculum.remove();
+    });
+
+    it('should report every error in one pass in strict mode', async () => {
+      const result = await initializeDataStore(curriculum.path);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.map((error) => error.field)).toEqual([
+          undefined,
+          'blockLayout',
+          'blockLabel',
+          'challengeOrder[0].id',
+        ]);
+        expect(result.error[0]?.filePath).toContain('missing-superblock.json');
+        expect(result.error[3]?.filePath).toContain('bad-challenge-block.json');
+      }
+    });
+
+    it('should leave broken files out in lenient mode', async () => {
+      const result = await initializeDataStore(curriculum.path, {
+        validationMode: 'lenient',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const store = result.data;
+        expect(store.curriculum.superblocks).toEqual(['good-superblock']);
+        expect([...store.blocks.keys()]).toEqual(['good-block']);
+        expect(store.superblocks.get('good-superblock')?.blocks).toEqual([
+          'good-block',
+        ]);
+        expect([...store.challenges.keys()]).toEqual(['c1']);
+        expect(store.diagnostics.validationErrors).toHaveLength(4);
+        expect(store.diagnostics.excludedSuperblocks).toEqual([
+          'missing-superblock',
+        ]);
+        expect(store.diagnostics.excludedBlocks).toEqual([
+          'bad-enum-block',
+          'bad-challenge-block',
+        ]);
+      }
+    });
+
+    it('should report the duration of every completed phase', async () => {
+      const phases = async (validationMode: 'strict' | 'lenient') => {
+        const reported: string[] = [];
+        await initializeDataStore(curriculum.path, {
+          validationMode,
+          onPhase: (phase, durationMs) => {
+            expect(durationMs).toBeGreaterThanOrEqual(0);
+            reported.push(phase);
+          },
+        });
+        return reported;
+      };
+
+      expect(await phases('strict')).toEqual(['load', 'validate']);
+      expect(await phases('lenient')).toEqual([
+        'load',
+        'validate',
+        'normalize',
+        'index',
+      ]);
+    });
+
+    it('should fail in lenient mode when curriculum.json is unreadable', async () => {
+      const result = await initializeDataStore(
+        join(curriculum.path, 'missing'),
+        {
+          validationMode: 'lenient',
+        }
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toHaveLength(1);
+        expect(result.error[0]?.message).toContain('curriculum.json');
+      }
+    });
+  });
+
+  describe('Challenge ID Uniqueness', () => {
+    let curriculum: TempCurriculum;
+
+    const writeBlock = (dashedName: string, ids: string[]) =>
+      curriculum.writeBlock(dashedName, {
+        challengeOrder: ids.map((id) => ({ id, title: `Challenge ${id}` })),
+      });
+
+    beforeAll(async () => {
+      curriculum = await createTempCurriculum('curriculum-structure-');
+
+      await curriculum.writeJson('curriculum.json', {
+        superblocks: ['test-superblock'],
+        certifications: [],
+      });
+      await curriculum.writeJson('superblocks/test-superblock.json', {
+        blocks: ['first-block', 'second-block'],
+      });
+      await writeBlock('first-block', ['c1', 'shared']);
+      await writeBlock('second-block', ['shared', 'c2']);
+    });
+
+    afterAll(async () => {
+      await curriculum.remove();
+    });
+
+    it('should reject a challenge id listed in two blocks', async () => {
+      const result = await initializeDataStore(curriculum.path);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toHaveLength(1);
+        expect(result.error[0]?.filePath).toContain('second-block.json');
+        expect(result.error[0]?.message).toContain('first-block.json');
+      }
+    });
+
+    it('should leave the duplicating block out in lenient mode', async () => {
+      const result = await initializeDataStore(curriculum.path, {
+        validationMode: 'lenient',
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.diagnostics.excludedBlocks).toEqual([
+          'second-block',
+        ]);
+        expect(result.data.challenges.get('shared')?.blockDashedName).toBe(
+          'first-block'
+        );
+      }
+    });
+
+    it('should record allow-listed ids as shared challenges', async () => {
+      const result = await initializeDataStore(curriculum.path, {
+        sharedChallengeIds: ['shared'],
+      });
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.diagnostics.sharedChallenges).toEqual([
+          { id: 'shared', blockDashedNames: ['first-block', 'second-block'] },
+        ]);
+        expect(result.data.challenges.get('shared')?.blockDashedName).toBe(
+          'first-block'
+        );
+        expect(result.data.blocks.size).toBe(2);
+      }
+    });
   });
 
   describe('Curriculum Files', () => {
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parse } from 'graphql';
+import type { GraphQLExecutor } from './setup.js';
+import { createTestExecutor, getTestDataStore } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+import { buildDataStore, InMemoryDataProvider } from '../data/index.js';
+import type { DataProvider } from '../data/types.js';
+import { createGraphQLServer } from '../server.js';
+
+let executor: GraphQLExecutor;
+
+beforeAll(async () => {
+  executor = await createTestExecutor();
+});
+
+describe('Error Handling', () => {
+  describe('Lookup result unions', () => {
+    it('should return the entity or a NotFound result', async () => {
+      type Result = {
+        __typename: string;
+        dashedName?: string;
+        code?: string;
+        entityType?: string;
+        key?: string;
+      };
+      const result = await executor.execute<{
+        found: Result;
+        missing: Result;
+        challenge: Result;
+        superblock: Result;
+      }>({
+        document: parse(`
+          fragment NotFoundFields on NotFound {
+            code
+            entityType
+            key
+          }
+
+          query Lookups($block: String!, $missing: String!, $id: ID!) {
+            found: blockResult(dashedName: $block) {
+              __typename
+              ... on Block { dashedName }
+              ...NotFoundFields
+            }
+            missing: blockResult(dashedName: $missing) {
+              __typename
+              ...NotFoundFields
+            }
+            challenge: challengeResult(id: $id) {
+              __typename
+              ...NotFoundFields
+            }
+            superblock: superblockResult(dashedName: $missing) {
+              __typename
+              ...NotFoundFields
+            }
+          }
+        `),
+        variables: {
+          block: KNOWN_TEST_DATA.validBlock,
+          missing: KNOWN_TEST_DATA.nonExistentBlock,
+          id: KNOWN_TEST_DATA.nonExistentChallengeId,
+        },
+      });
+
+      expectValidGraphQLResponse(result);
+      expect(result.data.found).toEqual({
+        __typename: 'Block',
+        dashedName: KNOWN_TEST_DATA.validBlock,
+      });
+      expect(result.data.missing).toEqual({
+        __typename: 'NotFound',
+        code: 'NOT_FOUND',
+        entityType: 'Block',
+        key: KNOWN_TEST_DATA.nonExistentBlock,
+      });
+      expect(result.data.challenge.entityType).toBe('Challenge');
+      expect(result.data.superblock.__typename).toBe('NotFound');
+    });
+  });
+
+  describe('DATA_INTEGRITY', () => {
+    it('should report references to entities that are not loaded', async () => {
+      // Challenge whose block was never loaded
+      const challenge = {
+        id: 'orphan',
+        title: 'Orphan',
+        blockDashedName: 'missing-block',
+        order: 0,
+        previousChallengeId: null,
+        nextChallengeId: null,
+        nextInSuperblock: new Map<string, string>(),
+      };
+      const store = buildDataStore(
+        { superblocks: [], certifications: [] },
+        new Map(),
+        new Map(),
+        new Map([[challenge.id, challenge]])
+      );
+      const orphanExecutor = await createTestExecutor(
+        new InMemoryDataProvider(store)
+      );
+
+      const result = await orphanExecutor.execute({
+        document: parse(`{ challenge(id: "orphan") { block { name } } }`),
+      });
+
+      expect(result.errors?.[0]?.extensions).toEqual({
+        code: 'DATA_INTEGRITY',
+        entityType: 'Block',
+        key: 'missing-block',
+        referencedBy: 'Challenge:orphan',
+      });
+    });
+  });
+
+  describe('Error masking', () => {
+    class BrokenSearchProvider extends InMemoryDataProvider {
+      override search(): never {
+        throw new Error('search index corrupted');
+      }
+      override snapshot(): InMemoryDataProvider {
+        return this;
+      }
+    }
+
+    const brokenProvider = async (): Promise<DataProvider> =>
+      new BrokenSearchProvider(await getTestDataStore());
+
+    const search = async (exposeErrors: boolean) => {
+      const { yoga } = createGraphQLServer(await brokenProvider(), {
+        port: 0,
+        corsOrigin: '*',
+        exposeErrors,
+      });
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({ query: '{ search(query: "html") { score } }' }),
+      });
+      const body = (await response.json()) as {
+        errors?: {
+          message: string;
+          extensions?: {
+            code?: string;
+            originalError?: { message?: string };
+          };
+        }[];
+      };
+      return body.errors?.[0];
+    };
+
+    it('should mask unexpected errors', async () => {
+      const error = await search(false);
+
+      expect(error?.message).toBe('Unexpected error.');
+      expect(error?.extensions?.code).toBe('INTERNAL_SERVER_ERROR');
+      expect(JSON.stringify(error)).not.toContain('corrupted');
+    });
+
+    it('should expose unexpected error details when configured', async () => {
+      const error = await search(true);
+
+      expect(error?.message).toBe('Unexpected error.');
+      expect(error?.extensions?.originalError?.message).toBe(
+        'search index corrupted'
+      );
+    });
+
+    it('should pass taxonomy errors through unmasked', async () => {
+      const result = await executor.execute({
+        document: parse(
+          `{ blocksConnection(first: 1, after: "bogus") { totalCount } }`
+        ),
+      });
+
+      expect(result.errors?.[0]?.extensions).toEqual({
+        code: 'BAD_USER_INPUT',
+        argumentName: 'after',
+      });
+    });
+  });
+});
@@ -19,6 +19,7 @@ import type {
   CertificationsQueryResponse,
   CertificationsWithSuperblockQueryResponse,
 } from './typed-helpers.js';
+import { fromGlobalId } from '../schema/node.js';
 
 let executor: GraphQLExecutor;
 
@@ -512,4 +513,117 @@ describe('GraphQL Query Validation', () => {
       }
     });
   });
+
+  describe('Query: chapter(...) / module(...)', () => {
+    const FIRST_CHAPTER = parse(`
+      query FirstChapter {
+        chaptersConnection(first: 1) {
+          nodes {
+            id
+            dashedName
+            superblock {
+              dashedName
+            }
+            modules {
+              id
+              dashedName
+            }
+          }
+        }
+      }
+    `);
+
+    const LOOKUP = parse(`
+      query Lookup(
+        $superblock: String!
+        $chapter: String!
+        $module: String!
+      ) {
+        chapter(superblockDashedName: $superblock, dashedName: $chapter) {
+          id
+          dashedName
+        }
+        module(
+          superblockDashedName: $superblock
+          chapterDashedName: $chapter
+          dashedName: $module
+        ) {
+          id
+          dashedName
+          chapter {
+            id
+          }
+        }
+      }
+    `);
+
+    type FirstChapterResponse = {
+      chaptersConnection: {
+        nodes: {
+          id: string;
+          dashedName: string;
+          superblock: { dashedName: string };
+          modules: { id: string; dashedName: string }[];
+        }[];
+      };
+    };
+    type LookupResponse = {
+      chapter: { id: string; dashedName: string } | null;
+      module: {
+        id: string;
+        dashedName: string;
+        chapter: { id: string };
+      } | null;
+    };
+
+    it('should look up chapters and modules by composite key', async () => {
+      const listed = await executor.execute<FirstChapterResponse>({
+        document: FIRST_CHAPTER,
+      });
+      expectValidGraphQLResponse(listed);
+      const chapter = listed.data.chaptersConnection.nodes[0];
+      const module = chapter?.modules[0];
+      expect(module).toBeDefined();
+      if (!chapter || !module) return;
+
+      const superblock = chapter.superblock.dashedName;
+      expect(fromGlobalId(chapter.id)).toEqual({
+        type: 'Chapter',
+        key: `${superblock}/${chapter.dashedName}`,
+      });
+      expect(fromGlobalId(module.id)).toEqual({
+        type: 'Module',
+        key: `${superblock}/${chapter.dashedName}/${module.dashedName}`,
+      });
+
+      const result = await executor.execute<LookupResponse>({
+        document: LOOKUP,
+        variables: {
+          superblock,
+          chapter: chapter.dashedName,
+          module: module.dashedName,
+        },
+      });
+
+      expectValidGraphQLResponse(result);
+      expect(result.data.chapter?.id).toBe(chapter.id);
+      expect(result.data.module?.id).toBe(module.id);
+      expect(result.data.module?.chapter.id).toBe(chapter.id);
+    });
+
+    it('should return null for unknown keys', async () => {
+      const result = await executor.execute<LookupResponse>({
+        document: LOOKUP,
+        variables: {
+          superblock: KNOWN_TEST_DATA.nonExistentSuperblock,
+          chapter: 'html',
+          module: 'basic-html',
+        },
+      });
+
+      expectValidGraphQLResponse(result);
+      expectNullableField(result.data.chapter, { expectNull: true });
+      expectNullableField(result.data.module, { expectNull: true });
+    });
+  });
 });
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parse } from 'graphql';
+import {
+  HybridDataProvider,
+  estimateContentBytes,
+} from '../data/hybrid-provider.js';
+import {
+  DataValidationError,
+  type ChallengeContent,
+  type ChallengeMetadata,
+  type ContentSource,
+  type DataStore,
+  type Result,
+} from '../data/types.js';
+import { createTestExecutor, getTestDataStore } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+
+/**
+ * In-memory ContentSource that records how often each challenge is loaded
+ */
+class CountingContentSource implements ContentSource {
+  readonly loads = new Map<string, number>();
+
+  constructor(private readonly failingIds: ReadonlySet<string> = new Set()) {}
+
+  async loadChallengeContent(
+    challenge: ChallengeMetadata
+  ): Promise<Result<ChallengeContent | null, DataValidationError>> {
+    this.loads.set(challenge.id, (this.loads.get(challenge.id) ?? 0) + 1);
+
+    if (this.failingIds.has(challenge.id)) {
+      return {
+        success: false,
+        error: new DataValidationError('broken', `${challenge.id}.md`),
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        id: challenge.id,
+        description: `Description of ${challenge.title}`,
+        instructions: 'x'.repeat(1000),
+        files: [],
+        tests: [],
+        solutions: [],
+      },
+    };
+  }
+}
+
+describe('HybridDataProvider', () => {
+  let store: DataStore;
+  let challengeIds: string[];
+
+  beforeAll(async () => {
+    store = await getTestDataStore();
+    const block = store.blocks.get(KNOWN_TEST_DATA.validBlock);
+    challengeIds = block?.challenges.map((challenge) => challenge.id) ?? [];
+  });
+
+  it('should serve metadata from the DataStore', () => {
+    const provider = new HybridDataProvider(store, new CountingContentSource());
+
+    expect(provider.getBlock(KNOWN_TEST_DATA.validBlock)).toBe(
+      store.blocks.get(KNOWN_TEST_DATA.validBlock)
+    );
+    expect(provider.getCurriculum()).toBe(store.curriculum);
+  });
+
+  it('should cache content after the first load', async () => {
+    const source = new CountingContentSource();
+    const provider = new HybridDataProvider(store, source);
+    const id = challengeIds[0]!;
+
+    const first = await provider.getChallengeContent(id);
+    const second = await provider.getChallengeContent(id);
+
+    expect(second).toBe(first);
+    expect(source.loads.get(id)).toBe(1);
+    expect(provider.getContentCacheStats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+      entries: 1,
+    });
+  });
+
+  it('should share one load between concurrent requests', async () => {
+    const source = new CountingContentSource();
+    const provider = new HybridDataProvider(store, source);
+    const id = challengeIds[0]!;
+
+    await Promise.all([
+      provider.getChallengeContent(id),
+      provider.getChallengeContent(id),
+      provider.getChallengeContent(id),
+    ]);
+
+    expect(source.loads.get(id)).toBe(1);
+  });
+
+  it('should evict content beyond the byte limit', async () => {
+    const source = new CountingContentSource();
+    const id = challengeIds[0]!;
+    const content = await source.loadChallengeContent(
+      store.challenges.get(id)!
+    );
+    const entryBytes = content.success ? estimateContentBytes(content.data) : 0;
+    const provider = new HybridDataProvider(store, source, {
+      maxCacheBytes: entryBytes * 2,
+    });
+
+    for (const challengeId of challengeIds.slice(0, 4)) {
+      await provider.getChallengeContent(challengeId);
+    }
+
+    const stats = provider.getContentCacheStats();
+    expect(stats.entries).toBe(2);
+    expect(stats.evictions).toBe(2);
+    expect(stats.sizeBytes).toBeLessThanOrEqual(stats.maxSizeBytes);
+  });
+
+  it('should return null for unknown challenges without loading', async () => {
+    const source = new CountingContentSource();
+    const provider = new HybridDataProvider(store, source);
+
+    expect(
+      await provider.getChallengeContent(KNOWN_TEST_DATA.nonExistentChallengeId)
+    ).toBeNull();
+    expect(source.loads.size).toBe(0);
+  });
+
+  it('should not cache failed loads', async () => {
+    const id = challengeIds[1]!;
+    const source = new CountingContentSource(new Set([id]));
+    const provider = new HybridDataProvider(store, source);
+
+    await expect(provider.getChallengeContent(id)).rejects.toThrow('broken');
+    await expect(provider.getChallengeContent(id)).rejects.toThrow('broken');
+    expect(source.loads.get(id)).toBe(2);
+  });
+
+  it('should share the content cache with snapshots', async () => {
+    const source = new CountingContentSource();
+    const provider = new HybridDataProvider(store, source);
+    const id = challengeIds[0]!;
+
+    await provider.snapshot().getChallengeContent(id);
+    await provider.snapshot().getChallengeContent(id);
+
+    expect(source.loads.get(id)).toBe(1);
+  });
+
+  it('should drop cached content when the store is replaced', async () => {
+    const source = new CountingContentSource();
+    const provider = new HybridDataProvider(store, source);
+    const id = challengeIds[0]!;
+
+    await provider.getChallengeContent(id);
+    provider.replaceStore(store);
+    await provider.getChallengeContent(id);
+
+    expect(source.loads.get(id)).toBe(2);
+  });
+
+  it('should not cache loads that started before the store was replaced', async () => {
+    const source = new CountingContentSource();
+    const provider = new HybridDataProvider(store, source);
+    const id = challengeIds[0]!;
+
+    const stale = provider.getChallengeContent(id);
+    provider.replaceStore(store);
+    await stale;
+    await provider.getChallengeContent(id);
+
+    expect(source.loads.get(id)).toBe(2);
+  });
+
+  it('should report cache stats in _health.dataStore', async () => {
+    const provider = new HybridDataProvider(store, new CountingContentSource());
+    await provider.getChallengeContent(challengeIds[0]!);
+    await provider.getChallengeContent(challengeIds[0]!);
+    const executor = await createTestExecutor(provider);
+
+    const result = await executor.execute<{
+      _health: {
+        dataStore: {
+          contentCache: {
+            hits: number;
+            misses: number;
+            hitRate: number;
+            entries: number;
+            maxSizeMB: number;
+          } | null;
+        };
+      };
+    }>({
+      document: parse(`
+        query GetContentCacheHealth {
+          _health {
+            dataStore {
+              contentCache { hits misses hitRate entries maxSizeMB }
+            }
+          }
+        }
+      `),
+    });
+
+    expectValidGraphQLResponse(result);
+    expect(result.data._health.dataStore.contentCache).toEqual({
+      hits: 1,
+      misses: 1,
+      hitRate: 0.5,
+      entries: 1,
+      maxSizeMB: 50,
+    });
+  });
+
+  it('should report null cache stats without a content cache', async () => {
+    const executor = await createTestExecutor();
+
+    const result = await executor.execute<{
+      _health: { dataStore: { contentCache: null } };
+    }>({
+      document: parse(`
+        query GetContentCacheHealth {
+          _health { dataStore { contentCache { hits } } }
+        }
+      `),
+    });
+
+    expectValidGraphQLResponse(result);
+    expect(result.data._health.dataStore.contentCache).toBeNull();
+  });
+});
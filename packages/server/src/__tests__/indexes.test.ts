@@ -0,0 +1,401 @@
+import { describe, it, expect } from 'vitest';
+import { parse } from 'graphql';
+import {
+  buildDataStore,
+  chapterKey,
+  moduleKey,
+  InMemoryDataProvider,
+} from '../data/index.js';
+import {
+  BlockLabel,
+  BlockLayout,
+  SuperblockStructure,
+  type BlockData,
+  type ChapterData,
+  type SuperblockData,
+} from '../data/types.js';
+import { createTestExecutor } from './setup.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+import type { Query } from '../schema/types.generated.js';
+
+const block = (
+  dashedName: string,
+  superblockDashedNames: string[],
+  overrides: Partial<BlockData> = {}
+): BlockData => ({
+  name: dashedName,
+  dashedName,
+  helpCategory: 'HTML-CSS',
+  challenges: ['One', 'Two'].map((title, order) => ({
+    id: `${dashedName}-${order + 1}`,
+    title,
+    blockDashedName: dashedName,
+    order,
+    previousChallengeId: order > 0 ? `${dashedName}-${order}` : null,
+    nextChallengeId: order === 0 ? `${dashedName}-2` : null,
+    nextInSuperblock: new Map<string, string>(),
+  })),
+  blockLayout: BlockLayout.CHALLENGE_GRID,
+  blockLabel: null,
+  isUpcomingChange: false,
+  usesMultifileEditor: null,
+  hasEditableBoundaries: null,
+  disableLoopProtectTests: null,
+  disableLoopProtectPreview: null,
+  required: null,
+  template: null,
+  superblockDashedNames,
+  ...overrides,
+});
+
+const chapter = (
+  superblockDashedName: string,
+  dashedName: string,
+  blocks: string[]
+): ChapterData => ({
+  dashedName,
+  comingSoon: false,
+  superblockDashedName,
+  modules: [
+    {
+      dashedName: `${dashedName}-module`,
+      blocks,
+      moduleType: null,
+      comingSoon: false,
+      chapterDashedName: dashedName,
+      superblockDashedName,
+    },
+  ],
+});
+
+const superblock = (
+  dashedName: string,
+  chapters: ChapterData[]
+): SuperblockData => ({
+  name: dashedName,
+  dashedName,
+  blocks: chapters.flatMap((ch) => ch.modules.flatMap((mod) => mod.blocks)),
+  chapters,
+  structure: SuperblockStructure.CHAPTERED,
+  comingSoon: false,
+  isCertification: false,
+});
+
+// Two superblocks with a chapter of the same name and a shared block
+const superblocks = new Map([
+  [
+    'sb-a',
+    superblock('sb-a', [
+      chapter('sb-a', 'html', ['html-basics', 'shared-review']),
+      chapter('sb-a', 'css', ['css-basics']),
+    ]),
+  ],
+  [
+    'sb-b',
+    superblock('sb-b', [chapter('sb-b', 'html', ['shared-review', 'forms'])]),
+  ],
+]);
+const blocks = new Map([
+  ['html-basics', block('html-basics', ['sb-a'])],
+  [
+    'shared-review',
+    block('shared-review', ['sb-a', 'sb-b'], {
+      blockLabel: BlockLabel.REVIEW,
+      blockLayout: BlockLayout.LINK,
+      helpCategory: 'Review',
+    }),
+  ],
+  ['css-basics', block('css-basics', ['sb-a'])],
+  ['forms', block('forms', ['sb-b'], { blockLabel: BlockLabel.LAB })],
+]);
+const challenges = new Map(
+  [...blocks.values()]
+    .flatMap((b) => b.challenges)
+    .map((challenge) => [challenge.id, challenge])
+);
+
+const store = buildDataStore(
+  { superblocks: ['sb-a', 'sb-b'], certifications: [] },
+  superblocks,
+  blocks,
+  challenges
+);
+const { indexes } = store;
+
+describe('DataStore Indexes', () => {
+  it('should key chapters and modules by their full path', () => {
+    expect(indexes.chapters.get(chapterKey('sb-b', 'html'))).toBe(
+      superblocks.get('sb-b')?.chapters[0]
+    );
+    expect(
+      indexes.modules.get(moduleKey('sb-a', 'css', 'css-module'))?.blocks
+    ).toEqual(['css-basics']);
+    expect(indexes.chapters.get(chapterKey('sb-b', 'css'))).toBeUndefined();
+  });
+
+  it('should list chapters and modules in curriculum order', () => {
+    expect(
+      indexes.chapterList.map(
+        (ch) => `${ch.superblockDashedName}/${ch.dashedName}`
+      )
+    ).toEqual(['sb-a/html', 'sb-a/css', 'sb-b/html']);
+    expect(indexes.moduleList).toHaveLength(3);
+    expect(indexes.modulesBySuperblock.get('sb-a')).toHaveLength(2);
+  });
+
+  it('should match a chapter name in every superblock', () => {
+    expect(
+      indexes.modulesByChapter
+        .get('html')
+        ?.map((mod) => mod.superblockDashedName)
+    ).toEqual(['sb-a', 'sb-b']);
+  });
+
+  it('should list shared blocks and their challenges once', () => {
+    expect(indexes.blockList.map((b) => b.dashedName)).toEqual([
+      'html-basics',
+      'shared-review',
+      'css-basics',
+      'forms',
+    ]);
+    expect(indexes.challengeList).toHaveLength(8);
+    expect(new Set(indexes.challengeList.map((c) => c.id)).size).toBe(8);
+  });
+
+  it('should group blocks by label, layout and help category', () => {
+    expect(
+      indexes.blocksByLabel.get(BlockLabel.REVIEW)?.map((b) => b.dashedName)
+    ).toEqual(['shared-review']);
+    expect(indexes.blocksByLayout.get(BlockLayout.CHALLENGE_GRID)).toHaveLength(
+      3
+    );
+    expect(indexes.blocksByHelpCategory.get('Review')).toHaveLength(1);
+    expect([...indexes.blocksByLabel.values()].flat()).toHaveLength(2);
+  });
+
+  it('should record every placement of a shared block', () => {
+    expect(indexes.placementsByBlock.get('shared-review')).toEqual([
+      {
+        superblockDashedName: 'sb-a',
+        chapterDashedName: 'html',
+        moduleDashedName: 'html-module',
+        blockDashedName: 'shared-review',
+      },
+      {
+        superblockDashedName: 'sb-b',
+        chapterDashedName: 'html',
+        moduleDashedName: 'html-module',
+        blockDashedName: 'shared-review',
+      },
+    ]);
+  });
+
+  it('should serve Block.modules and Challenge.path for shared blocks', async () => {
+    const executor = await createTestExecutor(new InMemoryDataProvider(store));
+
+    const result = await executor.execute<{
+      block: { chapters: { id: string }[]; modules: { id: string }[] } | null;
+      challenge: {
+        path: {
+          superblock: { dashedName: string };
+          chapter: { dashedName: string } | null;
+          module: { dashedName: string } | null;
+          block: { dashedName: string };
+        }[];
+      } | null;
+    }>({
+      document: parse(`
+        {
+          block(dashedName: "shared-review") {
+            chapters { id }
+            modules { id }
+          }
+          challenge(id: "shared-review-2") {
+            path {
+              superblock { dashedName }
+              chapter { dashedName }
+              module { dashedName }
+              block { dashedName }
+            }
+          }
+        }
+      `),
+    });
+
+    expectValidGraphQLResponse(result);
+    expect(result.data.block?.chapters).toHaveLength(2);
+    expect(result.data.block?.modules).toHaveLength(2);
+    expect(result.data.challenge?.path).toEqual([
+      {
+        superblock: { dashedName: 'sb-a' },
+        chapter: { dashedName: 'html' },
+        module: { dashedName: 'html-module' },
+        block: { dashedName: 'shared-review' },
+      },
+      {
+        superblock: { dashedName: 'sb-b' },
+        chapter: { dashedName: 'html' },
+        module: { dashedName: 'html-module' },
+        block: { dashedName: 'shared-review' },
+      },
+    ]);
+  });
+
+  it('should flag blocks with several superblocks as shared', async () => {
+    const executor = await createTestExecutor(new InMemoryDataProvider(store));
+
+    const result = await executor.execute<{
+      shared: { isShared: boolean } | null;
+      single: { isShared: boolean } | null;
+    }>({
+      document: parse(`
+        {
+          shared: block(dashedName: "shared-review") { isShared }
+          single: block(dashedName: "forms") { isShared }
+        }
+      `),
+    });
+
+    expectValidGraphQLResponse(result);
+    expect(result.data.shared?.isShared).toBe(true);
+    expect(result.data.single?.isShared).toBe(false);
+  });
+
+  it('should freeze the index lists', () => {
+    expect(Object.isFrozen(indexes.blockList)).toBe(true);
+    expect(Object.isFrozen(indexes.modulesByChapter.get('html'))).toBe(true);
+  });
+
+  it('should serve modules(chapterDashedName) from every superblock', async () => {
+    const executor = await createTestExecutor(new InMemoryDataProvider(store));
+
+    const result = await executor.execute<{ modules: Query['modules'] }>({
+      document: parse(`
+        query Modules($superblock: String, $chapter: String) {
+          modules(superblockDashedName: $superblock, chapterDashedName: $chapter) {
+            dashedName
+            chapter { superblock { dashedName } }
+          }
+        }
+      `),
+      variables: { chapter: 'html' },
+    });
+
+    expectValidGraphQLResponse(result);
+    expect(result.data?.modules).toHaveLength(2);
+
+    const scoped = await executor.execute<{ modules: Query['modules'] }>({
+      document: parse(`
+        query Modules($superblock: String, $chapter: String) {
+          modules(superblockDashedName: $superblock, chapterDashedName: $chapter) {
+            dashedName
+          }
+        }
+      `),
+      variables: { superblock: 'sb-b', chapter: 'html' },
+    });
+
+    expectValidGraphQLResponse(scoped);
+    expect(scoped.data?.modules).toHaveLength(1);
+  });
+});
+
+describe('Block and Challenge Filters', () => {
+  const provider = new InMemoryDataProvider(store);
+
+  const blockNames = async (
+    variables: Record<string, unknown>
+  ): Promise<string[]> => {
+    const executor = await createTestExecutor(provider);
+    const result = await executor.execute<{ blocks: Query['blocks'] }>({
+      document: parse(`
+        query Blocks($superblock: String, $filter: BlockFilter) {
+          blocks(superblockDashedName: $superblock, filter: $filter) {
+            dashedName
+          }
+        }
+      `),
+      variables,
+    });
+    expectValidGraphQLResponse(result);
+    return result.data.blocks.map((b) => b.dashedName);
+  };
+
+  it('should filter blocks by indexed properties', async () => {
+    expect(await blockNames({ filter: { blockLabel: 'LAB' } })).toEqual([
+      'forms',
+    ]);
+    expect(
+      await blockNames({ filter: { blockLayout: 'CHALLENGE_GRID' } })
+    ).toEqual(['html-basics', 'css-basics', 'forms']);
+    expect(await blockNames({ filter: { helpCategory: 'Review' } })).toEqual([
+      'shared-review',
+    ]);
+  });
+
+  it('should combine filter fields and the superblock argument', async () => {
+    expect(
+      await blockNames({
+        filter: { chapter: 'html', blockLayout: 'CHALLENGE_GRID' },
+      })
+    ).toEqual(['html-basics', 'forms']);
+    expect(
+      await blockNames({ superblock: 'sb-b', filter: { chapter: 'html' } })
+    ).toEqual(['shared-review', 'forms']);
+    expect(
+      await blockNames({ superblock: 'sb-a', filter: { module: 'css-module' } })
+    ).toEqual(['css-basics']);
+    expect(
+      await blockNames({ superblock: 'sb-b', filter: { chapter: 'css' } })
+    ).toEqual([]);
+  });
+
+  it('should treat unset boolean flags as false', async () => {
+    expect(
+      await blockNames({ filter: { usesMultifileEditor: false } })
+    ).toHaveLength(4);
+    expect(
+      await blockNames({ filter: { hasEditableBoundaries: true } })
+    ).toEqual([]);
+    expect(
+      await blockNames({ filter: { isUpcomingChange: false, chapter: 'css' } })
+    ).toEqual(['css-basics']);
+  });
+
+  it('should filter challenges by block properties and title', async () => {
+    const executor = await createTestExecutor(provider);
+    const document = parse(`
+      query Challenges($block: String, $filter: ChallengeFilter) {
+        challenges(blockDashedName: $block, filter: $filter) {
+          id
+        }
+        challengesConnection(blockDashedName: $block, filter: $filter) {
+          totalCount
+        }
+      }
+    `);
+    const run = async (variables: Record<string, unknown>) => {
+      const result = await executor.execute<{
+        challenges: Query['challenges'];
+        challengesConnection: Query['challengesConnection'];
+      }>({ document, variables });
+      expectValidGraphQLResponse(result);
+      expect(result.data.challengesConnection.totalCount).toBe(
+        result.data.challenges.length
+      );
+      return result.data.challenges.map((c) => c.id);
+    };
+
+    expect(
+      await run({
+        filter: { block: { chapter: 'html' }, titleContains: 'TWO' },
+      })
+    ).toEqual(['html-basics-2', 'shared-review-2', 'forms-2']);
+    expect(
+      await run({ block: 'forms', filter: { block: { blockLabel: 'LAB' } } })
+    ).toEqual(['forms-1', 'forms-2']);
+    expect(
+      await run({ block: 'forms', filter: { block: { chapter: 'css' } } })
+    ).toEqual([]);
+  });
+});
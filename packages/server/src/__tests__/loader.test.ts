@@ -28,10 +28,10 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain(
+        expect(result.error[0]?.message).toContain(
           'Failed to load curriculum.json'
         );
-        expect(result.error.filePath).toContain('curriculum.json');
+        expect(result.error[0]?.filePath).toContain('curriculum.json');
       }
     });
 
@@ -42,7 +42,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toBeDefined();
+        expect(result.error[0]?.message).toBeDefined();
       }
     });
   });
@@ -80,8 +80,10 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain('non-existent-superblock');
-        expect(result.error.filePath).toContain('non-existent-superblock.json');
+        expect(result.error[0]?.message).toContain('non-existent-superblock');
+        expect(result.error[0]?.filePath).toContain(
+          'non-existent-superblock.json'
+        );
       }
     });
 
@@ -93,7 +95,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toBeDefined();
+        expect(result.error[0]?.message).toBeDefined();
       }
     });
   });
@@ -115,8 +117,8 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain('non-existent-block');
-        expect(result.error.filePath).toContain('non-existent-block.json');
+        expect(result.error[0]?.message).toContain('non-existent-block');
+        expect(result.error[0]?.filePath).toContain('non-existent-block.json');
       }
     });
 
@@ -128,7 +130,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toBeDefined();
+        expect(result.error[0]?.message).toBeDefined();
       }
     });
   });
@@ -163,7 +165,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain('non-existent-superblock');
+        expect(result.error[0]?.message).toContain('non-existent-superblock');
       }
     });
 
@@ -183,7 +185,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain('non-existent-1');
+        expect(result.error[0]?.message).toContain('non-existent-1');
       }
     });
   });
@@ -213,7 +215,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain('non-existent-block');
+        expect(result.error[0]?.message).toContain('non-existent-block');
       }
     });
 
@@ -233,7 +235,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toContain('non-existent-1');
+        expect(result.error[0]?.message).toContain('non-existent-1');
       }
     });
 
@@ -244,7 +246,7 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toBeDefined();
+        expect(result.error[0]?.message).toBeDefined();
       }
     });
   });
@@ -255,9 +257,9 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error).toBeInstanceOf(Error);
-        expect(result.error.message).toBeDefined();
-        expect(result.error.filePath).toBeDefined();
+        expect(result.error[0]).toBeInstanceOf(Error);
+        expect(result.error[0]?.message).toBeDefined();
+        expect(result.error[0]?.filePath).toBeDefined();
       }
     });
 
@@ -266,8 +268,8 @@ describe('Data Loader Functions', () => {
 
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.filePath).toContain('test-superblock.json');
-        expect(result.error.filePath).toContain('/test/path');
+        expect(result.error[0]?.filePath).toContain('test-superblock.json');
+        expect(result.error[0]?.filePath).toContain('/test/path');
       }
     });
   });
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { getTestDataStore } from './setup.js';
+import { InMemoryDataProvider } from '../data/provider.js';
+import { Logger, type LogLevel } from '../logger.js';
+import { createGraphQLServer } from '../server.js';
+
+let provider: InMemoryDataProvider;
+
+beforeAll(async () => {
+  provider = new InMemoryDataProvider(await getTestDataStore());
+});
+
+const captureLogger = (level: LogLevel, format: 'json' | 'pretty') => {
+  const lines: { level: LogLevel; line: string }[] = [];
+  const logger = new Logger({
+    level,
+    format,
+    write: (entryLevel, line) => lines.push({ level: entryLevel, line }),
+  });
+  return { logger, lines };
+};
+
+describe('Structured Logging', () => {
+  describe('Logger', () => {
+    it('should write one JSON object per entry', () => {
+      const { logger, lines } = captureLogger('info', 'json');
+      logger.info('Loaded', { blockCount: 3, skipped: undefined });
+
+      expect(lines).toHaveLength(1);
+      const entry = JSON.parse(lines[0]?.line ?? '') as Record<string, unknown>;
+      expect(entry).toEqual({
+        time: expect.any(String),
+        level: 'info',
+        msg: 'Loaded',
+        blockCount: 3,
+      });
+    });
+
+    it('should drop entries below the configured level', () => {
+      const { logger, lines } = captureLogger('warn', 'json');
+      logger.debug('debug');
+      logger.info('info');
+      logger.warn('warn');
+      logger.error('error');
+
+      expect(lines.map((entry) => entry.level)).toEqual(['warn', 'error']);
+    });
+
+    it('should add child fields and serialize errors', () => {
+      const { logger, lines } = captureLogger('info', 'json');
+      logger
+        .child({ component: 'data' })
+        .error('Reload failed', { error: new Error('disk full') });
+
+      const entry = JSON.parse(lines[0]?.line ?? '') as {
+        component: string;
+        error: { message: string; stack: string };
+      };
+      expect(entry.component).toBe('data');
+      expect(entry.error.message).toBe('disk full');
+      expect(entry.error.stack).toContain('disk full');
+    });
+
+    it('should write key=value pairs in pretty format', () => {
+      const { logger, lines } = captureLogger('info', 'pretty');
+      logger.info('Server started', { port: 4000, path: 'a b' });
+
+      expect(lines[0]?.line).toMatch(
+        /^\d{2}:\d{2}:\d{2}\.\d{3} INFO {2}Server started port=4000 path="a b"$/
+      );
+    });
+  });
+
+  describe('Request ids', () => {
+    const post = async (logger: Logger, headers: Record<string, string>) => {
+      const { yoga } = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin: '*',
+        logger,
+      });
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'content-type': 'application/json',
+          ...headers,
+        },
+        body: JSON.stringify({
+          query: 'query Curriculum { curriculum { superblocks } }',
+        }),
+      });
+      await response.text();
+      return response;
+    };
+
+    it('should echo the incoming id and log it with the request', async () => {
+      const { logger, lines } = captureLogger('info', 'json');
+      const response = await post(logger, { 'x-request-id': 'trace-42' });
+
+      expect(response.headers.get('x-request-id')).toBe('trace-42');
+      const entry = JSON.parse(lines.at(-1)?.line ?? '') as Record<
+        string,
+        unknown
+      >;
+      expect(entry).toMatchObject({
+        msg: 'GraphQL request',
+        requestId: 'trace-42',
+        operationName: 'Curriculum',
+      });
+      expect(entry['durationMs']).toEqual(expect.any(Number));
+      expect(entry).not.toHaveProperty('errorCodes');
+    });
+
+    it('should log masked resolver errors with the response id', async () => {
+      class BrokenSearchProvider extends InMemoryDataProvider {
+        override search(): never {
+          throw new Error('search index corrupted');
+        }
+        override snapshot(): InMemoryDataProvider {
+          return this;
+        }
+      }
+      const { logger, lines } = captureLogger('info', 'json');
+      const { yoga } = createGraphQLServer(
+        new BrokenSearchProvider(await getTestDataStore()),
+        { port: 0, corsOrigin: '*', logger }
+      );
+
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: 'query Search { search(query: "html") { score } }',
+        }),
+      });
+      const body = (await response.json()) as {
+        errors: { extensions: { code: string } }[];
+      };
+
+      expect(body.errors[0]?.extensions.code).toBe('INTERNAL_SERVER_ERROR');
+      const entries = lines.map(
+        ({ line }) => JSON.parse(line) as Record<string, unknown>
+      );
+      const errors = entries.filter((entry) => entry['level'] === 'error');
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        msg: 'Unexpected error',
+        requestId: response.headers.get('x-request-id'),
+        operationName: 'Search',
+        path: 'search',
+        error: { message: 'search index corrupted' },
+      });
+    });
+
+    it('should generate an id when none or a malformed one is sent', async () => {
+      const { logger } = captureLogger('info', 'json');
+      const generated = await post(logger, {});
+      const replaced = await post(logger, { 'x-request-id': 'bad id' });
+
+      const uuid = /^[0-9a-f-]{36}$/;
+      expect(generated.headers.get('x-request-id')).toMatch(uuid);
+      expect(replaced.headers.get('x-request-id')).toMatch(uuid);
+    });
+  });
+});
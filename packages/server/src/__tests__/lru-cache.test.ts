@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { LRUCache } from '../data/lru-cache.js';
+
+const createCache = (maxBytes: number) =>
+  new LRUCache<string, string>({
+    maxBytes,
+    sizeOf: (value) => value.length,
+  });
+
+describe('LRUCache', () => {
+  describe('get() / set()', () => {
+    it('should return cached values', () => {
+      const cache = createCache(100);
+      cache.set('a', 'alpha');
+
+      expect(cache.get('a')).toBe('alpha');
+      expect(cache.get('missing')).toBeUndefined();
+    });
+
+    it('should count hits and misses', () => {
+      const cache = createCache(100);
+      cache.set('a', 'alpha');
+
+      cache.get('a');
+      cache.get('a');
+      cache.get('b');
+
+      expect(cache.stats()).toMatchObject({ hits: 2, misses: 1 });
+    });
+
+    it('should replace an existing entry and its size', () => {
+      const cache = createCache(100);
+      cache.set('a', 'alpha');
+      cache.set('a', 'al');
+
+      expect(cache.get('a')).toBe('al');
+      expect(cache.stats()).toMatchObject({ entries: 1, sizeBytes: 2 });
+    });
+  });
+
+  describe('eviction', () => {
+    it('should evict least recently used entries beyond maxBytes', () => {
+      const cache = createCache(10);
+      cache.set('a', 'aaaa');
+      cache.set('b', 'bbbb');
+      cache.set('c', 'cccc');
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.has('b')).toBe(true);
+      expect(cache.has('c')).toBe(true);
+      expect(cache.stats()).toMatchObject({
+        entries: 2,
+        sizeBytes: 8,
+        evictions: 1,
+      });
+    });
+
+    it('should treat get() as a use when choosing what to evict', () => {
+      const cache = createCache(10);
+      cache.set('a', 'aaaa');
+      cache.set('b', 'bbbb');
+      cache.get('a');
+      cache.set('c', 'cccc');
+
+      expect(cache.has('a')).toBe(true);
+      expect(cache.has('b')).toBe(false);
+    });
+
+    it('should not cache values larger than maxBytes', () => {
+      const cache = createCache(3);
+      cache.set('a', 'aaaa');
+
+      expect(cache.has('a')).toBe(false);
+      expect(cache.stats().sizeBytes).toBe(0);
+    });
+  });
+
+  describe('delete() / clear()', () => {
+    it('should release the size of removed entries', () => {
+      const cache = createCache(100);
+      cache.set('a', 'aaaa');
+      cache.set('b', 'bb');
+
+      expect(cache.delete('a')).toBe(true);
+      expect(cache.delete('a')).toBe(false);
+      expect(cache.stats().sizeBytes).toBe(2);
+
+      cache.clear();
+      expect(cache.stats()).toMatchObject({ entries: 0, sizeBytes: 0 });
+    });
+  });
+});
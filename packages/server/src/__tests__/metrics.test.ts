@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import { getTestDataStore } from './setup.js';
+import { InMemoryDataProvider } from '../data/provider.js';
+import { ServerMetrics } from '../metrics.js';
+import { createGraphQLServer } from '../server.js';
+
+let provider: InMemoryDataProvider;
+
+beforeAll(async () => {
+  provider = new InMemoryDataProvider(await getTestDataStore());
+});
+
+const sample = (text: string, series: string): number | undefined => {
+  const line = text.split('\n').find((l) => l.startsWith(`${series} `));
+  return line === undefined ? undefined : Number(line.split(' ')[1]);
+};
+
+describe('Prometheus Metrics', () => {
+  describe('ServerMetrics', () => {
+    it('should count requests and errors and fill cumulative buckets', () => {
+      const metrics = new ServerMetrics();
+      metrics.recordRequest('GetBlock', 0.02, []);
+      metrics.recordRequest('GetBlock', 0.3, ['BAD_USER_INPUT']);
+      metrics.recordRequest(null, 0.001, []);
+
+      const text = metrics.render(provider);
+      const op = 'operation_name="GetBlock"';
+      expect(sample(text, `graphql_requests_total{${op}}`)).toBe(2);
+      expect(
+        sample(
+          text,
+          `graphql_request_duration_seconds_bucket{${op},le="0.025"}`
+        )
+      ).toBe(1);
+      expect(
+        sample(text, `graphql_request_duration_seconds_bucket{${op},le="0.5"}`)
+      ).toBe(2);
+      expect(
+        sample(text, `graphql_request_duration_seconds_bucket{${op},le="+Inf"}`)
+      ).toBe(2);
+      expect(
+        sample(text, `graphql_request_duration_seconds_sum{${op}}`)
+      ).toBeCloseTo(0.32);
+      expect(
+        sample(text, 'graphql_requests_total{operation_name="__anonymous"}')
+      ).toBe(1);
+      expect(sample(text, 'graphql_errors_total{code="BAD_USER_INPUT"}')).toBe(
+        1
+      );
+    });
+
+    it('should report entity counts, heap and data loads', () => {
+      const metrics = new ServerMetrics();
+      const before = metrics.render(provider);
+      expect(
+        sample(before, 'curriculum_data_last_reload_timestamp_seconds')
+      ).toBeUndefined();
+
+      metrics.recordDataLoad(1.5, true);
+      metrics.recordDataLoad(0.2, false);
+      const text = metrics.render(provider);
+
+      expect(sample(text, 'curriculum_entities{type="block"}')).toBe(
+        provider.getStats().blockCount
+      );
+      expect(sample(text, 'process_heap_used_bytes')).toBeGreaterThan(0);
+      expect(sample(text, 'curriculum_data_load_duration_seconds')).toBe(1.5);
+      expect(
+        sample(text, 'curriculum_data_loads_total{result="failure"}')
+      ).toBe(1);
+      expect(
+        sample(text, 'curriculum_data_last_reload_timestamp_seconds')
+      ).toBeGreaterThan(0);
+    });
+
+    it('should cap the number of operation name labels', () => {
+      const metrics = new ServerMetrics();
+      for (let i = 0; i < 101; i++) {
+        metrics.recordRequest(`Op${i}`, 0.01, []);
+      }
+
+      const text = metrics.render(provider);
+      expect(
+        sample(text, 'graphql_requests_total{operation_name="Op99"}')
+      ).toBe(1);
+      expect(
+        sample(text, 'graphql_requests_total{operation_name="__other"}')
+      ).toBe(1);
+    });
+
+    it('should escape label values', () => {
+      const metrics = new ServerMetrics();
+      metrics.recordRequest('Say"hi"\\', 0.01, []);
+
+      expect(metrics.render(provider)).toContain(
+        'graphql_requests_total{operation_name="Say\\"hi\\"\\\\"} 1'
+      );
+    });
+  });
+
+  describe('GET /metrics', () => {
+    it('should serve metrics recorded by the GraphQL plugin', async () => {
+      const metrics = new ServerMetrics();
+      const server = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin: '*',
+        metrics,
+      });
+      await server.start();
+
+      try {
+        const { port } = server.httpServer.address() as AddressInfo;
+        const post = (body: unknown) =>
+          fetch(`http://localhost:${port}/graphql`, {
+            method: 'POST',
+            headers: {
+              accept: 'application/json',
+              'content-type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          });
+
+        await post({
+          query: 'query Curriculum { curriculum { superblocks } }',
+        });
+        await post({
+          query: '{ challengesConnection(first: -1) { totalCount } }',
+        });
+
+        const response = await fetch(`http://localhost:${port}/metrics`);
+        const text = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toContain('text/plain');
+        expect(
+          sample(text, 'graphql_requests_total{operation_name="Curriculum"}')
+        ).toBe(1);
+        expect(
+          sample(text, 'graphql_errors_total{code="BAD_USER_INPUT"}')
+        ).toBe(1);
+      } finally {
+        await new Promise<void>((resolve) => {
+          server.httpServer.close(() => resolve());
+        });
+      }
+    });
+
+    it('should require the metrics token when one is set', async () => {
+      const server = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin: '*',
+        metrics: new ServerMetrics(),
+        metricsToken: 'scrape-token',
+      });
+      await server.start();
+
+      try {
+        const { port } = server.httpServer.address() as AddressInfo;
+        const url = `http://localhost:${port}/metrics?format=prometheus`;
+
+        const anonymous = await fetch(url);
+        const authorized = await fetch(url, {
+          headers: { Authorization: 'Bearer scrape-token' },
+        });
+
+        expect(anonymous.status).toBe(401);
+        expect(authorized.status).toBe(200);
+        expect(await authorized.text()).toContain('graphql_requests_total');
+      } finally {
+        await new Promise<void>((resolve) => {
+          server.httpServer.close(() => resolve());
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parse } from 'graphql';
+import type { GraphQLExecutor } from './setup.js';
+import { createTestExecutor, getTestDataStore } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+import { fromGlobalId, toGlobalId } from '../schema/node.js';
+
+const NODE = parse(`
+  query Node($id: ID!) {
+    node(id: $id) {
+      __typename
+      id
+      ... on Superblock {
+        dashedName
+      }
+      ... on Block {
+        dashedName
+      }
+      ... on Chapter {
+        dashedName
+      }
+      ... on Module {
+        dashedName
+      }
+      ... on Challenge {
+        title
+      }
+    }
+  }
+`);
+
+type NodeResponse = {
+  node: {
+    __typename: string;
+    id: string;
+    dashedName?: string;
+    title?: string;
+  } | null;
+};
+
+let executor: GraphQLExecutor;
+
+beforeAll(async () => {
+  executor = await createTestExecutor();
+});
+
+describe('Global Object Identification', () => {
+  describe('global IDs', () => {
+    it('should round-trip type and key', () => {
+      const id = toGlobalId('Module', 'full-stack/html/basic-html');
+
+      expect(fromGlobalId(id)).toEqual({
+        type: 'Module',
+        key: 'full-stack/html/basic-html',
+      });
+    });
+
+    it('should reject IDs for unknown types and plain strings', () => {
+      expect(
+        fromGlobalId(Buffer.from('User:1').toString('base64url'))
+      ).toBeNull();
+      expect(fromGlobalId('5dc174fcf86c76b9248c6eb2')).toBeNull();
+    });
+  });
+
+  describe('Query: node(id)', () => {
+    const fetchNode = async (id: string) => {
+      const result = await executor.execute<NodeResponse>({
+        document: NODE,
+        variables: { id },
+      });
+      expectValidGraphQLResponse(result);
+      return result.data.node;
+    };
+
+    it('should refetch superblocks and blocks by their id', async () => {
+      const superblock = await fetchNode(
+        toGlobalId('Superblock', KNOWN_TEST_DATA.validSuperblock)
+      );
+      const block = await fetchNode(
+        toGlobalId('Block', KNOWN_TEST_DATA.validBlock)
+      );
+
+      expect(superblock?.__typename).toBe('Superblock');
+      expect(superblock?.dashedName).toBe(KNOWN_TEST_DATA.validSuperblock);
+      expect(block?.__typename).toBe('Block');
+      expect(block?.id).toBe(toGlobalId('Block', KNOWN_TEST_DATA.validBlock));
+    });
+
+    it('should refetch chapters and modules by their composite id', async () => {
+      const store = await getTestDataStore();
+      const [chapter] = store.indexes.chapterList;
+      const [module] = chapter?.modules ?? [];
+      expect(module).toBeDefined();
+      if (!chapter || !module) return;
+
+      const chapterNode = await fetchNode(
+        toGlobalId(
+          'Chapter',
+          `${chapter.superblockDashedName}/${chapter.dashedName}`
+        )
+      );
+      const moduleNode = await fetchNode(
+        toGlobalId(
+          'Module',
+          `${module.superblockDashedName}/${module.chapterDashedName}/${module.dashedName}`
+        )
+      );
+
+      expect(chapterNode?.__typename).toBe('Chapter');
+      expect(chapterNode?.dashedName).toBe(chapter.dashedName);
+      expect(moduleNode?.__typename).toBe('Module');
+      expect(moduleNode?.dashedName).toBe(module.dashedName);
+    });
+
+    it('should accept plain and encoded challenge ids', async () => {
+      const store = await getTestDataStore();
+      const [challenge] = store.challenges.values();
+      if (!challenge) throw new Error('Test data has no challenges');
+
+      const plain = await fetchNode(challenge.id);
+      const encoded = await fetchNode(toGlobalId('Challenge', challenge.id));
+
+      expect(plain?.__typename).toBe('Challenge');
+      expect(plain?.id).toBe(challenge.id);
+      expect(encoded?.title).toBe(challenge.title);
+    });
+
+    it('should return null for unknown ids', async () => {
+      expect(
+        await fetchNode(toGlobalId('Block', KNOWN_TEST_DATA.nonExistentBlock))
+      ).toBeNull();
+      expect(await fetchNode('not-an-id')).toBeNull();
+    });
+  });
+
+  describe('Query: nodes(ids)', () => {
+    it('should resolve ids in order with nulls for unknown ones', async () => {
+      const result = await executor.execute<{
+        nodes: ({ __typename: string } | null)[];
+      }>({
+        document: parse(`
+          query Nodes($ids: [ID!]!) {
+            nodes(ids: $ids) {
+              __typename
+            }
+          }
+        `),
+        variables: {
+          ids: [
+            toGlobalId('Block', KNOWN_TEST_DATA.validBlock),
+            KNOWN_TEST_DATA.nonExistentChallengeId,
+            toGlobalId('Superblock', KNOWN_TEST_DATA.validSuperblock),
+          ],
+        },
+      });
+
+      expectValidGraphQLResponse(result);
+      expect(result.data.nodes).toEqual([
+        { __typename: 'Block' },
+        null,
+        { __typename: 'Superblock' },
+      ]);
+    });
+
+    it('should reject more than 100 ids with BAD_USER_INPUT', async () => {
+      const result = await executor.execute<{ nodes: unknown[] }>({
+        document: parse(`
+          query Nodes($ids: [ID!]!) {
+            nodes(ids: $ids) {
+              id
+            }
+          }
+        `),
+        variables: { ids: Array.from({ length: 101 }, (_, i) => `id-${i}`) },
+      });
+
+      expect(result.errors?.[0]?.extensions?.['code']).toBe('BAD_USER_INPUT');
+    });
+  });
+});
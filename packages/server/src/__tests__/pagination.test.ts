@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parse, type ExecutionResult } from 'graphql';
+import type { GraphQLExecutor } from './setup.js';
+import { createTestExecutor } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+import { encodeCursor, MAX_PAGE_SIZE } from '../schema/pagination.js';
+import type { Query } from '../schema/types.generated.js';
+
+type ChallengesConnectionResponse = {
+  challengesConnection: Query['challengesConnection'];
+};
+
+type ChallengesResponse = {
+  challenges: Query['challenges'];
+};
+
+type ChaptersConnectionResponse = {
+  chaptersConnection: Query['chaptersConnection'];
+};
+
+type ModulesConnectionResponse = {
+  modulesConnection: Query['modulesConnection'];
+};
+
+const GET_CHALLENGES_CONNECTION = parse(`
+  query GetChallengesConnection(
+    $blockDashedName: String
+    $first: Int
+    $after: String
+  ) {
+    challengesConnection(
+      blockDashedName: $blockDashedName
+      first: $first
+      after: $after
+    ) {
+      totalCount
+      edges {
+        cursor
+        node {
+          id
+        }
+      }
+      nodes {
+        id
+      }
+      pageInfo {
+        hasNextPage
+        hasPreviousPage
+        startCursor
+        endCursor
+      }
+    }
+  }
+`);
+
+const GET_CHALLENGES = parse(`
+  query GetChallenges($blockDashedName: String) {
+    challenges(blockDashedName: $blockDashedName) {
+      id
+    }
+  }
+`);
+
+let executor: GraphQLExecutor;
+
+beforeAll(async () => {
+  executor = await createTestExecutor();
+});
+
+describe('Cursor Pagination', () => {
+  describe('Query: challengesConnection', () => {
+    it('should page through a block in curriculum order', async () => {
+      const listResult = await executor.execute<ChallengesResponse>({
+        document: GET_CHALLENGES,
+        variables: { blockDashedName: KNOWN_TEST_DATA.validBlock },
+      });
+      expectValidGraphQLResponse(listResult);
+      const expectedIds = listResult.data.challenges.map((c) => c.id);
+
+      const pagedIds: string[] = [];
+      let after: string | null = null;
+      let pages = 0;
+
+      do {
+        const result: ExecutionResult<ChallengesConnectionResponse> =
+          await executor.execute<ChallengesConnectionResponse>({
+            document: GET_CHALLENGES_CONNECTION,
+            variables: {
+              blockDashedName: KNOWN_TEST_DATA.validBlock,
+              first: 7,
+              after,
+            },
+          });
+        expectValidGraphQLResponse(result);
+
+        const connection = result.data.challengesConnection;
+        expect(connection.totalCount).toBe(expectedIds.length);
+        expect(connection.nodes.map((c) => c.id)).toEqual(
+          connection.edges.map((edge) => edge.node.id)
+        );
+        expect(connection.pageInfo.hasPreviousPage).toBe(after !== null);
+
+        pagedIds.push(...connection.nodes.map((c) => c.id));
+        after = connection.pageInfo.hasNextPage
+          ? (connection.pageInfo.endCursor ?? null)
+          : null;
+        pages++;
+      } while (after !== null && pages < 100);
+
+      expect(pagedIds).toEqual(expectedIds);
+      expect(pages).toBe(Math.ceil(expectedIds.length / 7));
+    });
+
+    it('should expose first and last edge cursors in pageInfo', async () => {
+      const result = await executor.execute<ChallengesConnectionResponse>({
+        document: GET_CHALLENGES_CONNECTION,
+        variables: { blockDashedName: KNOWN_TEST_DATA.validBlock, first: 3 },
+      });
+
+      expectValidGraphQLResponse(result);
+
+      const { edges, pageInfo } = result.data.challengesConnection;
+      expect(edges).toHaveLength(3);
+      expect(pageInfo.startCursor).toBe(edges[0]?.cursor);
+      expect(pageInfo.endCursor).toBe(edges[2]?.cursor);
+      expect(pageInfo.hasNextPage).toBe(true);
+    });
+
+    it('should return an empty connection for unknown blocks', async () => {
+      const result = await executor.execute<ChallengesConnectionResponse>({
+        document: GET_CHALLENGES_CONNECTION,
+        variables: { blockDashedName: KNOWN_TEST_DATA.nonExistentBlock },
+      });
+
+      expectValidGraphQLResponse(result);
+
+      const connection = result.data.challengesConnection;
+      expect(connection.totalCount).toBe(0);
+      expect(connection.edges).toEqual([]);
+      expect(connection.pageInfo.hasNextPage).toBe(false);
+      expect(connection.pageInfo.startCursor).toBeNull();
+      expect(connection.pageInfo.endCursor).toBeNull();
+    });
+
+    it('should reject first above the maximum page size', async () => {
+      const result = await executor.execute<ChallengesConnectionResponse>({
+        document: GET_CHALLENGES_CONNECTION,
+        variables: { first: MAX_PAGE_SIZE + 1 },
+      });
+
+      expect(result.errors?.[0]?.extensions?.code).toBe('BAD_USER_INPUT');
+      expect(result.errors?.[0]?.extensions?.argumentName).toBe('first');
+    });
+
+    it('should reject malformed and unknown cursors', async () => {
+      for (const after of [
+        'not-a-cursor',
+        encodeCursor('Block', KNOWN_TEST_DATA.validBlock),
+        encodeCursor('Challenge', KNOWN_TEST_DATA.nonExistentChallengeId),
+      ]) {
+        const result = await executor.execute<ChallengesConnectionResponse>({
+          document: GET_CHALLENGES_CONNECTION,
+          variables: { blockDashedName: KNOWN_TEST_DATA.validBlock, after },
+        });
+
+        expect(result.errors?.[0]?.extensions?.code).toBe('BAD_USER_INPUT');
+        expect(result.errors?.[0]?.extensions?.argumentName).toBe('after');
+      }
+    });
+  });
+
+  describe('Query: blocksConnection', () => {
+    it('should count blocks of a superblock', async () => {
+      const result = await executor.execute<{
+        blocksConnection: Query['blocksConnection'];
+        superblock: Query['superblock'];
+      }>({
+        document: parse(`
+          query GetBlocksConnection($dashedName: String!) {
+            blocksConnection(superblockDashedName: $dashedName, first: 1) {
+              totalCount
+              nodes {
+                dashedName
+              }
+              pageInfo {
+                hasNextPage
+              }
+            }
+            superblock(dashedName: $dashedName) {
+              blocks
+            }
+          }
+        `),
+        variables: { dashedName: KNOWN_TEST_DATA.validSuperblock },
+      });
+
+      expectValidGraphQLResponse(result);
+
+      const blocks = result.data.superblock?.blocks ?? [];
+      const connection = result.data.blocksConnection;
+      expect(connection.totalCount).toBe(blocks.length);
+      expect(connection.nodes.map((b) => b.dashedName)).toEqual(
+        blocks.slice(0, 1)
+      );
+      expect(connection.pageInfo.hasNextPage).toBe(blocks.length > 1);
+    });
+  });
+
+  describe('Query: chaptersConnection / modulesConnection', () => {
+    it('should continue after a chapter cursor', async () => {
+      const document = parse(`
+        query GetChaptersConnection($first: Int, $after: String) {
+          chaptersConnection(first: $first, after: $after) {
+            totalCount
+            edges {
+              cursor
+              node {
+                dashedName
+              }
+            }
+          }
+        }
+      `);
+
+      const all = await executor.execute<ChaptersConnectionResponse>({
+        document,
+        variables: { first: MAX_PAGE_SIZE },
+      });
+      expectValidGraphQLResponse(all);
+
+      const edges = all.data.chaptersConnection.edges;
+      expect(edges.length).toBeGreaterThan(2);
+
+      const next = await executor.execute<ChaptersConnectionResponse>({
+        document,
+        variables: { first: 1, after: edges[0]?.cursor },
+      });
+      expectValidGraphQLResponse(next);
+
+      expect(next.data.chaptersConnection.edges).toEqual([edges[1]]);
+      expect(next.data.chaptersConnection.totalCount).toBe(
+        all.data.chaptersConnection.totalCount
+      );
+    });
+
+    it('should default to a page of 50 modules', async () => {
+      const result = await executor.execute<ModulesConnectionResponse>({
+        document: parse(`
+          query GetModulesConnection {
+            modulesConnection {
+              totalCount
+              nodes {
+                dashedName
+              }
+            }
+          }
+        `),
+      });
+
+      expectValidGraphQLResponse(result);
+
+      const connection = result.data.modulesConnection;
+      expect(connection.nodes.length).toBe(Math.min(connection.totalCount, 50));
+    });
+  });
+});
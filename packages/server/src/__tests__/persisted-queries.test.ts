@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryDataProvider } from '../data/provider.js';
+import {
+  hashQuery,
+  loadPersistedQueryManifest,
+  type PersistedQueriesMode,
+} from '../persisted-queries.js';
+import { createGraphQLServer } from '../server.js';
+import { getTestDataStore } from './setup.js';
+
+const CURRICULUM_QUERY = '{ curriculum { superblocks } }';
+const AD_HOC_QUERY = '{ superblocks { dashedName } }';
+
+describe('Persisted Queries', () => {
+  describe('loadPersistedQueryManifest()', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'persisted-queries-'));
+    });
+
+    afterAll(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load hash → document entries', async () => {
+      const filePath = join(dir, 'valid.json');
+      await writeFile(
+        filePath,
+        JSON.stringify({ [hashQuery(CURRICULUM_QUERY)]: CURRICULUM_QUERY })
+      );
+
+      const result = await loadPersistedQueryManifest(filePath);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.get(hashQuery(CURRICULUM_QUERY))).toBe(
+          CURRICULUM_QUERY
+        );
+      }
+    });
+
+    it('should report entries whose hash does not match', async () => {
+      const filePath = join(dir, 'mismatch.json');
+      await writeFile(
+        filePath,
+        JSON.stringify({ abc123: CURRICULUM_QUERY, def456: 42 })
+      );
+
+      const result = await loadPersistedQueryManifest(filePath);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.map((error) => error.field)).toEqual([
+          'abc123',
+          'def456',
+        ]);
+        expect(result.error[0]?.message).toContain('SHA-256');
+      }
+    });
+
+    it('should fail on unreadable files', async () => {
+      const result = await loadPersistedQueryManifest(join(dir, 'none.json'));
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Yoga plugins', () => {
+    const persistedQueryParams = (hash: string) =>
+      `extensions=${encodeURIComponent(
+        JSON.stringify({ persistedQuery: { version: 1, sha256Hash: hash } })
+      )}`;
+
+    const createServer = async (mode: PersistedQueriesMode) => {
+      const provider = new InMemoryDataProvider(await getTestDataStore());
+      const { yoga } = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin: '*',
+        persistedQueries: {
+          mode,
+          manifest: new Map([[hashQuery(CURRICULUM_QUERY), CURRICULUM_QUERY]]),
+          maxAgeSeconds: 60,
+        },
+      });
+
+      const get = (params: string): Promise<Response> =>
+        yoga.fetch(`http://localhost/graphql?${params}`, {
+          headers: { accept: 'application/json' },
+        });
+      const post = (body: unknown): Promise<Response> =>
+        yoga.fetch('http://localhost/graphql', {
+          method: 'POST',
+          headers: {
+            accept: 'application/json',
+            'content-type': 'application/json',
+          },
+          body: JSON.stringify(body),
+        });
+      return { get, post };
+    };
+
+    it('should serve manifest operations by hash with cache headers', async () => {
+      const { get } = await createServer('strict');
+
+      const response = await get(
+        persistedQueryParams(hashQuery(CURRICULUM_QUERY))
+      );
+      const body = (await response.json()) as {
+        data?: { curriculum: { superblocks: string[] } };
+      };
+
+      expect(response.status).toBe(200);
+      expect(body.data?.curriculum.superblocks.length).toBeGreaterThan(0);
+      expect(response.headers.get('cache-control')).toBe('public, max-age=60');
+    });
+
+    it('should reject ad-hoc operations in strict mode', async () => {
+      const { post } = await createServer('strict');
+
+      const response = await post({ query: AD_HOC_QUERY });
+      const body = (await response.json()) as {
+        errors?: { extensions?: { code?: string } }[];
+      };
+
+      expect(body.errors?.[0]?.extensions?.code).toBe('PERSISTED_QUERY_ONLY');
+    });
+
+    it('should reject unknown hashes in strict mode', async () => {
+      const { get } = await createServer('strict');
+
+      const response = await get(persistedQueryParams(hashQuery(AD_HOC_QUERY)));
+      const body = (await response.json()) as {
+        errors?: { extensions?: { code?: string } }[];
+      };
+
+      expect(body.errors?.[0]?.extensions?.code).toBe(
+        'PERSISTED_QUERY_NOT_IN_LIST'
+      );
+      expect(response.headers.get('cache-control')).toBeNull();
+    });
+
+    it('should negotiate unknown hashes in apq mode', async () => {
+      const { get, post } = await createServer('apq');
+      const hash = hashQuery(AD_HOC_QUERY);
+      const extensions = { persistedQuery: { version: 1, sha256Hash: hash } };
+
+      const miss = await get(persistedQueryParams(hash));
+      const missBody = (await miss.json()) as {
+        errors?: { extensions?: { code?: string } }[];
+      };
+      expect(missBody.errors?.[0]?.extensions?.code).toBe(
+        'PERSISTED_QUERY_NOT_FOUND'
+      );
+
+      const register = await post({ query: AD_HOC_QUERY, extensions });
+      expect(register.status).toBe(200);
+
+      const hit = await get(persistedQueryParams(hash));
+      const hitBody = (await hit.json()) as {
+        data?: { superblocks: { dashedName: string }[] };
+      };
+      expect(hitBody.data?.superblocks.length).toBeGreaterThan(0);
+      expect(hit.headers.get('cache-control')).toBe('public, max-age=60');
+    });
+
+    it('should still accept ad-hoc operations in apq mode', async () => {
+      const { post } = await createServer('apq');
+
+      const response = await post({ query: AD_HOC_QUERY });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('cache-control')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect } from 'vitest';
+import { buildSchema, parse, validate, type GraphQLError } from 'graphql';
+import { loadSchemaFile } from '../schema/load-schema.js';
+import { InMemoryDataProvider } from '../data/provider.js';
+import {
+  createQueryLimitRules,
+  estimateListSizes,
+  type QueryLimits,
+} from '../query-limits.js';
+import { createGraphQLServer } from '../server.js';
+import { getTestDataStore } from './setup.js';
+
+const schema = buildSchema(loadSchemaFile());
+
+const LIST_SIZES = new Map([
+  ['Query.superblocks', 30],
+  ['Query.challenges', 1000],
+  ['Query.challenges(filtered)', 40],
+  ['Superblock.blockObjects', 20],
+  ['Block.challengeOrder', 40],
+  ['Block.superblocks', 2],
+]);
+
+const LIMITS: QueryLimits = { maxDepth: 5, maxAliases: 2, maxCost: 1000 };
+
+const validateLimits = (source: string): readonly GraphQLError[] =>
+  validate(
+    schema,
+    parse(source),
+    createQueryLimitRules(LIMITS, () => LIST_SIZES)
+  );
+
+describe('Query Limits', () => {
+  describe('depth', () => {
+    it('should accept queries up to the maximum depth', () => {
+      expect(
+        validateLimits(
+          '{ block(dashedName: "x") { superblocks { chapters { modules { dashedName } } } } }'
+        )
+      ).toEqual([]);
+    });
+
+    it('should reject deeper queries with QUERY_TOO_DEEP', () => {
+      const errors = validateLimits(`{
+        superblocks {
+          blockObjects { superblocks { blockObjects { superblocks { name } } } }
+        }
+      }`);
+
+      expect(errors[0]?.extensions).toEqual({
+        code: 'QUERY_TOO_DEEP',
+        depth: 6,
+        maxDepth: 5,
+      });
+    });
+
+    it('should count depth through fragments', () => {
+      const errors = validateLimits(`
+        fragment Deep on Block {
+          superblocks { blockObjects { superblocks { name } } }
+        }
+        { superblocks { blockObjects { ...Deep } } }
+      `);
+
+      expect(errors[0]?.extensions?.code).toBe('QUERY_TOO_DEEP');
+    });
+
+    it('should ignore introspection fields', () => {
+      expect(
+        validateLimits(
+          '{ __schema { types { fields { type { ofType { ofType { name } } } } } } }'
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('aliases', () => {
+    it('should reject too many aliases with TOO_MANY_ALIASES', () => {
+      const errors = validateLimits(
+        '{ a: curriculum { superblocks } b: curriculum { superblocks } c: curriculum { superblocks } }'
+      );
+
+      expect(errors[0]?.extensions).toEqual({
+        code: 'TOO_MANY_ALIASES',
+        aliases: 3,
+        maxAliases: 2,
+      });
+    });
+  });
+
+  describe('cost', () => {
+    it('should multiply nested lists by their expected length', () => {
+      // 30 superblocks × (1 + 20 blocks × 1) = 630
+      expect(
+        validateLimits('{ superblocks { blockObjects { name } } }')
+      ).toEqual([]);
+
+      // 30 × (1 + 20 × (1 + 40 challenges)) = 24630
+      const errors = validateLimits(
+        '{ superblocks { blockObjects { challengeOrder { id } } } }'
+      );
+      expect(errors[0]?.extensions).toEqual({
+        code: 'QUERY_TOO_COMPLEX',
+        cost: 24630,
+        maxCost: 1000,
+      });
+    });
+
+    it('should use the filtered size for filtered root lists', () => {
+      // Unfiltered: 1000 × (1 + 1) = 2000
+      expect(
+        validateLimits('{ challenges { block { name } } }')[0]?.extensions?.code
+      ).toBe('QUERY_TOO_COMPLEX');
+
+      // Filtered: 40 × (1 + 1) = 80
+      expect(
+        validateLimits(
+          '{ challenges(blockDashedName: "x") { block { name } } }'
+        )
+      ).toEqual([]);
+
+      // A filter input alone does not narrow the estimate
+      expect(
+        validateLimits(
+          '{ challenges(filter: { titleContains: "x" }) { block { name } } }'
+        )[0]?.extensions?.code
+      ).toBe('QUERY_TOO_COMPLEX');
+    });
+
+    it('should cost connections by their page size', () => {
+      // 1 + 100 edges × (1 + 1 node × (1 + 1 block)) = 301
+      expect(
+        validateLimits(
+          '{ challengesConnection(first: 100) { edges { node { block { name } } } } }'
+        )
+      ).toEqual([]);
+
+      // 1 + 50 nodes × (1 + 1 block × (1 + 40 challenges)) = 2101
+      expect(
+        validateLimits(
+          '{ challengesConnection { nodes { block { challengeOrder { id } } } } }'
+        )[0]?.extensions?.code
+      ).toBe('QUERY_TOO_COMPLEX');
+    });
+
+    it('should not let an out-of-range first lower the cost', () => {
+      // 1000 × (1 + 1) + 100 results (MAX_PAGE_SIZE) = 2100
+      const errors = validateLimits(
+        '{ challenges { block { name } } x: search(query: "a", first: -100000000) { __typename } }'
+      );
+      expect(errors[0]?.extensions).toEqual({
+        code: 'QUERY_TOO_COMPLEX',
+        cost: 2100,
+        maxCost: 1000,
+      });
+
+      // 1 + 100 edges (MAX_PAGE_SIZE) × (1 + 1 node × (1 + 1 block)) = 301
+      expect(
+        validateLimits(
+          '{ challengesConnection(first: 100000) { edges { node { block { name } } } } }'
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('fragments', () => {
+    it('should measure each fragment once however often it is spread', () => {
+      // F0 costs 2 (Block.superblocks), every further fragment doubles it
+      const fragments = Array.from({ length: 30 }, (_, i) =>
+        i === 0
+          ? 'fragment F0 on Block { superblocks { name } }'
+          : `fragment F${i} on Block { ...F${i - 1} ...F${i - 1} }`
+      );
+      const errors = validateLimits(
+        `${fragments.join('\n')} { block(dashedName: "x") { ...F29 } }`
+      );
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.extensions).toEqual({
+        code: 'QUERY_TOO_COMPLEX',
+        cost: 1 + 2 ** 30,
+        maxCost: 1000,
+      });
+    });
+  });
+
+  describe('estimateListSizes()', () => {
+    it('should measure the loaded curriculum', async () => {
+      const store = await getTestDataStore();
+      const sizes = estimateListSizes(new InMemoryDataProvider(store));
+
+      expect(sizes.get('Query.superblocks')).toBe(
+        store.curriculum.superblocks.length
+      );
+      expect(sizes.get('Query.challenges')).toBeGreaterThan(0);
+      expect(sizes.get('Block.challengeOrder')).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('server', () => {
+    it('should return the limit error code to clients', async () => {
+      const store = await getTestDataStore();
+      const { yoga } = createGraphQLServer(new InMemoryDataProvider(store), {
+        port: 0,
+        corsOrigin: '*',
+        queryLimits: { maxDepth: 2, maxAliases: 10, maxCost: 100_000 },
+      });
+
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: '{ superblocks { blockObjects { name } } }',
+        }),
+      });
+      const body = (await response.json()) as {
+        data?: unknown;
+        errors?: { extensions?: { code?: string } }[];
+      };
+
+      expect(body.data).toBeUndefined();
+      expect(body.errors?.[0]?.extensions?.code).toBe('QUERY_TOO_DEEP');
+    });
+  });
+});
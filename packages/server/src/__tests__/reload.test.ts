@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { initializeDataStore } from '../data/index.js';
+import { InMemoryDataProvider } from '../data/provider.js';
+import { DataReloader, type ReloadResult } from '../data/reload.js';
+import { createGraphQLServer, type GraphQLServer } from '../server.js';
+import { createTempCurriculum, type TempCurriculum } from './setup.js';
+
+describe('Hot Reload', () => {
+  let curriculum: TempCurriculum;
+  let dataPath: string;
+  let provider: InMemoryDataProvider;
+
+  const writeBlock = (title: string, blockLayout = 'challenge-list') =>
+    curriculum.writeBlock('test-block', {
+      name: 'Test Block',
+      blockLayout,
+      challengeOrder: [{ id: 'c1', title }],
+    });
+
+  beforeEach(async () => {
+    curriculum = await createTempCurriculum('curriculum-reload-');
+    dataPath = curriculum.path;
+    await curriculum.writeJson('curriculum.json', {
+      superblocks: ['test-superblock'],
+      certifications: [],
+    });
+    await curriculum.writeJson('superblocks/test-superblock.json', {
+      blocks: ['test-block'],
+    });
+    await writeBlock('Original Title');
+
+    const result = await initializeDataStore(dataPath);
+    if (!result.success) throw new Error('Failed to load test data');
+    provider = new InMemoryDataProvider(result.data);
+  });
+
+  afterEach(async () => {
+    await curriculum.remove();
+  });
+
+  describe('DataReloader.reload()', () => {
+    it('should swap the new store into the provider', async () => {
+      const reloader = new DataReloader(provider, { dataPath });
+      await writeBlock('Updated Title');
+
+      const result = await reloader.reload();
+
+      expect(result.success).toBe(true);
+      expect(provider.getChallenge('c1')?.title).toBe('Updated Title');
+    });
+
+    it('should leave existing snapshots on the old store', async () => {
+      const reloader = new DataReloader(provider, { dataPath });
+      const snapshot = provider.snapshot();
+      await writeBlock('Updated Title');
+
+      await reloader.reload();
+
+      expect(snapshot.getChallenge('c1')?.title).toBe('Original Title');
+      expect(provider.snapshot().getChallenge('c1')?.title).toBe(
+        'Updated Title'
+      );
+    });
+
+    it('should keep serving the current store when validation fails', async () => {
+      const reloader = new DataReloader(provider, { dataPath });
+      await writeBlock('Updated Title', 'not-a-layout');
+
+      const result = await reloader.reload();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error[0]?.field).toBe('blockLayout');
+      }
+      expect(provider.getChallenge('c1')?.title).toBe('Original Title');
+    });
+
+    it('should coalesce reloads requested while one is running', async () => {
+      const results: ReloadResult[] = [];
+      const reloader = new DataReloader(provider, {
+        dataPath,
+        onReload: (result) => results.push(result),
+      });
+
+      await Promise.all([
+        reloader.reload(),
+        reloader.reload(),
+        reloader.reload(),
+      ]);
+
+      expect(results).toHaveLength(2);
+    });
+
+    it('should run the queued reload after the running one throws', async () => {
+      let calls = 0;
+      const reloader = new DataReloader(provider, {
+        dataPath,
+        onReload: () => {
+          calls++;
+          if (calls === 1) throw new Error('metrics unavailable');
+        },
+      });
+
+      const [failed, queued] = await Promise.allSettled([
+        reloader.reload(),
+        reloader.reload(),
+      ]);
+      await writeBlock('Later Title');
+      const [first, second] = await Promise.all([
+        reloader.reload(),
+        reloader.reload(),
+      ]);
+
+      expect(failed.status).toBe('rejected');
+      expect(queued.status).toBe('fulfilled');
+      expect(first.success && second.success).toBe(true);
+      expect(calls).toBe(4);
+      expect(provider.getChallenge('c1')?.title).toBe('Later Title');
+    });
+  });
+
+  describe('DataReloader.watch()', () => {
+    it('should reload after files under the data path change', async () => {
+      const reloaded = new Promise<ReloadResult>((resolve) => {
+        const reloader = new DataReloader(provider, {
+          dataPath,
+          debounceMs: 20,
+          onReload: (result) => {
+            reloader.close();
+            resolve(result);
+          },
+        });
+        reloader.watch();
+      });
+
+      await writeBlock('Watched Title');
+      const result = await reloaded;
+
+      expect(result.success).toBe(true);
+      expect(provider.getChallenge('c1')?.title).toBe('Watched Title');
+    });
+
+    it('should report errors thrown during a watch-triggered reload', async () => {
+      const reported = new Promise<unknown>((resolve) => {
+        const reloader = new DataReloader(provider, {
+          dataPath,
+          debounceMs: 20,
+          onReload: () => {
+            reloader.close();
+            throw new Error('metrics unavailable');
+          },
+          onReloadError: resolve,
+        });
+        reloader.watch();
+      });
+
+      await writeBlock('Watched Title');
+
+      expect(await reported).toEqual(new Error('metrics unavailable'));
+    });
+  });
+
+  describe('POST /admin/reload', () => {
+    let server: GraphQLServer;
+
+    beforeEach(async () => {
+      server = createGraphQLServer(provider, {
+        port: 4011,
+        corsOrigin: '*',
+        reloader: new DataReloader(provider, { dataPath }),
+        adminToken: 'secret-token',
+      });
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) => {
+        server.httpServer.close(() => resolve());
+      });
+    });
+
+    it('should reject requests without the admin token', async () => {
+      const response = await fetch('http://localhost:4011/admin/reload', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer wrong-token' },
+      });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reload and report counts with the admin token', async () => {
+      await writeBlock('Admin Title');
+
+      const response = await fetch('http://localhost:4011/admin/reload', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret-token' },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        status: 'reloaded',
+        superblocks: 1,
+        blocks: 1,
+        challenges: 1,
+        excludedBlocks: [],
+      });
+      expect(provider.getChallenge('c1')?.title).toBe('Admin Title');
+    });
+
+    it('should return every validation error when the reload fails', async () => {
+      await writeBlock('Admin Title', 'not-a-layout');
+
+      const response = await fetch('http://localhost:4011/admin/reload', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer secret-token' },
+      });
+
+      expect(response.status).toBe(422);
+      const body = await response.json();
+      expect(body.status).toBe('failed');
+      expect(body.errors[0].field).toBe('blockLayout');
+    });
+
+    it('should answer 500 when the reload throws', async () => {
+      const failingServer = createGraphQLServer(provider, {
+        port: 4013,
+        corsOrigin: '*',
+        reloader: new DataReloader(provider, {
+          dataPath,
+          onReload: () => {
+            throw new Error('metrics unavailable');
+          },
+        }),
+        adminToken: 'secret-token',
+      });
+      await failingServer.start();
+
+      try {
+        const response = await fetch('http://localhost:4013/admin/reload', {
+          method: 'POST',
+          headers: { Authorization: 'Bearer secret-token' },
+        });
+
+        expect(response.status).toBe(500);
+        expect(await response.json()).toEqual({ status: 'error' });
+      } finally {
+        await new Promise<void>((resolve) => {
+          failingServer.httpServer.close(() => resolve());
+        });
+      }
+    });
+  });
+});
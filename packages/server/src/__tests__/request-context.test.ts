@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryDataProvider } from '../data/provider.js';
+import { Loader } from '../loaders.js';
+import { chapterKey } from '../data/indexes.js';
+import { createGraphQLContext } from '../context.js';
+import { createGraphQLServer } from '../server.js';
+import { getTestDataStore } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+
+describe('Request Context', () => {
+  describe('Loader', () => {
+    it('should batch loads requested in the same tick', async () => {
+      const batches: (readonly number[])[] = [];
+      const loader = new Loader<number, number>((keys) => {
+        batches.push(keys);
+        return keys.map((key) => key * 2);
+      });
+
+      const values = await Promise.all([
+        loader.load(1),
+        loader.load(2),
+        loader.load(3),
+      ]);
+
+      expect(values).toEqual([2, 4, 6]);
+      expect(batches).toEqual([[1, 2, 3]]);
+    });
+
+    it('should memoize keys for the lifetime of the loader', async () => {
+      const batches: (readonly string[])[] = [];
+      const loader = new Loader<string, string>((keys) => {
+        batches.push(keys);
+        return keys.map((key) => key.toUpperCase());
+      });
+
+      await loader.loadMany(['a', 'b', 'a']);
+      expect(await loader.load('b')).toBe('B');
+
+      expect(batches).toEqual([['a', 'b']]);
+      expect(loader.stats).toEqual({ loads: 4, cacheHits: 2, batches: 1 });
+    });
+
+    it('should reject every key of a failed batch without caching it', async () => {
+      let calls = 0;
+      const loader = new Loader<string, string>((keys) => {
+        calls++;
+        if (calls === 1) throw new Error('boom');
+        return keys;
+      });
+
+      await expect(loader.load('a')).rejects.toThrow('boom');
+      expect(await loader.load('a')).toBe('a');
+    });
+
+    it('should reject batches returning the wrong number of values', async () => {
+      const loader = new Loader<string, string>(() => []);
+
+      await expect(loader.load('a')).rejects.toThrow('0 values for 1 keys');
+    });
+  });
+
+  describe('createGraphQLContext()', () => {
+    it('should look up chapters by superblock and chapter name', async () => {
+      const store = await getTestDataStore();
+      const superblock = [...store.superblocks.values()].find(
+        (sb) => sb.chapters.length > 0
+      );
+      const chapter = superblock?.chapters[0];
+      expect(chapter).toBeDefined();
+      if (!superblock || !chapter) return;
+
+      const context = createGraphQLContext(new InMemoryDataProvider(store));
+      const [found, missing] = await Promise.all([
+        context.loaders.chapter.load(
+          chapterKey(superblock.dashedName, chapter.dashedName)
+        ),
+        context.loaders.chapter.load(
+          chapterKey(superblock.dashedName, 'no-such-chapter')
+        ),
+      ]);
+
+      expect(found).toBe(chapter);
+      expect(missing).toBeNull();
+    });
+
+    it('should create fresh loaders for each request', async () => {
+      const provider = new InMemoryDataProvider(await getTestDataStore());
+
+      const first = createGraphQLContext(provider);
+      await first.loaders.block.load(KNOWN_TEST_DATA.validBlock);
+      const second = createGraphQLContext(provider);
+
+      expect(second.loaders.block.stats.loads).toBe(0);
+    });
+  });
+
+  describe('profiling', () => {
+    const query = `{
+      superblock(dashedName: "${KNOWN_TEST_DATA.validSuperblock}") {
+        blockObjects { challengeOrder { block { dashedName } } }
+      }
+    }`;
+
+    const execute = async (profiling: boolean) => {
+      const provider = new InMemoryDataProvider(await getTestDataStore());
+      const { yoga } = createGraphQLServer(provider, {
+        port: 0,
+        corsOrigin: '*',
+        profiling,
+      });
+
+      const response: Response = await yoga.fetch('http://localhost/graphql', {
+        method: 'POST',
+        headers: {
+          accept: 'application/json',
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({ query }),
+      });
+      return (await response.json()) as {
+        errors?: unknown;
+        extensions?: {
+          profile?: {
+            resolverCalls: Record<string, number>;
+            loaders: Record<string, { loads: number; cacheHits: number }>;
+          };
+        };
+      };
+    };
+
+    it('should report resolver calls and loader stats when enabled', async () => {
+      const body = await execute(true);
+      const profile = body.extensions?.profile;
+
+      expect(body.errors).toBeUndefined();
+      expect(profile?.resolverCalls['Query.superblock']).toBe(1);
+      expect(profile?.resolverCalls['Superblock.blockObjects']).toBe(1);
+
+      // Every Challenge.block call after the first per block is memoized
+      const blockCalls = profile?.resolverCalls['Challenge.block'] ?? 0;
+      const blockLoads = profile?.loaders['block'];
+      expect(blockCalls).toBeGreaterThan(0);
+      expect(blockLoads?.cacheHits).toBeGreaterThan(0);
+    });
+
+    it('should not add extensions when disabled', async () => {
+      const body = await execute(false);
+
+      expect(body.errors).toBeUndefined();
+      expect(body.extensions?.profile).toBeUndefined();
+    });
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { parse } from 'graphql';
 import type { GraphQLExecutor } from './setup.js';
-import { createTestExecutor } from './setup.js';
+import { createTestExecutor, getTestDataStore } from './setup.js';
 import { KNOWN_TEST_DATA } from './fixtures.js';
 import { expectValidGraphQLResponse } from './helpers.js';
 
@@ -90,6 +90,217 @@ describe('Resolver Field Coverage', () => {
     });
   });
 
+  describe('Challenge Resolvers', () => {
+    type NavigationResponse = {
+      challenge: {
+        order: number;
+        isFirst: boolean;
+        isLast: boolean;
+        previous: { id: string } | null;
+        next: { id: string } | null;
+        nextInSuperblock: { id: string } | null;
+      } | null;
+    };
+
+    const NAVIGATION = parse(`
+      query GetChallengeNavigation($id: ID!, $superblock: String) {
+        challenge(id: $id) {
+          order
+          isFirst
+          isLast
+          previous {
+            id
+          }
+          next {
+            id
+          }
+          nextInSuperblock(superblockDashedName: $superblock) {
+            id
+          }
+        }
+      }
+    `);
+
+    const navigate = async (id: string, superblock?: string) => {
+      const result = await executor.execute<NavigationResponse>({
+        document: NAVIGATION,
+        variables: { id, ...(superblock && { superblock }) },
+      });
+      expectValidGraphQLResponse(result);
+      return result.data.challenge;
+    };
+
+    it('should resolve previous, next and position within the block', async () => {
+      const store = await getTestDataStore();
+      const challenges =
+        store.blocks.get(KNOWN_TEST_DATA.validBlock)?.challenges ?? [];
+      const [first, second, third] = challenges;
+      if (!first || !second || !third) throw new Error('Block too short');
+
+      const firstNav = await navigate(first.id);
+      expect(firstNav).toMatchObject({
+        order: 0,
+        isFirst: true,
+        isLast: false,
+        previous: null,
+        next: { id: second.id },
+        nextInSuperblock: { id: second.id },
+      });
+
+      const secondNav = await navigate(second.id);
+      expect(secondNav).toMatchObject({
+        order: 1,
+        isFirst: false,
+        previous: { id: first.id },
+        next: { id: third.id },
+      });
+    });
+
+    it('should continue into the next block of the superblock', async () => {
+      const store = await getTestDataStore();
+      const superblock = store.superblocks.get(KNOWN_TEST_DATA.validSuperblock);
+      const blocks = (superblock?.blocks ?? [])
+        .map((name) => store.blocks.get(name))
+        .filter((block) => block !== undefined && block.challenges.length > 0);
+      const last = blocks[0]?.challenges.at(-1);
+      const nextFirst = blocks[1]?.challenges[0];
+      if (!last || !nextFirst) throw new Error('Superblock too short');
+
+      const nav = await navigate(last.id, KNOWN_TEST_DATA.validSuperblock);
+
+      expect(nav?.isLast).toBe(true);
+      expect(nav?.next).toBeNull();
+      expect(nav?.nextInSuperblock?.id).toBe(nextFirst.id);
+    });
+
+    it('should end at the last challenge of the superblock', async () => {
+      const store = await getTestDataStore();
+      const superblock = store.superblocks.get(KNOWN_TEST_DATA.validSuperblock);
+      const lastBlock = [...(superblock?.blocks ?? [])]
+        .reverse()
+        .map((name) => store.blocks.get(name))
+        .find((block) => block !== undefined && block.challenges.length > 0);
+      const last = lastBlock?.challenges.at(-1);
+      if (!last) throw new Error('Superblock has no challenges');
+
+      const nav = await navigate(last.id, KNOWN_TEST_DATA.validSuperblock);
+
+      expect(nav?.nextInSuperblock).toBeNull();
+    });
+  });
+
+  describe('Breadcrumb Resolvers', () => {
+    it('should resolve legacy placements with null chapter and module', async () => {
+      const result = await executor.execute<{
+        block: {
+          chapters: unknown[];
+          modules: unknown[];
+          challengeOrder: {
+            path: {
+              superblock: { dashedName: string };
+              chapter: unknown;
+              module: unknown;
+            }[];
+          }[];
+        } | null;
+      }>({
+        document: parse(`
+          query GetBlockPath($dashedName: String!) {
+            block(dashedName: $dashedName) {
+              chapters {
+                id
+              }
+              modules {
+                id
+              }
+              challengeOrder {
+                path {
+                  superblock {
+                    dashedName
+                  }
+                  chapter {
+                    id
+                  }
+                  module {
+                    id
+                  }
+                }
+              }
+            }
+          }
+        `),
+        variables: { dashedName: KNOWN_TEST_DATA.validBlock },
+      });
+
+      expectValidGraphQLResponse(result);
+
+      const block = result.data.block;
+      expect(block?.chapters).toEqual([]);
+      expect(block?.modules).toEqual([]);
+      expect(block?.challengeOrder[0]?.path).toContainEqual({
+        superblock: { dashedName: KNOWN_TEST_DATA.validSuperblock },
+        chapter: null,
+        module: null,
+      });
+    });
+  });
+
+  describe('Hierarchy Flags', () => {
+    it('should report structure and coming-soon state', async () => {
+      const result = await executor.execute<{
+        legacy: { structure: string; comingSoon: boolean } | null;
+        chaptered: { structure: string; comingSoon: boolean } | null;
+        legacyBlock: { isShared: boolean; comingSoon: boolean } | null;
+        upcomingBlock: { comingSoon: boolean } | null;
+        availableBlock: { comingSoon: boolean } | null;
+      }>({
+        document: parse(`
+          query GetFlags($legacy: String!, $legacyBlock: String!) {
+            legacy: superblock(dashedName: $legacy) {
+              structure
+              comingSoon
+            }
+            chaptered: superblock(dashedName: "full-stack-2") {
+              structure
+              comingSoon
+            }
+            legacyBlock: block(dashedName: $legacyBlock) {
+              isShared
+              comingSoon
+            }
+            upcomingBlock: block(dashedName: "full-stack-2-c2-m1-lecture") {
+              comingSoon
+            }
+            availableBlock: block(dashedName: "full-stack-2-c1-m1-lecture") {
+              comingSoon
+            }
+          }
+        `),
+        variables: {
+          legacy: KNOWN_TEST_DATA.validSuperblock,
+          legacyBlock: KNOWN_TEST_DATA.validBlock,
+        },
+      });
+
+      expectValidGraphQLResponse(result);
+      expect(result.data.legacy).toEqual({
+        structure: 'LEGACY',
+        comingSoon: false,
+      });
+      expect(result.data.chaptered).toEqual({
+        structure: 'CHAPTERED',
+        comingSoon: false,
+      });
+      expect(result.data.legacyBlock).toEqual({
+        isShared: false,
+        comingSoon: false,
+      });
+      // Chapter 2 of full-stack-2 is coming soon, chapter 1 is not
+      expect(result.data.upcomingBlock?.comingSoon).toBe(true);
+      expect(result.data.availableBlock?.comingSoon).toBe(false);
+    });
+  });
+
   describe('Certification Resolvers', () => {
     it('should resolve Certification.superblock field for loaded certifications', async () => {
       // Query superblocks to find a certification
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  validateSchema,
+  RAW_CURRICULUM_SCHEMA,
+  RAW_SUPERBLOCK_SCHEMA,
+  RAW_BLOCK_SCHEMA,
+  RAW_JSON_SCHEMAS,
+} from '../data/schemas.js';
+import { loadBlockFile } from '../data/loader.js';
+import type { DataValidationError } from '../data/types.js';
+import { createTempCurriculum, type TempCurriculum } from './setup.js';
+
+const VALID_BLOCK = {
+  name: 'Test Block',
+  dashedName: 'test-block',
+  helpCategory: 'HTML-CSS',
+  blockLayout: 'challenge-list',
+  isUpcomingChange: false,
+  challengeOrder: [{ id: 'c1', title: 'Challenge 1' }],
+};
+
+const fieldsOf = (errors: readonly DataValidationError[]) =>
+  errors.map((error) => error.field);
+
+describe('Raw JSON Schemas', () => {
+  describe('validateSchema()', () => {
+    it('should accept a valid block with unknown extra fields', () => {
+      const errors = validateSchema(
+        { ...VALID_BLOCK, superBlock: 'responsive-web-design' },
+        RAW_BLOCK_SCHEMA,
+        'block.json'
+      );
+
+      expect(errors).toEqual([]);
+    });
+
+    it('should report missing required block fields', () => {
+      const {
+        name: _name,
+        isUpcomingChange: _upcoming,
+        ...block
+      } = VALID_BLOCK;
+
+      const errors = validateSchema(block, RAW_BLOCK_SCHEMA, 'block.json');
+
+      expect(fieldsOf(errors)).toEqual(['name', 'isUpcomingChange']);
+      expect(errors[0]?.message).toBe('Missing required field "name"');
+      expect(errors[0]?.filePath).toBe('block.json');
+    });
+
+    it('should report wrongly typed fields with their path', () => {
+      const errors = validateSchema(
+        {
+          ...VALID_BLOCK,
+          isUpcomingChange: 'no',
+          challengeOrder: [
+            { id: 'c1', title: 'Challenge 1' },
+            { id: 'c2', title: 2 },
+          ],
+        },
+        RAW_BLOCK_SCHEMA,
+        'block.json'
+      );
+
+      expect(fieldsOf(errors)).toEqual([
+        'challengeOrder[1].title',
+        'isUpcomingChange',
+      ]);
+      expect(errors[0]?.message).toBe(
+        'challengeOrder[1].title must be of type string, got number'
+      );
+    });
+
+    it('should report invalid enum values', () => {
+      const errors = validateSchema(
+        { ...VALID_BLOCK, blockLabel: 'lesson' },
+        RAW_BLOCK_SCHEMA,
+        'block.json'
+      );
+
+      expect(fieldsOf(errors)).toEqual(['blockLabel']);
+      expect(errors[0]?.message).toContain('"lesson"');
+    });
+
+    it('should require src or link on required resources', () => {
+      const errors = validateSchema(
+        { ...VALID_BLOCK, required: [{ src: 'a.js' }, {}] },
+        RAW_BLOCK_SCHEMA,
+        'block.json'
+      );
+
+      expect(fieldsOf(errors)).toEqual(['required[1]']);
+      expect(errors[0]?.message).toBe('required[1] must have "src" or "link"');
+    });
+
+    it('should report nested chapter and module paths', () => {
+      const errors = validateSchema(
+        {
+          chapters: [
+            {
+              dashedName: 'html',
+              modules: [
+                { dashedName: 'basic-html', blocks: ['block-1'] },
+                { blocks: ['block-2', ''] },
+              ],
+            },
+          ],
+        },
+        RAW_SUPERBLOCK_SCHEMA,
+        'superblock.json'
+      );
+
+      expect(fieldsOf(errors)).toEqual([
+        'chapters[0].modules[1].dashedName',
+        'chapters[0].modules[1].blocks[1]',
+      ]);
+    });
+
+    it('should reject a root value of the wrong type', () => {
+      const errors = validateSchema([], RAW_CURRICULUM_SCHEMA, 'c.json');
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]?.field).toBeUndefined();
+      expect(errors[0]?.message).toBe('File must be of type object, got array');
+    });
+  });
+
+  describe('JSON Schema export', () => {
+    it('should export one draft 2020-12 schema per file type', () => {
+      expect(Object.keys(RAW_JSON_SCHEMAS)).toEqual([
+        'curriculum.schema.json',
+        'superblock.schema.json',
+        'block.schema.json',
+      ]);
+      for (const schema of Object.values(RAW_JSON_SCHEMAS)) {
+        expect(schema.$schema).toBe(
+          'https://json-schema.org/draft/2020-12/schema'
+        );
+        expect(JSON.parse(JSON.stringify(schema))).toEqual(schema);
+      }
+    });
+  });
+
+  describe('loadBlockFile()', () => {
+    let curriculum: TempCurriculum;
+
+    beforeAll(async () => {
+      curriculum = await createTempCurriculum('curriculum-schema-');
+      await curriculum.writeJson('blocks/broken-block.json', {
+        ...VALID_BLOCK,
+        helpCategory: undefined,
+        name: 1,
+      });
+    });
+
+    afterAll(async () => {
+      await curriculum.remove();
+    });
+
+    it('should reject structurally invalid block files', async () => {
+      const result = await loadBlockFile('broken-block', curriculum.path);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(fieldsOf(result.error)).toEqual(['helpCategory', 'name']);
+        expect(result.error[0]?.filePath).toContain('broken-block.json');
+      }
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { parse } from 'graphql';
+import {
+  initializeDataStore,
+  InMemoryDataProvider,
+  tokenize,
+} from '../data/index.js';
+import { SearchResultType, type DataStore } from '../data/types.js';
+import {
+  createTempCurriculum,
+  createTestExecutor,
+  type TempCurriculum,
+} from './setup.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+import type { Query } from '../schema/types.generated.js';
+
+type SearchQueryResponse = {
+  search: Query['search'];
+};
+
+const SEARCH = parse(`
+  query Search($query: String!, $types: [SearchResultType!], $first: Int) {
+    search(query: $query, types: $types, first: $first) {
+      type
+      score
+      superblock {
+        dashedName
+      }
+      chapter {
+        dashedName
+      }
+      module {
+        dashedName
+      }
+      block {
+        dashedName
+      }
+      challenge {
+        id
+        title
+      }
+    }
+  }
+`);
+
+describe('Full-text Search', () => {
+  let curriculum: TempCurriculum;
+  let store: DataStore;
+
+  const writeBlock = (
+    dashedName: string,
+    name: string,
+    challengeOrder: { id: string; title: string }[]
+  ) => curriculum.writeBlock(dashedName, { name, challengeOrder });
+
+  beforeAll(async () => {
+    curriculum = await createTempCurriculum('curriculum-search-');
+
+    await curriculum.writeJson('curriculum.json', {
+      superblocks: ['responsive-web-design', 'full-stack-developer'],
+      certifications: [],
+    });
+    await curriculum.writeJson('superblocks/responsive-web-design.json', {
+      blocks: ['basic-css', 'css-flexbox'],
+    });
+    await curriculum.writeJson('superblocks/full-stack-developer.json', {
+      chapters: [
+        {
+          dashedName: 'css',
+          modules: [
+            {
+              dashedName: 'css-layout',
+              blocks: ['css-flexbox', 'lab-photo-gallery'],
+            },
+          ],
+        },
+      ],
+    });
+    await writeBlock('basic-css', 'Basic CSS', [
+      { id: 'c1', title: 'Change the Color of Text' },
+      { id: 'c2', title: 'Use CSS Selectors to Style Elements' },
+    ]);
+    await writeBlock('css-flexbox', 'CSS Flexbox', [
+      { id: 'c3', title: 'Use display: flex to Position Two Boxes' },
+      { id: 'c4', title: 'Align Elements Using the justify-content Property' },
+    ]);
+    await writeBlock('lab-photo-gallery', 'Build a Photo Gallery', [
+      { id: 'c5', title: 'Build a Photo Gallery' },
+    ]);
+
+    const result = await initializeDataStore(curriculum.path);
+    if (!result.success) throw new Error('Failed to load search fixture');
+    store = result.data;
+  });
+
+  afterAll(async () => {
+    await curriculum.remove();
+  });
+
+  describe('tokenize()', () => {
+    it('should split on punctuation and lowercase terms', () => {
+      expect(tokenize('Use display: flex to Position Two Boxes')).toEqual([
+        'use',
+        'display',
+        'flex',
+        'to',
+        'position',
+        'two',
+        'boxes',
+      ]);
+      expect(tokenize('  --  ')).toEqual([]);
+    });
+  });
+
+  describe('SearchIndex.search()', () => {
+    it('should rank entries matching more query terms first', () => {
+      const hits = store.searchIndex.search('css flexbox', {
+        types: [SearchResultType.CHALLENGE],
+      });
+
+      expect(hits.map((hit) => hit.challengeId)).toEqual([
+        'c3',
+        'c4',
+        'c2',
+        'c1',
+      ]);
+      expect(hits[0]?.score).toBeGreaterThan(hits[2]?.score ?? Infinity);
+    });
+
+    it('should match term prefixes below whole terms', () => {
+      const hits = store.searchIndex.search('flex');
+
+      expect(hits[0]).toMatchObject({
+        type: SearchResultType.CHALLENGE,
+        challengeId: 'c3',
+      });
+      expect(hits.map((hit) => hit.blockDashedName)).toContain('css-flexbox');
+    });
+
+    it('should include superblock, chapter and module breadcrumbs', () => {
+      const [hit] = store.searchIndex.search('photo gallery', {
+        types: [SearchResultType.BLOCK],
+      });
+
+      expect(hit).toEqual({
+        type: SearchResultType.BLOCK,
+        score: 6,
+        superblockDashedName: 'full-stack-developer',
+        chapterDashedName: 'css',
+        moduleDashedName: 'css-layout',
+        blockDashedName: 'lab-photo-gallery',
+        challengeId: null,
+      });
+    });
+
+    it('should place shared blocks in their first superblock', () => {
+      const hits = store.searchIndex.search('flexbox', {
+        types: [SearchResultType.BLOCK],
+      });
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]?.superblockDashedName).toBe('responsive-web-design');
+      expect(hits[0]?.chapterDashedName).toBeNull();
+    });
+
+    it('should respect the limit and ignore empty queries', () => {
+      expect(store.searchIndex.search('css', { limit: 2 })).toHaveLength(2);
+      expect(store.searchIndex.search(' :: ')).toEqual([]);
+      expect(store.searchIndex.search('nonexistentterm')).toEqual([]);
+    });
+  });
+
+  describe('Query: search', () => {
+    it('should resolve breadcrumb objects for each hit', async () => {
+      const executor = await createTestExecutor(
+        new InMemoryDataProvider(store)
+      );
+      const result = await executor.execute<SearchQueryResponse>({
+        document: SEARCH,
+        variables: { query: 'gallery', types: ['CHALLENGE'] },
+      });
+
+      expectValidGraphQLResponse(result);
+
+      expect(result.data.search).toEqual([
+        {
+          type: 'CHALLENGE',
+          score: 3,
+          superblock: { dashedName: 'full-stack-developer' },
+          chapter: { dashedName: 'css' },
+          module: { dashedName: 'css-layout' },
+          block: { dashedName: 'lab-photo-gallery' },
+          challenge: { id: 'c5', title: 'Build a Photo Gallery' },
+        },
+      ]);
+    });
+
+    it('should reject first above the maximum', async () => {
+      const executor = await createTestExecutor(
+        new InMemoryDataProvider(store)
+      );
+      const result = await executor.execute<SearchQueryResponse>({
+        document: SEARCH,
+        variables: { query: 'css', first: 101 },
+      });
+
+      expect(result.errors?.[0]?.extensions?.code).toBe('BAD_USER_INPUT');
+    });
+  });
+});
@@ -1,9 +1,11 @@
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { AddressInfo } from 'node:net';
 import type { GraphQLServer } from '../server.js';
 import { createGraphQLServer } from '../server.js';
 import { getTestDataStore } from './setup.js';
 import { InMemoryDataProvider } from '../data/provider.js';
-import { setReady } from '../readiness.js';
+import type { ChallengeContent } from '../data/types.js';
+import { isReady, setReady } from '../readiness.js';
 
 describe('Server Creation and Configuration', () => {
   let server: GraphQLServer;
@@ -185,6 +187,33 @@ describe('Server Creation and Configuration', () => {
       expect(data.errors).toBeDefined();
       expect(data.errors.length).toBeGreaterThan(0);
     });
+
+    it('should turn off GraphiQL and introspection when configured', async () => {
+      const { yoga } = createGraphQLServer(dataProvider, {
+        port: 0,
+        corsOrigin: '*',
+        graphiql: false,
+        introspection: false,
+      });
+
+      const page: Response = await yoga.fetch('http://localhost/graphql', {
+        headers: { Accept: 'text/html' },
+      });
+      const introspection: Response = await yoga.fetch(
+        'http://localhost/graphql',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            query: '{ __schema { queryType { name } } }',
+          }),
+        }
+      );
+
+      expect(await page.text()).not.toContain('GraphiQL');
+      const data = await introspection.json();
+      expect(data.errors[0].extensions.code).toBe('GRAPHQL_VALIDATION_FAILED');
+    });
   });
 
   describe('Health Check Endpoints', () => {
@@ -326,4 +355,131 @@ describe('Server Creation and Configuration', () => {
       expect(html).toContain('width=device-width');
     });
   });
+
+  describe('Graceful Shutdown', () => {
+    it('should flip readiness, serve through the grace period and close', async () => {
+      const stoppingServer = createGraphQLServer(dataProvider, {
+        port: 4011,
+        corsOrigin: '*',
+        shutdown: { gracePeriodMs: 200, drainTimeoutMs: 1000 },
+      });
+      await stoppingServer.start();
+      setReady(true);
+
+      const stopped = stoppingServer.stop();
+      expect(isReady()).toBe(false);
+      expect(stoppingServer.stop()).toBe(stopped);
+
+      // Still served during the grace period, without keep-alive
+      const ready = await fetch('http://localhost:4011/ready');
+      expect(ready.status).toBe(503);
+      expect(ready.headers.get('connection')).toBe('close');
+
+      await stopped;
+      expect(stoppingServer.httpServer.listening).toBe(false);
+      await expect(fetch('http://localhost:4011/health')).rejects.toThrow();
+    });
+
+    /**
+     * Start a server and a request whose content load waits until
+     * release() is called, to hold the request open across stop()
+     */
+    const startSlowRequest = async (shutdown: {
+      gracePeriodMs: number;
+      drainTimeoutMs: number;
+    }) => {
+      let loadStarted: () => void = () => undefined;
+      const started = new Promise<void>((resolve) => {
+        loadStarted = resolve;
+      });
+      let release: () => void = () => undefined;
+      const released = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+
+      class SlowContentProvider extends InMemoryDataProvider {
+        override async getChallengeContent(): Promise<ChallengeContent | null> {
+          loadStarted();
+          await released;
+          return null;
+        }
+
+        override snapshot(): InMemoryDataProvider {
+          return this;
+        }
+      }
+
+      const store = await getTestDataStore();
+      const slowServer = createGraphQLServer(new SlowContentProvider(store), {
+        port: 0,
+        corsOrigin: '*',
+        shutdown,
+      });
+      await slowServer.start();
+
+      const { port } = slowServer.httpServer.address() as AddressInfo;
+      const [id] = store.challenges.keys();
+      const response = fetch(`http://localhost:${port}/graphql`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query:
+            'query ($id: ID!) { challenge(id: $id) { content { description } } }',
+          variables: { id },
+        }),
+      });
+      await started;
+      return { slowServer, release, response };
+    };
+
+    it('should let in-flight requests finish before stop() resolves', async () => {
+      const { slowServer, release, response } = await startSlowRequest({
+        gracePeriodMs: 50,
+        drainTimeoutMs: 5000,
+      });
+
+      let stopped = false;
+      const stopping = slowServer.stop().then(() => {
+        stopped = true;
+      });
+
+      // Past the grace period, stop() is still waiting for the request
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(stopped).toBe(false);
+      expect(slowServer.httpServer.listening).toBe(false);
+
+      release();
+      const completed = await response;
+      expect(completed.status).toBe(200);
+      expect(await completed.json()).toEqual({
+        data: { challenge: { content: null } },
+      });
+
+      await stopping;
+    });
+
+    it('should cut off requests that outlast the drain timeout', async () => {
+      const { slowServer, release, response } = await startSlowRequest({
+        gracePeriodMs: 0,
+        drainTimeoutMs: 100,
+      });
+
+      try {
+        await slowServer.stop();
+        await expect(response).rejects.toThrow();
+      } finally {
+        release();
+      }
+    });
+
+    it('should resolve for a server that was never started', async () => {
+      const idleServer = createGraphQLServer(dataProvider, {
+        port: 4012,
+        corsOrigin: '*',
+        shutdown: { gracePeriodMs: 0, drainTimeoutMs: 0 },
+      });
+
+      await expect(idleServer.stop()).resolves.toBeUndefined();
+    });
+  });
 });
@@ -1,10 +1,18 @@
 import { buildHTTPExecutor } from '@graphql-tools/executor-http';
 import { createYoga, createSchema } from 'graphql-yoga';
 import type { ExecutionResult, DocumentNode } from 'graphql';
+import { mkdtemp, mkdir, writeFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { loadSchemaFile } from '../schema/load-schema.js';
 import { resolvers } from '../schema/resolvers/index.js';
-import { initializeDataStore, InMemoryDataProvider } from '../data/index.js';
+import {
+  initializeDataStore,
+  formatValidationErrors,
+  InMemoryDataProvider,
+} from '../data/index.js';
 import type { DataStore, DataProvider } from '../data/types.js';
+import { createGraphQLContext } from '../context.js';
 import { setStartTime } from '../uptime.js';
 
 let cachedDataStore: DataStore | null = null;
@@ -34,7 +42,7 @@ async function getCachedDataStore(): Promise<DataStore> {
     const result = await initializeDataStore('../../data/structure');
     if (!result.success) {
       throw new Error(
-        `Failed to initialize DataStore: ${result.error.message}`
+        `Failed to initialize DataStore: ${formatValidationErrors(result.error)}`
       );
     }
     cachedDataStore = result.data;
@@ -60,10 +68,13 @@ async function getCachedDataProvider(): Promise<DataProvider> {
 /**
  * Create a GraphQL executor for testing queries
  * Uses in-memory fetch() simulation (no actual network requests)
+ * @param provider Optional DataProvider override (defaults to cached provider)
  * @returns GraphQLExecutor instance
  */
-export async function createTestExecutor(): Promise<GraphQLExecutor> {
-  const dataProvider = await getCachedDataProvider();
+export async function createTestExecutor(
+  provider?: DataProvider
+): Promise<GraphQLExecutor> {
+  const dataProvider = provider ?? (await getCachedDataProvider());
 
   const typeDefs = loadSchemaFile();
   const schema = createSchema({
@@ -71,20 +82,9 @@ export async function createTestExecutor(): Promise<GraphQLExecutor> {
     resolvers,
   });
 
-  // Create context factory that matches production server
-  const contextFactory = () => {
-    return {
-      getCurriculum: () => dataProvider.getCurriculum(),
-      getSuperblock: (dashedName: string) =>
-        dataProvider.getSuperblock(dashedName),
-      getBlock: (dashedName: string) => dataProvider.getBlock(dashedName),
-      getChallenge: (id: string) => dataProvider.getChallenge(id),
-    };
-  };
-
   const yoga = createYoga({
     schema,
-    context: contextFactory,
+    context: () => createGraphQLContext(dataProvider),
   });
 
   const executor = buildHTTPExecutor({
@@ -118,3 +118,52 @@ export async function createTestExecutor(): Promise<GraphQLExecutor> {
 export async function getTestDataStore(): Promise<DataStore> {
   return getCachedDataStore();
 }
+
+/**
+ * Temporary curriculum data directory for loader tests
+ * Same layout as DATA_PATH: curriculum.json, superblocks/ and blocks/
+ */
+export interface TempCurriculum {
+  readonly path: string;
+  /** Write a JSON file, path relative to the data directory */
+  writeJson(file: string, data: unknown): Promise<void>;
+  /** Write blocks/<dashedName>.json, a valid block unless fields override it */
+  writeBlock(
+    dashedName: string,
+    fields?: Record<string, unknown>
+  ): Promise<void>;
+  /** Delete the directory and everything written to it */
+  remove(): Promise<void>;
+}
+
+/**
+ * Create an empty temporary curriculum data directory
+ * @param prefix Directory name prefix under the OS temp directory
+ * @returns Helpers writing into the new directory
+ */
+export async function createTempCurriculum(
+  prefix: string
+): Promise<TempCurriculum> {
+  const path = await mkdtemp(join(tmpdir(), prefix));
+  await mkdir(join(path, 'superblocks'));
+  await mkdir(join(path, 'blocks'));
+
+  const writeJson = (file: string, data: unknown) =>
+    writeFile(join(path, file), JSON.stringify(data));
+
+  return {
+    path,
+    writeJson,
+    writeBlock: (dashedName, fields = {}) =>
+      writeJson(`blocks/${dashedName}.json`, {
+        name: dashedName,
+        dashedName,
+        helpCategory: 'HTML-CSS',
+        blockLayout: 'challenge-list',
+        isUpcomingChange: false,
+        challengeOrder: [],
+        ...fields,
+      }),
+    remove: () => rm(path, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { parse } from 'graphql';
+import type { GraphQLExecutor } from './setup.js';
+import { createTestExecutor, getTestDataStore } from './setup.js';
+import { KNOWN_TEST_DATA } from './fixtures.js';
+import { expectValidGraphQLResponse } from './helpers.js';
+import { BlockLayout, type DataStore } from '../data/types.js';
+import type { Query } from '../schema/types.generated.js';
+
+let store: DataStore;
+let executor: GraphQLExecutor;
+
+beforeAll(async () => {
+  store = await getTestDataStore();
+  executor = await createTestExecutor();
+});
+
+describe('Curriculum Statistics', () => {
+  it('should count unique blocks and challenges', () => {
+    const { stats, indexes } = store;
+
+    expect(stats.superblockCount).toBe(store.superblocks.size);
+    expect(stats.chapterCount).toBe(indexes.chapterList.length);
+    expect(stats.moduleCount).toBe(indexes.moduleList.length);
+    expect(stats.blockCount).toBe(store.blocks.size);
+    expect(stats.challengeCount).toBe(store.challenges.size);
+  });
+
+  it('should break every block down by label and layout', () => {
+    const { stats } = store;
+    const total = (counts: readonly { count: number }[]) =>
+      counts.reduce((sum, entry) => sum + entry.count, 0);
+
+    expect(total(stats.blocksByLabel)).toBe(stats.blockCount);
+    expect(total(stats.blocksByLayout)).toBe(stats.blockCount);
+    expect(stats.blocksByLayout.map((entry) => entry.layout)).toEqual(
+      Object.values(BlockLayout)
+    );
+    expect(stats.blocksByLabel.at(-1)?.label).toBeNull();
+  });
+
+  it('should roll module counts up into chapters and superblocks', () => {
+    for (const superblock of store.stats.superblocks) {
+      expect(superblock.moduleCount).toBe(
+        superblock.chapters.reduce((sum, ch) => sum + ch.modules.length, 0)
+      );
+      for (const chapter of superblock.chapters) {
+        const moduleBlocks = chapter.modules.reduce(
+          (sum, mod) => sum + mod.blockCount,
+          0
+        );
+        // Blocks shared by two modules of a chapter count once per chapter
+        expect(chapter.blockCount).toBeLessThanOrEqual(moduleBlocks);
+        expect(chapter.blockCount).toBeLessThanOrEqual(superblock.blockCount);
+      }
+    }
+  });
+
+  it('should count legacy superblocks without chapters', () => {
+    const legacy = store.stats.superblocks.find(
+      (sb) => sb.dashedName === KNOWN_TEST_DATA.validSuperblock
+    );
+
+    expect(legacy?.chapters).toEqual([]);
+    expect(legacy?.blockCount).toBe(
+      store.superblocks.get(KNOWN_TEST_DATA.validSuperblock)?.blocks.length
+    );
+  });
+
+  it('should count upcoming changes and coming-soon entries', () => {
+    const { stats, indexes } = store;
+    const upcoming = indexes.blockList.filter((b) => b.isUpcomingChange);
+
+    expect(stats.upcomingChangeBlockCount).toBe(upcoming.length);
+    expect(stats.upcomingChangeChallengeCount).toBe(
+      new Set(upcoming.flatMap((b) => b.challenges.map((c) => c.id))).size
+    );
+    expect(stats.comingSoonModuleCount).toBe(
+      indexes.moduleList.filter((mod) => mod.comingSoon).length
+    );
+  });
+
+  describe('Query: stats', () => {
+    it('should serve the precomputed counts', async () => {
+      const result = await executor.execute<{
+        stats: Query['stats'];
+        _health: Query['_health'];
+      }>({
+        document: parse(`
+          {
+            stats {
+              blockCount
+              challengeCount
+              blocksByLabel { label count }
+              superblocks {
+                dashedName
+                chapters {
+                  dashedName
+                  modules { dashedName blockCount challengeCount }
+                }
+              }
+            }
+            _health {
+              dataStore { blockCount challengeCount }
+            }
+          }
+        `),
+      });
+
+      expectValidGraphQLResponse(result);
+      const { stats, _health } = result.data;
+      expect(stats.blockCount).toBe(store.stats.blockCount);
+      expect(stats.superblocks).toHaveLength(store.stats.superblockCount);
+      expect(stats.blocksByLabel.at(-1)).toEqual({
+        label: null,
+        count: store.stats.blocksByLabel.at(-1)?.count,
+      });
+      expect(_health.dataStore.blockCount).toBe(stats.blockCount);
+      expect(_health.dataStore.challengeCount).toBe(stats.challengeCount);
+    });
+  });
+});
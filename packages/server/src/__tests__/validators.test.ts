@@ -4,12 +4,16 @@ import {
   validateSuperblockReferences,
   validateBlockEnums,
   validateChallengeStructure,
+  collectChallengeBlocks,
+  validateChallengeUniqueness,
+  formatValidationErrors,
 } from '../data/validators.js';
-import type {
-  RawSuperblock,
-  RawBlock,
-  RawChallenge,
-  RawBlockLabel,
+import {
+  type RawSuperblock,
+  type RawBlock,
+  type RawChallenge,
+  type RawBlockLabel,
+  DataValidationError,
 } from '../data/types.js';
 
 describe('Data Validators', () => {
@@ -88,10 +92,10 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('missing-block');
-        expect(result.error.message).toContain('test-superblock');
-        expect(result.error.filePath).toContain('test-superblock.json');
-        expect(result.error.field).toBe('blocks');
+        expect(result.error[0]?.message).toContain('missing-block');
+        expect(result.error[0]?.message).toContain('test-superblock');
+        expect(result.error[0]?.filePath).toContain('test-superblock.json');
+        expect(result.error[0]?.field).toBe('blocks');
       }
     });
 
@@ -140,8 +144,8 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('missing-block');
-        expect(result.error.message).toContain('superblock-2');
+        expect(result.error[0]?.message).toContain('missing-block');
+        expect(result.error[0]?.message).toContain('superblock-2');
       }
     });
   });
@@ -185,10 +189,10 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('invalid-layout');
-        expect(result.error.message).toContain('blockLayout');
-        expect(result.error.filePath).toBe('test-block.json');
-        expect(result.error.field).toBe('blockLayout');
+        expect(result.error[0]?.message).toContain('invalid-layout');
+        expect(result.error[0]?.message).toContain('blockLayout');
+        expect(result.error[0]?.filePath).toBe('test-block.json');
+        expect(result.error[0]?.field).toBe('blockLayout');
       }
     });
 
@@ -249,10 +253,10 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('invalid-type');
-        expect(result.error.message).toContain('blockLabel');
-        expect(result.error.filePath).toBe('test-block.json');
-        expect(result.error.field).toBe('blockLabel');
+        expect(result.error[0]?.message).toContain('invalid-type');
+        expect(result.error[0]?.message).toContain('blockLabel');
+        expect(result.error[0]?.filePath).toBe('test-block.json');
+        expect(result.error[0]?.field).toBe('blockLabel');
       }
     });
   });
@@ -276,9 +280,9 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('must not be empty');
-        expect(result.error.filePath).toBe('test-block.json');
-        expect(result.error.field).toBe('challengeOrder');
+        expect(result.error[0]?.message).toContain('must not be empty');
+        expect(result.error[0]?.filePath).toBe('test-block.json');
+        expect(result.error[0]?.field).toBe('challengeOrder');
       }
     });
 
@@ -292,9 +296,9 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('index 1');
-        expect(result.error.message).toContain('id');
-        expect(result.error.field).toContain('challengeOrder[1].id');
+        expect(result.error[0]?.message).toContain('index 1');
+        expect(result.error[0]?.message).toContain('id');
+        expect(result.error[0]?.field).toContain('challengeOrder[1].id');
       }
     });
 
@@ -307,7 +311,7 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('id');
+        expect(result.error[0]?.message).toContain('id');
       }
     });
 
@@ -321,9 +325,9 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('index 1');
-        expect(result.error.message).toContain('title');
-        expect(result.error.field).toContain('challengeOrder[1].title');
+        expect(result.error[0]?.message).toContain('index 1');
+        expect(result.error[0]?.message).toContain('title');
+        expect(result.error[0]?.field).toContain('challengeOrder[1].title');
       }
     });
 
@@ -336,7 +340,7 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('title');
+        expect(result.error[0]?.message).toContain('title');
       }
     });
 
@@ -350,7 +354,7 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('index 1');
+        expect(result.error[0]?.message).toContain('index 1');
       }
     });
 
@@ -363,9 +367,128 @@ describe('Data Validators', () => {
       expect(result.success).toBe(false);
 
       if (!result.success) {
-        expect(result.error.message).toContain('index 0');
-        expect(result.error.field).toContain('challengeOrder[0].id');
+        expect(result.error[0]?.message).toContain('index 0');
+        expect(result.error[0]?.field).toContain('challengeOrder[0].id');
       }
     });
+
+    it('should report every invalid challenge, not just the first', () => {
+      const challenges = [
+        { title: 'Challenge 1' },
+        { id: 'c2', title: 'Challenge 2' },
+        { id: 'c3' },
+      ] as unknown as readonly RawChallenge[];
+
+      const result = validateChallengeStructure(challenges, 'test-block.json');
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error.map((error) => error.field)).toEqual([
+          'challengeOrder[0].id',
+          'challengeOrder[2].title',
+        ]);
+      }
+    });
+  });
+
+  describe('validateChallengeUniqueness()', () => {
+    const block = (dashedName: string, ids: string[]): RawBlock => ({
+      name: dashedName,
+      dashedName,
+      helpCategory: 'test',
+      challengeOrder: ids.map((id) => ({ id, title: `Challenge ${id}` })),
+      blockLayout: 'challenge-list',
+      isUpcomingChange: false,
+    });
+
+    const blocks = new Map<string, RawBlock>([
+      ['block-1', block('block-1', ['c1', 'c2'])],
+      ['block-2', block('block-2', ['c2', 'c3'])],
+    ]);
+
+    it('should map each challenge id to the blocks listing it', () => {
+      const challengeBlocks = collectChallengeBlocks(blocks);
+
+      expect(challengeBlocks.get('c1')).toEqual(['block-1']);
+      expect(challengeBlocks.get('c2')).toEqual(['block-1', 'block-2']);
+    });
+
+    it('should report both file paths for a duplicated id', () => {
+      const result = validateChallengeUniqueness(
+        collectChallengeBlocks(blocks),
+        (name) => `blocks/${name}.json`
+      );
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error).toHaveLength(1);
+        expect(result.error[0]?.message).toContain('"c2"');
+        expect(result.error[0]?.message).toContain('blocks/block-1.json');
+        expect(result.error[0]?.filePath).toBe('blocks/block-2.json');
+      }
+    });
+
+    it('should allow ids listed as intentionally shared', () => {
+      const result = validateChallengeUniqueness(
+        collectChallengeBlocks(blocks),
+        (name) => `blocks/${name}.json`,
+        new Set(['c2'])
+      );
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('error aggregation', () => {
+    it('should report every invalid field of a block', () => {
+      const block = {
+        dashedName: 'test-block',
+        challengeOrder: [{ id: 'c1', title: 'Challenge 1' }],
+        blockLayout: 'invalid-layout',
+        blockLabel: 'invalid-label',
+        template: 42,
+      } as unknown as RawBlock;
+
+      const result = validateBlockEnums(block, 'test-block.json');
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error.map((error) => error.field)).toEqual([
+          'blockLayout',
+          'blockLabel',
+          'template',
+        ]);
+      }
+    });
+
+    it('should report every missing block across superblocks', () => {
+      const superblocks = new Map<string, RawSuperblock>([
+        ['superblock-1', { blocks: ['missing-1'] }],
+        ['superblock-2', { blocks: ['missing-2'] }],
+      ]);
+
+      const result = validateSuperblockReferences(superblocks, new Map());
+      expect(result.success).toBe(false);
+
+      if (!result.success) {
+        expect(result.error).toHaveLength(2);
+        expect(result.error[1]?.filePath).toContain('superblock-2.json');
+      }
+    });
+
+    it('should format a report with file path and field per error', () => {
+      const report = formatValidationErrors([
+        new DataValidationError('Bad layout', 'blocks/a.json', 'blockLayout'),
+        new DataValidationError('Unreadable', 'blocks/b.json'),
+      ]);
+
+      expect(report).toBe(
+        [
+          '2 validation errors:',
+          '  - blocks/a.json (blockLayout): Bad layout',
+          '  - blocks/b.json: Unreadable',
+        ].join('\n')
+      );
+    });
   });
 });
@@ -0,0 +1,508 @@
+import { existsSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import type { Result, ValidationMode } from './data/types.js';
+import { ANY_ORIGIN, validateCorsOrigins } from './cors.js';
+import {
+  LOG_FORMATS,
+  LOG_LEVELS,
+  type LogFormat,
+  type LogLevel,
+} from './logger.js';
+import {
+  PERSISTED_QUERIES_MODES,
+  type PersistedQueriesMode,
+} from './persisted-queries.js';
+import { DEFAULT_QUERY_LIMITS, type QueryLimits } from './query-limits.js';
+import { DEFAULT_SHUTDOWN_CONFIG, type ShutdownConfig } from './shutdown.js';
+
+/**
+ * Server configuration
+ * Every setting has a default, can be set in a JSON config file (CONFIG_FILE,
+ * same shape as AppConfig, any subset of keys) and can be overridden by an
+ * environment variable. Relative paths are resolved against the working
+ * directory for env vars and against the file's directory for the file.
+ */
+
+export interface AppConfig {
+  readonly port: number;
+  /** Allowed CORS origins, patterns or * (see cors.ts) */
+  readonly corsOrigins: readonly string[];
+  /** data/structure directory */
+  readonly dataPath: string;
+  /** Challenge content directory, Challenge.content is null without it */
+  readonly contentPath: string | null;
+  readonly contentCacheMB: number;
+  readonly dataValidationMode: ValidationMode;
+  /** Challenge ids allowed to appear in more than one block */
+  readonly sharedChallengeIds: readonly string[];
+  readonly reload: {
+    /** Reload when files under dataPath change */
+    readonly watch: boolean;
+    /** Enables POST /admin/reload */
+    readonly adminToken: string | null;
+  };
+  readonly persistedQueries: {
+    readonly mode: PersistedQueriesMode;
+    readonly manifestPath: string | null;
+    readonly maxAgeSeconds: number;
+  };
+  readonly queryLimits: QueryLimits;
+  readonly graphiql: boolean;
+  readonly introspection: boolean;
+  readonly profiling: boolean;
+  readonly exposeErrors: boolean;
+  readonly metrics: {
+    /** Serve GET /metrics */
+    readonly enabled: boolean;
+    /** Bearer token GET /metrics requires, open without one */
+    readonly token: string | null;
+  };
+  readonly log: {
+    readonly level: LogLevel;
+    readonly format: LogFormat;
+  };
+  readonly shutdown: ShutdownConfig;
+}
+
+/**
+ * Invalid configuration value
+ * @param key Setting as a dotted AppConfig path (e.g. "queryLimits.maxCost")
+ * @param source Where the value came from: "env PORT", the config file
+ *   path, or "config" for settings that conflict with each other
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly key: string,
+    public readonly source: string
+  ) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+type ConfigFile = Readonly<Record<string, unknown>>;
+
+interface FoundValue {
+  readonly value: unknown;
+  readonly source: string;
+  readonly fromEnv: boolean;
+}
+
+function isPlainObject(value: unknown): value is ConfigFile {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Reads settings from env vars over the config file, collecting errors
+ * Invalid values are reported and replaced by the default so every problem
+ * is found in one pass.
+ */
+class ConfigReader {
+  private readonly known = new Set<string>();
+
+  constructor(
+    private readonly env: NodeJS.ProcessEnv,
+    private readonly cwd: string,
+    private readonly file: ConfigFile,
+    private readonly filePath: string | null,
+    readonly errors: ConfigError[]
+  ) {}
+
+  integer(
+    key: string,
+    envName: string,
+    fallback: number,
+    min: number,
+    max = Number.MAX_SAFE_INTEGER
+  ): number {
+    const found = this.lookup(key, envName);
+    if (!found) return fallback;
+
+    const { value } = found;
+    const number =
+      typeof value === 'string' && /^-?\d+$/.test(value.trim())
+        ? Number(value)
+        : value;
+    if (
+      typeof number !== 'number' ||
+      !Number.isInteger(number) ||
+      number < min ||
+      number > max
+    ) {
+      const range =
+        max === Number.MAX_SAFE_INTEGER
+          ? `an integer >= ${min}`
+          : `an integer between ${min} and ${max}`;
+      return this.invalid(key, found, `must be ${range}`, fallback);
+    }
+    return number;
+  }
+
+  boolean(key: string, envName: string, fallback: boolean): boolean {
+    const found = this.lookup(key, envName);
+    if (!found) return fallback;
+
+    const { value } = found;
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+    return this.invalid(key, found, 'must be true or false', fallback);
+  }
+
+  oneOf<T extends string>(
+    key: string,
+    envName: string,
+    values: readonly T[],
+    fallback: T
+  ): T {
+    const found = this.lookup(key, envName);
+    if (!found) return fallback;
+
+    const match = values.find((value) => value === found.value);
+    return (
+      match ??
+      this.invalid(key, found, `must be one of: ${values.join(', ')}`, fallback)
+    );
+  }
+
+  string<T extends string | null>(
+    key: string,
+    envName: string,
+    fallback: T
+  ): string | T {
+    const found = this.lookup(key, envName);
+    if (!found) return fallback;
+
+    return typeof found.value === 'string' && found.value.length > 0
+      ? found.value
+      : this.invalid(key, found, 'must be a non-empty string', fallback);
+  }
+
+  path<T extends string | null>(
+    key: string,
+    envName: string,
+    fallback: T
+  ): string | T {
+    const found = this.lookup(key, envName);
+    if (!found) return fallback;
+
+    if (typeof found.value !== 'string' || found.value.length === 0) {
+      return this.invalid(key, found, 'must be a non-empty path', fallback);
+    }
+    const base =
+      found.fromEnv || !this.filePath ? this.cwd : dirname(this.filePath);
+    return resolve(base, found.value);
+  }
+
+  /**
+   * Comma-separated in env vars, an array of strings in the file
+   * @param validate Returns a problem per invalid entry
+   */
+  list(
+    key: string,
+    envName: string,
+    fallback: readonly string[] = [],
+    validate?: (items: readonly string[]) => readonly string[]
+  ): readonly string[] {
+    const found = this.lookup(key, envName);
+    if (!found) return fallback;
+
+    const { value } = found;
+    const items =
+      typeof value === 'string'
+        ? value.split(',')
+        : Array.isArray(value) &&
+            value.every((v): v is string => typeof v === 'string')
+          ? value
+          : null;
+    if (!items) {
+      return this.invalid(key, found, 'must be a list of strings', fallback);
+    }
+
+    const list = items
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+    const problems = validate?.(list) ?? [];
+    return problems.length > 0
+      ? this.invalid(
+          key,
+          found,
+          `has invalid entries: ${problems.join('; ')}`,
+          fallback
+        )
+      : list;
+  }
+
+  /**
+   * Report a conflict between settings
+   */
+  conflict(key: string, message: string): void {
+    this.errors.push(new ConfigError(`${key} ${message}`, key, 'config'));
+  }
+
+  /**
+   * Report config file keys that no setting reads (typos, removed settings)
+   */
+  checkUnknownKeys(): void {
+    if (!this.filePath) return;
+
+    const visit = (object: ConfigFile, prefix: string) => {
+      for (const [name, value] of Object.entries(object)) {
+        const key = `${prefix}${name}`;
+        if (this.known.has(key)) continue;
+
+        const isSection = [...this.known].some((known) =>
+          known.startsWith(`${key}.`)
+        );
+        if (isSection && isPlainObject(value)) {
+          visit(value, `${key}.`);
+        } else {
+          this.errors.push(
+            new ConfigError(
+              isSection
+                ? `${key} must be an object`
+                : `${key} is not a known setting`,
+              key,
+              this.filePath ?? ''
+            )
+          );
+        }
+      }
+    };
+    visit(this.file, '');
+  }
+
+  private lookup(key: string, envName: string): FoundValue | undefined {
+    this.known.add(key);
+
+    const envValue = this.env[envName];
+    if (envValue !== undefined && envValue !== '') {
+      return { value: envValue, source: `env ${envName}`, fromEnv: true };
+    }
+
+    let value: unknown = this.file;
+    for (const part of key.split('.')) {
+      value = isPlainObject(value) ? value[part] : undefined;
+    }
+    return value === undefined || !this.filePath
+      ? undefined
+      : { value, source: this.filePath, fromEnv: false };
+  }
+
+  private invalid<T>(
+    key: string,
+    found: FoundValue,
+    requirement: string,
+    fallback: T
+  ): T {
+    const setting = found.fromEnv ? found.source.slice(4) : key;
+    this.errors.push(
+      new ConfigError(
+        `Invalid ${setting} value ${JSON.stringify(found.value)}: ${setting} ${requirement}`,
+        key,
+        found.source
+      )
+    );
+    return fallback;
+  }
+}
+
+/**
+ * data/structure of the repository, whether started from its root or from
+ * packages/server
+ */
+function defaultDataPath(cwd: string): string {
+  const rootPath = resolve(cwd, 'data/structure');
+  return existsSync(rootPath) ? rootPath : resolve(cwd, '../../data/structure');
+}
+
+async function readConfigFile(
+  filePath: string
+): Promise<Result<ConfigFile, ConfigError>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: new ConfigError(
+        `Failed to read config file: ${message}`,
+        'CONFIG_FILE',
+        filePath
+      ),
+    };
+  }
+
+  return isPlainObject(parsed)
+    ? { success: true, data: parsed }
+    : {
+        success: false,
+        error: new ConfigError(
+          'Config file must contain a JSON object',
+          'CONFIG_FILE',
+          filePath
+        ),
+      };
+}
+
+/**
+ * Load and validate the configuration
+ * Precedence: environment variables, then the CONFIG_FILE JSON file, then
+ * defaults. NODE_ENV=production changes the defaults of exposeErrors and
+ * log.format only.
+ * @param env Environment variables
+ * @param cwd Directory relative env var paths are resolved against
+ * @returns The configuration or every invalid setting
+ */
+export async function loadConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): Promise<Result<AppConfig, readonly ConfigError[]>> {
+  let file: ConfigFile = {};
+  const filePath = env['CONFIG_FILE'] ? resolve(cwd, env['CONFIG_FILE']) : null;
+  if (filePath) {
+    const fileResult = await readConfigFile(filePath);
+    if (!fileResult.success)
+      return { success: false, error: [fileResult.error] };
+    file = fileResult.data;
+  }
+
+  const production = env['NODE_ENV'] === 'production';
+  const read = new ConfigReader(env, cwd, file, filePath, []);
+
+  const config: AppConfig = {
+    port: read.integer('port', 'PORT', 4000, 1, 65535),
+    corsOrigins: read.list(
+      'corsOrigins',
+      'CORS_ORIGIN',
+      [ANY_ORIGIN],
+      validateCorsOrigins
+    ),
+    dataPath: read.path('dataPath', 'DATA_PATH', defaultDataPath(cwd)),
+    contentPath: read.path('contentPath', 'CONTENT_PATH', null),
+    contentCacheMB: read.integer('contentCacheMB', 'CONTENT_CACHE_MB', 50, 1),
+    dataValidationMode: read.oneOf(
+      'dataValidationMode',
+      'DATA_VALIDATION_MODE',
+      ['strict', 'lenient'],
+      'strict'
+    ),
+    sharedChallengeIds: read.list('sharedChallengeIds', 'SHARED_CHALLENGE_IDS'),
+    reload: {
+      watch: read.boolean('reload.watch', 'DATA_WATCH', false),
+      adminToken: read.string('reload.adminToken', 'ADMIN_TOKEN', null),
+    },
+    persistedQueries: {
+      mode: read.oneOf(
+        'persistedQueries.mode',
+        'PERSISTED_QUERIES_MODE',
+        PERSISTED_QUERIES_MODES,
+        'apq'
+      ),
+      manifestPath: read.path(
+        'persistedQueries.manifestPath',
+        'PERSISTED_QUERIES_MANIFEST',
+        null
+      ),
+      maxAgeSeconds: read.integer(
+        'persistedQueries.maxAgeSeconds',
+        'PERSISTED_QUERIES_MAX_AGE',
+        300,
+        0
+      ),
+    },
+    queryLimits: {
+      maxDepth: read.integer(
+        'queryLimits.maxDepth',
+        'MAX_QUERY_DEPTH',
+        DEFAULT_QUERY_LIMITS.maxDepth,
+        0
+      ),
+      maxAliases: read.integer(
+        'queryLimits.maxAliases',
+        'MAX_QUERY_ALIASES',
+        DEFAULT_QUERY_LIMITS.maxAliases,
+        0
+      ),
+      maxCost: read.integer(
+        'queryLimits.maxCost',
+        'MAX_QUERY_COST',
+        DEFAULT_QUERY_LIMITS.maxCost,
+        0
+      ),
+    },
+    graphiql: read.boolean('graphiql', 'GRAPHIQL', true),
+    introspection: read.boolean('introspection', 'INTROSPECTION', true),
+    profiling: read.boolean('profiling', 'GRAPHQL_PROFILING', false),
+    exposeErrors: read.boolean('exposeErrors', 'EXPOSE_ERRORS', !production),
+    metrics: {
+      enabled: read.boolean('metrics.enabled', 'METRICS_ENABLED', true),
+      token: read.string('metrics.token', 'METRICS_TOKEN', null),
+    },
+    log: {
+      level: read.oneOf('log.level', 'LOG_LEVEL', LOG_LEVELS, 'info'),
+      format: read.oneOf(
+        'log.format',
+        'LOG_FORMAT',
+        LOG_FORMATS,
+        production ? 'json' : 'pretty'
+      ),
+    },
+    shutdown: {
+      gracePeriodMs: read.integer(
+        'shutdown.gracePeriodMs',
+        'SHUTDOWN_GRACE_PERIOD_MS',
+        DEFAULT_SHUTDOWN_CONFIG.gracePeriodMs,
+        0
+      ),
+      drainTimeoutMs: read.integer(
+        'shutdown.drainTimeoutMs',
+        'SHUTDOWN_DRAIN_TIMEOUT_MS',
+        DEFAULT_SHUTDOWN_CONFIG.drainTimeoutMs,
+        0
+      ),
+    },
+  };
+
+  if (
+    config.persistedQueries.mode === 'strict' &&
+    !config.persistedQueries.manifestPath
+  ) {
+    read.conflict(
+      'persistedQueries.manifestPath',
+      'is required when persistedQueries.mode is strict'
+    );
+  }
+  // GraphiQL loads the schema through introspection (strict mode has none)
+  if (
+    config.graphiql &&
+    !config.introspection &&
+    config.persistedQueries.mode !== 'strict'
+  ) {
+    read.conflict('graphiql', 'requires introspection to be enabled');
+  }
+  read.checkUnknownKeys();
+
+  return read.errors.length > 0
+    ? { success: false, error: read.errors }
+    : { success: true, data: config };
+}
+
+/**
+ * Configuration as logged at startup, with secrets redacted
+ */
+export function describeConfig(config: AppConfig): Record<string, unknown> {
+  return {
+    ...config,
+    reload: {
+      ...config.reload,
+      adminToken: config.reload.adminToken ? '[redacted]' : null,
+    },
+    metrics: {
+      ...config.metrics,
+      token: config.metrics.token ? '[redacted]' : null,
+    },
+  };
+}
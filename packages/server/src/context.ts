@@ -0,0 +1,46 @@
+import type { DataProvider, SearchOptions } from './data/types.js';
+import { createDataLoaders, type DataLoaders } from './loaders.js';
+import { SILENT_LOGGER, type Logger } from './logger.js';
+import { RequestProfile } from './profiling.js';
+
+/**
+ * Per-request GraphQL context
+ * DataProvider methods bound to the request's snapshot, plus loaders that
+ * batch and memoize lookups, the request's profile and its logger
+ */
+export interface GraphQLContext extends DataProvider {
+  readonly loaders: DataLoaders;
+  readonly profile: RequestProfile;
+  /** Adds the request id to every entry */
+  readonly logger: Logger;
+}
+
+/**
+ * Create the context for one request
+ * Pins the current DataStore so a hot reload never changes data mid-request
+ * @param dataProvider Server's data provider
+ * @param logger Request-scoped logger (see getRequestId)
+ */
+export function createGraphQLContext(
+  dataProvider: DataProvider,
+  logger: Logger = SILENT_LOGGER
+): GraphQLContext {
+  const provider = dataProvider.snapshot();
+  const loaders = createDataLoaders(provider);
+  return {
+    getCurriculum: () => provider.getCurriculum(),
+    getSuperblock: (dashedName: string) => provider.getSuperblock(dashedName),
+    getBlock: (dashedName: string) => provider.getBlock(dashedName),
+    getChallenge: (id: string) => provider.getChallenge(id),
+    getChallengeContent: (id: string) => provider.getChallengeContent(id),
+    getContentCacheStats: () => provider.getContentCacheStats(),
+    getIndexes: () => provider.getIndexes(),
+    getStats: () => provider.getStats(),
+    search: (query: string, options?: SearchOptions) =>
+      provider.search(query, options),
+    snapshot: () => provider,
+    loaders,
+    profile: new RequestProfile(loaders),
+    logger,
+  };
+}
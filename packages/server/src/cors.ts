@@ -0,0 +1,193 @@
+import type { Plugin } from 'graphql-yoga';
+import { REQUEST_ID_HEADER } from './logger.js';
+
+/**
+ * CORS origin policy
+ * CORS_ORIGIN is a comma-separated list of allowed origins. Entries are
+ * exact origins (https://www.freecodecamp.org), subdomain patterns
+ * (https://*.freecodecamp.org, any depth, not the apex domain) or * for
+ * every origin.
+ *
+ * Matching origins are echoed in Access-Control-Allow-Origin with
+ * credentials allowed. Origins only covered by * get a literal * without
+ * credentials, as browsers refuse credentialed responses for it. Other
+ * origins get no CORS headers at all.
+ */
+
+export const ANY_ORIGIN = '*';
+
+const ALLOWED_METHODS = 'GET, POST, OPTIONS';
+
+// How long browsers may cache a preflight (Chromium caps it at 2 hours)
+const PREFLIGHT_MAX_AGE_SECONDS = 7200;
+
+// Placeholder for the wildcard label, so patterns can be checked with URL
+const WILDCARD_HOST = 'wildcard-subdomain';
+
+export interface CorsMatch {
+  /** Access-Control-Allow-Origin value */
+  readonly allowOrigin: string;
+  readonly credentials: boolean;
+}
+
+/**
+ * Split a comma-separated CORS_ORIGIN value
+ */
+export function parseCorsOrigins(value: string): string[] {
+  return value
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter((origin) => origin.length > 0);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile one allowed origin entry
+ * @returns Pattern matching lower-case request origins, or why the entry is
+ *   invalid
+ */
+function compileOrigin(entry: string): RegExp | string {
+  const wildcard = entry.includes('://*.');
+  const candidate = entry.replace('://*.', `://${WILDCARD_HOST}.`);
+  if (candidate.includes('*')) {
+    return `"${entry}": only a leading "*." subdomain wildcard is supported`;
+  }
+
+  let origin: string;
+  try {
+    origin = new URL(candidate).origin;
+  } catch {
+    return `"${entry}" is not a valid origin`;
+  }
+  if (origin === 'null' || origin !== candidate.toLowerCase()) {
+    return `"${entry}" must be scheme://host[:port] without a path or default port`;
+  }
+
+  const source = escapeRegExp(origin);
+  const pattern = wildcard
+    ? source.replace(`${WILDCARD_HOST}\\.`, '(?:[a-z0-9-]+\\.)+')
+    : source;
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Compile every allowed origin entry except *
+ */
+function compileOrigins(origins: readonly string[]): {
+  patterns: RegExp[];
+  errors: string[];
+} {
+  const patterns: RegExp[] = [];
+  const errors: string[] = [];
+  for (const origin of origins) {
+    if (origin === ANY_ORIGIN) continue;
+    const result = compileOrigin(origin);
+    if (typeof result === 'string') errors.push(result);
+    else patterns.push(result);
+  }
+  return { patterns, errors };
+}
+
+/**
+ * Problems with the allowed origin entries (empty when all are valid)
+ */
+export function validateCorsOrigins(origins: readonly string[]): string[] {
+  return compileOrigins(origins).errors;
+}
+
+export class CorsPolicy {
+  private readonly anyOrigin: boolean;
+  private readonly patterns: readonly RegExp[];
+
+  /**
+   * @param origins Allowed origin entries
+   * @throws Error if an entry is invalid (see validateCorsOrigins)
+   */
+  constructor(origins: readonly string[]) {
+    const { patterns, errors } = compileOrigins(origins);
+    if (errors.length > 0) {
+      throw new Error(`Invalid CORS origin ${errors.join(', ')}`);
+    }
+    this.anyOrigin = origins.includes(ANY_ORIGIN);
+    this.patterns = patterns;
+  }
+
+  /**
+   * CORS response for a request origin, or null if it is not allowed
+   */
+  match(origin: string): CorsMatch | null {
+    const normalized = origin.toLowerCase();
+    if (this.patterns.some((pattern) => pattern.test(normalized))) {
+      return { allowOrigin: origin, credentials: true };
+    }
+    return this.anyOrigin
+      ? { allowOrigin: ANY_ORIGIN, credentials: false }
+      : null;
+  }
+
+  /**
+   * Whether responses differ by Origin (and need Vary: Origin)
+   */
+  get variesByOrigin(): boolean {
+    return this.patterns.length > 0;
+  }
+}
+
+function appendVary(headers: Headers, value: string): void {
+  const current = headers.get('Vary');
+  headers.set('Vary', current ? `${current}, ${value}` : value);
+}
+
+/**
+ * Yoga plugin answering preflight requests and adding CORS headers
+ * Replaces Yoga's built-in CORS handling (createYoga cors: false).
+ * Allowed origins can read the x-request-id response header, and may cache
+ * preflight responses.
+ */
+export function useCors(policy: CorsPolicy): Plugin {
+  return {
+    onRequest({ request, fetchAPI, endResponse }) {
+      if (request.method.toUpperCase() === 'OPTIONS') {
+        // Safari needs Content-Length: 0 on 204 responses
+        endResponse(
+          new fetchAPI.Response(null, {
+            status: 204,
+            headers: { 'Content-Length': '0' },
+          })
+        );
+      }
+    },
+    onResponse({ request, response }) {
+      const { headers } = response;
+      if (policy.variesByOrigin) appendVary(headers, 'Origin');
+
+      const origin = request.headers.get('origin');
+      const match = origin === null ? null : policy.match(origin);
+      if (!match) return;
+
+      headers.set('Access-Control-Allow-Origin', match.allowOrigin);
+      if (match.credentials) {
+        headers.set('Access-Control-Allow-Credentials', 'true');
+      }
+      headers.set('Access-Control-Expose-Headers', REQUEST_ID_HEADER);
+
+      if (request.method.toUpperCase() === 'OPTIONS') {
+        headers.set('Access-Control-Allow-Methods', ALLOWED_METHODS);
+        headers.set(
+          'Access-Control-Max-Age',
+          String(PREFLIGHT_MAX_AGE_SECONDS)
+        );
+        const requestHeaders = request.headers.get(
+          'access-control-request-headers'
+        );
+        if (requestHeaders) {
+          headers.set('Access-Control-Allow-Headers', requestHeaders);
+          appendVary(headers, 'Access-Control-Request-Headers');
+        }
+      }
+    },
+  };
+}
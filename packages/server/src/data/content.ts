@@ -0,0 +1,445 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  type ChallengeContent,
+  type ChallengeFile,
+  type ChallengeMetadata,
+  type ContentSource,
+  type Result,
+  type Solution,
+  type Test,
+  DataValidationError,
+} from './types.js';
+
+/**
+ * Challenge content loading
+ * Reads challenge content from a local directory laid out as
+ * <contentPath>/<blockDashedName>/<challengeId>.json (or .md)
+ *
+ * Markdown files follow freeCodeCamp's challenge format:
+ * `# --description--`, `# --instructions--`, `# --hints--`,
+ * `# --seed--` / `## --seed-contents--` and `# --solutions--` sections.
+ */
+
+// Seed file base names keyed by code fence language
+const FILE_NAMES_BY_EXT: Record<string, string> = {
+  html: 'index',
+  css: 'styles',
+  js: 'script',
+  jsx: 'index',
+  ts: 'index',
+  tsx: 'index',
+  py: 'main',
+};
+
+const EDITABLE_REGION_MARKER = '--fcc-editable-region--';
+const FENCE = '```';
+
+interface CodeBlock {
+  readonly lang: string;
+  readonly code: string;
+  readonly precedingText: string;
+}
+
+/**
+ * Strip YAML frontmatter (id, title, challengeType) from a markdown file
+ */
+function stripFrontmatter(markdown: string): string {
+  if (!markdown.startsWith('---\n')) return markdown;
+  const end = markdown.indexOf('\n---\n', 4);
+  return end === -1 ? markdown : markdown.slice(end + 5);
+}
+
+/**
+ * Split markdown into sections keyed by `<marker> --name--` headings
+ * Headings inside code fences are ignored
+ */
+function splitSections(markdown: string, marker: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  const headingPattern = new RegExp(`^${marker} --([a-z-]+)--\\s*$`);
+  let current: string | null = null;
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.startsWith(FENCE)) inFence = !inFence;
+
+    const match = inFence ? null : headingPattern.exec(line);
+    if (match?.[1]) {
+      if (current) sections.set(current, lines.join('\n'));
+      current = match[1];
+      lines = [];
+    } else if (current) {
+      lines.push(line);
+    }
+  }
+  if (current) sections.set(current, lines.join('\n'));
+
+  return sections;
+}
+
+/**
+ * Extract fenced code blocks with the prose that precedes each one
+ * @returns Result containing code blocks or error for an unterminated fence
+ */
+function extractCodeBlocks(
+  section: string,
+  filePath: string,
+  field: string
+): Result<CodeBlock[], DataValidationError> {
+  const blocks: CodeBlock[] = [];
+  let text: string[] = [];
+  let code: string[] | null = null;
+  let lang = '';
+
+  for (const line of section.split('\n')) {
+    if (code === null) {
+      if (line.startsWith(FENCE)) {
+        lang = line.slice(FENCE.length).trim();
+        code = [];
+      } else {
+        text.push(line);
+      }
+    } else if (line.trim() === FENCE) {
+      blocks.push({
+        lang,
+        code: code.join('\n'),
+        precedingText: text.join('\n').trim(),
+      });
+      text = [];
+      code = null;
+    } else {
+      code.push(line);
+    }
+  }
+
+  if (code !== null) {
+    return {
+      success: false,
+      error: new DataValidationError(
+        `Unterminated code fence in --${field}-- section`,
+        filePath,
+        field
+      ),
+    };
+  }
+
+  return { success: true, data: blocks };
+}
+
+/**
+ * Convert a code block into a ChallengeFile
+ * Removes editable region markers and records their line positions
+ */
+function toChallengeFile(block: CodeBlock): ChallengeFile {
+  const lines: string[] = [];
+  const boundaries: number[] = [];
+
+  for (const line of block.code.split('\n')) {
+    if (line.includes(EDITABLE_REGION_MARKER)) {
+      boundaries.push(lines.length);
+    } else {
+      lines.push(line);
+    }
+  }
+
+  return {
+    name: `${FILE_NAMES_BY_EXT[block.lang] ?? 'index'}.${block.lang}`,
+    ext: block.lang,
+    contents: lines.join('\n'),
+    editableRegionBoundaries: boundaries.length > 0 ? boundaries : null,
+  };
+}
+
+/**
+ * Split the solutions section on `---` separator lines outside code fences
+ */
+function splitSolutions(section: string): string[] {
+  const chunks: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  for (const line of section.split('\n')) {
+    if (line.startsWith(FENCE)) inFence = !inFence;
+    if (!inFence && line.trim() === '---') {
+      chunks.push(lines.join('\n'));
+      lines = [];
+    } else {
+      lines.push(line);
+    }
+  }
+  chunks.push(lines.join('\n'));
+
+  return chunks;
+}
+
+/**
+ * Parse a freeCodeCamp challenge markdown file into ChallengeContent
+ * @param markdown Raw markdown file contents
+ * @param id Challenge identifier
+ * @param filePath File path for error reporting
+ * @returns Result containing ChallengeContent or parse error
+ */
+export function parseChallengeMarkdown(
+  markdown: string,
+  id: string,
+  filePath: string
+): Result<ChallengeContent, DataValidationError> {
+  const sections = splitSections(
+    stripFrontmatter(markdown.replace(/\r\n/g, '\n')),
+    '#'
+  );
+
+  // Hints: each code block is a test, the prose before it is its text
+  const hints = extractCodeBlocks(
+    sections.get('hints') ?? '',
+    filePath,
+    'hints'
+  );
+  if (!hints.success) return hints;
+  const tests: Test[] = hints.data.map((block) => ({
+    text: block.precedingText,
+    testString: block.code,
+  }));
+
+  // Seed: starter files live in the `## --seed-contents--` subsection
+  const seedSections = splitSections(sections.get('seed') ?? '', '##');
+  const seed = extractCodeBlocks(
+    seedSections.get('seed-contents') ?? '',
+    filePath,
+    'seed'
+  );
+  if (!seed.success) return seed;
+
+  // Solutions: separated by `---` lines, each holding one or more files
+  const solutions: Solution[] = [];
+  for (const chunk of splitSolutions(sections.get('solutions') ?? '')) {
+    const files = extractCodeBlocks(chunk, filePath, 'solutions');
+    if (!files.success) return files;
+    if (files.data.length > 0) {
+      solutions.push({ files: files.data.map(toChallengeFile) });
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      id,
+      description: (sections.get('description') ?? '').trim(),
+      instructions: (sections.get('instructions') ?? '').trim(),
+      files: seed.data.map(toChallengeFile),
+      tests,
+      solutions,
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a JSON challenge file entry
+ * @returns Error message or null when the file is valid
+ */
+function checkChallengeFile(value: unknown): string | null {
+  if (!isRecord(value)) return 'must be an object';
+  for (const key of ['name', 'ext', 'contents']) {
+    if (typeof value[key] !== 'string') return `"${key}" must be a string`;
+  }
+  const boundaries = value.editableRegionBoundaries;
+  if (
+    boundaries !== undefined &&
+    boundaries !== null &&
+    !(Array.isArray(boundaries) && boundaries.every(Number.isInteger))
+  ) {
+    return '"editableRegionBoundaries" must be an array of integers';
+  }
+  return null;
+}
+
+function toChallengeFileFromJson(
+  value: Record<string, unknown>
+): ChallengeFile {
+  const boundaries = value.editableRegionBoundaries;
+  return {
+    name: value.name as string,
+    ext: value.ext as string,
+    contents: value.contents as string,
+    editableRegionBoundaries: Array.isArray(boundaries)
+      ? (boundaries as number[])
+      : null,
+  };
+}
+
+/**
+ * Parse a JSON challenge content file into ChallengeContent
+ * Expects { description, instructions, files, tests, solutions }
+ * @param json Raw JSON file contents
+ * @param id Challenge identifier
+ * @param filePath File path for error reporting
+ * @returns Result containing ChallengeContent or validation error
+ */
+export function parseChallengeJson(
+  json: string,
+  id: string,
+  filePath: string
+): Result<ChallengeContent, DataValidationError> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: new DataValidationError(
+        `Failed to parse challenge content: ${message}`,
+        filePath
+      ),
+    };
+  }
+
+  const fail = (
+    message: string,
+    field: string
+  ): Result<ChallengeContent, DataValidationError> => ({
+    success: false,
+    error: new DataValidationError(message, filePath, field),
+  });
+
+  if (!isRecord(data)) return fail('Challenge content must be an object', '');
+
+  for (const key of ['description', 'instructions']) {
+    if (data[key] !== undefined && typeof data[key] !== 'string') {
+      return fail(`"${key}" must be a string`, key);
+    }
+  }
+
+  const files = data.files ?? [];
+  const tests = data.tests ?? [];
+  const solutions = data.solutions ?? [];
+  if (!Array.isArray(files)) return fail('"files" must be an array', 'files');
+  if (!Array.isArray(tests)) return fail('"tests" must be an array', 'tests');
+  if (!Array.isArray(solutions)) {
+    return fail('"solutions" must be an array', 'solutions');
+  }
+
+  for (let i = 0; i < files.length; i++) {
+    const problem = checkChallengeFile(files[i]);
+    if (problem) return fail(`files[${i}] ${problem}`, `files[${i}]`);
+  }
+
+  for (let i = 0; i < tests.length; i++) {
+    const test: unknown = tests[i];
+    if (
+      !isRecord(test) ||
+      typeof test.text !== 'string' ||
+      typeof test.testString !== 'string'
+    ) {
+      return fail(
+        `tests[${i}] must have "text" and "testString" strings`,
+        `tests[${i}]`
+      );
+    }
+  }
+
+  for (let i = 0; i < solutions.length; i++) {
+    const solution: unknown = solutions[i];
+    if (!isRecord(solution) || !Array.isArray(solution.files)) {
+      return fail(
+        `solutions[${i}] must have a "files" array`,
+        `solutions[${i}]`
+      );
+    }
+    for (let j = 0; j < solution.files.length; j++) {
+      const problem = checkChallengeFile(solution.files[j]);
+      if (problem) {
+        return fail(
+          `solutions[${i}].files[${j}] ${problem}`,
+          `solutions[${i}].files[${j}]`
+        );
+      }
+    }
+  }
+
+  return {
+    success: true,
+    data: {
+      id,
+      description: (data.description as string | undefined) ?? '',
+      instructions: (data.instructions as string | undefined) ?? '',
+      files: (files as Record<string, unknown>[]).map(toChallengeFileFromJson),
+      tests: (tests as Test[]).map((test) => ({
+        text: test.text,
+        testString: test.testString,
+      })),
+      solutions: (solutions as Record<string, unknown[]>[]).map((solution) => ({
+        files: (solution.files as Record<string, unknown>[]).map(
+          toChallengeFileFromJson
+        ),
+      })),
+    },
+  };
+}
+
+/**
+ * Read a file, treating a missing file as null rather than an error
+ */
+async function readOptionalFile(
+  filePath: string
+): Promise<Result<string | null, DataValidationError>> {
+  try {
+    return { success: true, data: await fs.readFile(filePath, 'utf-8') };
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return { success: true, data: null };
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: new DataValidationError(
+        `Failed to read challenge content: ${message}`,
+        filePath
+      ),
+    };
+  }
+}
+
+/**
+ * ContentSource backed by a local directory of challenge files
+ * JSON files take precedence over markdown when both exist
+ */
+export class FileContentSource implements ContentSource {
+  constructor(private readonly contentPath: string) {}
+
+  /**
+   * Load content for a challenge from its block directory
+   * @param challenge Challenge metadata (id and parent block)
+   * @returns Result containing content, null if no file exists, or error
+   */
+  async loadChallengeContent(
+    challenge: ChallengeMetadata
+  ): Promise<Result<ChallengeContent | null, DataValidationError>> {
+    const basePath = path.join(
+      this.contentPath,
+      challenge.blockDashedName,
+      challenge.id
+    );
+
+    const jsonPath = `${basePath}.json`;
+    const json = await readOptionalFile(jsonPath);
+    if (!json.success) return json;
+    if (json.data !== null) {
+      return parseChallengeJson(json.data, challenge.id, jsonPath);
+    }
+
+    const markdownPath = `${basePath}.md`;
+    const markdown = await readOptionalFile(markdownPath);
+    if (!markdown.success) return markdown;
+    if (markdown.data !== null) {
+      return parseChallengeMarkdown(markdown.data, challenge.id, markdownPath);
+    }
+
+    return { success: true, data: null };
+  }
+}
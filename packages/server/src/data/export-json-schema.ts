@@ -0,0 +1,16 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'path';
+import { RAW_JSON_SCHEMAS } from './schemas.js';
+
+// Output directory: first CLI argument, or data/schemas next to data/structure
+const outDir = process.argv[2]
+  ? path.resolve(process.cwd(), process.argv[2])
+  : path.resolve(process.cwd(), '..', '..', 'data', 'schemas');
+
+await mkdir(outDir, { recursive: true });
+
+for (const [fileName, schema] of Object.entries(RAW_JSON_SCHEMAS)) {
+  const filePath = path.join(outDir, fileName);
+  await writeFile(filePath, `${JSON.stringify(schema, null, 2)}\n`);
+  console.log('Wrote', filePath);
+}
@@ -0,0 +1,201 @@
+import type {
+  DataProvider,
+  ReloadableDataProvider,
+  DataStore,
+  ContentSource,
+  CurriculumData,
+  SuperblockData,
+  BlockData,
+  ChallengeMetadata,
+  ChallengeContent,
+  CacheStats,
+  DataStoreIndexes,
+  CurriculumStats,
+  SearchOptions,
+  SearchHit,
+} from './types.js';
+import { InMemoryDataProvider } from './provider.js';
+import { LRUCache } from './lru-cache.js';
+
+/**
+ * HybridDataProvider implementation
+ * Metadata from the in-memory DataStore, content from a ContentSource
+ * kept in a byte-bounded LRU cache
+ */
+
+export const DEFAULT_CONTENT_CACHE_BYTES = 50 * 1024 * 1024;
+
+// Fixed per-entry overhead for object headers, Map slots and the key
+const ENTRY_OVERHEAD_BYTES = 256;
+
+export interface HybridDataProviderOptions {
+  readonly maxCacheBytes?: number;
+}
+
+/**
+ * Estimate the in-memory size of challenge content
+ * Strings are UTF-16 (2 bytes per code unit); structure adds fixed overhead
+ * @param content Loaded content, or null for a cached "no content" result
+ * @returns Estimated size in bytes
+ */
+export function estimateContentBytes(content: ChallengeContent | null): number {
+  if (content === null) return ENTRY_OVERHEAD_BYTES;
+
+  let chars = content.id.length;
+  chars += content.description.length + content.instructions.length;
+  const files = [
+    ...content.files,
+    ...content.solutions.flatMap((solution) => solution.files),
+  ];
+  for (const file of files) {
+    chars += file.name.length + file.ext.length + file.contents.length;
+  }
+  for (const test of content.tests) {
+    chars += test.text.length + test.testString.length;
+  }
+
+  return chars * 2 + ENTRY_OVERHEAD_BYTES;
+}
+
+/**
+ * DataProvider that lazily loads challenge content through an LRU cache
+ * Concurrent requests for the same uncached challenge share one load
+ * Snapshots pin metadata per request but share the content cache
+ * Loads still in flight when the store is replaced are not cached
+ */
+export class HybridDataProvider implements ReloadableDataProvider {
+  private readonly metadata: InMemoryDataProvider;
+  private readonly cache: LRUCache<string, ChallengeContent | null>;
+  private readonly pending = new Map<
+    string,
+    Promise<ChallengeContent | null>
+  >();
+  // Bumped by replaceStore so loads started before it are not cached
+  private generation = 0;
+
+  constructor(
+    store: DataStore,
+    private readonly contentSource: ContentSource,
+    options: HybridDataProviderOptions = {}
+  ) {
+    this.metadata = new InMemoryDataProvider(store);
+    this.cache = new LRUCache({
+      maxBytes: options.maxCacheBytes ?? DEFAULT_CONTENT_CACHE_BYTES,
+      sizeOf: estimateContentBytes,
+    });
+  }
+
+  getCurriculum(): CurriculumData {
+    return this.metadata.getCurriculum();
+  }
+
+  getSuperblock(dashedName: string): SuperblockData | null {
+    return this.metadata.getSuperblock(dashedName);
+  }
+
+  getBlock(dashedName: string): BlockData | null {
+    return this.metadata.getBlock(dashedName);
+  }
+
+  getChallenge(id: string): ChallengeMetadata | null {
+    return this.metadata.getChallenge(id);
+  }
+
+  getIndexes(): DataStoreIndexes {
+    return this.metadata.getIndexes();
+  }
+
+  getStats(): CurriculumStats {
+    return this.metadata.getStats();
+  }
+
+  search(query: string, options?: SearchOptions): readonly SearchHit[] {
+    return this.metadata.search(query, options);
+  }
+
+  /**
+   * Get full challenge content, serving repeat requests from the cache
+   * "No content" results are cached too, so missing files are not re-read
+   * @param id Challenge UUID identifier
+   * @returns ChallengeContent or null if the challenge or its content is missing
+   * @throws DataValidationError if content exists but cannot be loaded
+   */
+  async getChallengeContent(id: string): Promise<ChallengeContent | null> {
+    return this.loadContent(this.metadata.getChallenge(id));
+  }
+
+  /**
+   * Get content cache counters for health reporting
+   * @returns Hits, misses, evictions and estimated size
+   */
+  getContentCacheStats(): CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Pin the current DataStore for one request; content still goes
+   * through this provider's cache
+   * @returns Provider bound to the current DataStore
+   */
+  snapshot(): DataProvider {
+    const metadata = this.metadata.snapshot();
+    const snapshot: DataProvider = {
+      getCurriculum: () => metadata.getCurriculum(),
+      getSuperblock: (dashedName) => metadata.getSuperblock(dashedName),
+      getBlock: (dashedName) => metadata.getBlock(dashedName),
+      getChallenge: (id) => metadata.getChallenge(id),
+      getChallengeContent: (id) => this.loadContent(metadata.getChallenge(id)),
+      getContentCacheStats: () => this.getContentCacheStats(),
+      getIndexes: () => metadata.getIndexes(),
+      getStats: () => metadata.getStats(),
+      search: (query, options) => metadata.search(query, options),
+      snapshot: () => snapshot,
+    };
+    return snapshot;
+  }
+
+  /**
+   * Atomically swap in a newly loaded DataStore
+   * Cached content is dropped since a data refresh usually updates it too
+   * @param store Fully validated replacement DataStore
+   */
+  replaceStore(store: DataStore): void {
+    this.metadata.replaceStore(store);
+    this.generation++;
+    this.cache.clear();
+    this.pending.clear();
+  }
+
+  /**
+   * Load content through the cache, sharing in-flight loads
+   * @param challenge Challenge metadata, or null if the id is unknown
+   * @throws DataValidationError if content exists but cannot be loaded
+   */
+  private async loadContent(
+    challenge: ChallengeMetadata | null
+  ): Promise<ChallengeContent | null> {
+    if (!challenge) return null;
+    const { id } = challenge;
+
+    const cached = this.cache.get(id);
+    if (cached !== undefined) return cached;
+
+    const inFlight = this.pending.get(id);
+    if (inFlight) return inFlight;
+
+    const { generation } = this;
+    const load = this.contentSource
+      .loadChallengeContent(challenge)
+      .then((result) => {
+        if (!result.success) throw result.error;
+        if (generation === this.generation) this.cache.set(id, result.data);
+        return result.data;
+      })
+      .finally(() => {
+        if (this.pending.get(id) === load) this.pending.delete(id);
+      });
+
+    this.pending.set(id, load);
+    return load;
+  }
+}
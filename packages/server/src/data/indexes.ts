@@ -0,0 +1,165 @@
+import type {
+  BlockData,
+  BlockLabel,
+  BlockLayout,
+  BlockPlacement,
+  ChallengeMetadata,
+  ChapterData,
+  CurriculumData,
+  DataStoreIndexes,
+  ModuleData,
+  SuperblockData,
+} from './types.js';
+
+/**
+ * Secondary indexes
+ * Precomputed once per DataStore so list and lookup resolvers never walk
+ * the whole curriculum per request. Lists follow curriculum order.
+ */
+
+/**
+ * Key of a chapter in DataStoreIndexes.chapters
+ */
+export function chapterKey(
+  superblockDashedName: string,
+  chapterDashedName: string
+): string {
+  return `${superblockDashedName}/${chapterDashedName}`;
+}
+
+/**
+ * Key of a module in DataStoreIndexes.modules
+ */
+export function moduleKey(
+  superblockDashedName: string,
+  chapterDashedName: string,
+  moduleDashedName: string
+): string {
+  return `${superblockDashedName}/${chapterDashedName}/${moduleDashedName}`;
+}
+
+/**
+ * Append a value to the list stored under key
+ */
+function addTo<K, V>(index: Map<K, V[]>, key: K, value: V): void {
+  const list = index.get(key);
+  if (list) {
+    list.push(value);
+  } else {
+    index.set(key, [value]);
+  }
+}
+
+/**
+ * Freeze every list of a grouping index
+ */
+function freezeLists<K, V>(index: Map<K, V[]>): ReadonlyMap<K, readonly V[]> {
+  for (const list of index.values()) Object.freeze(list);
+  return index;
+}
+
+/**
+ * Build the secondary indexes for a DataStore
+ * @param curriculum Normalized curriculum (defines superblock order)
+ * @param superblocks Map of dashedName → SuperblockData
+ * @param blocks Map of dashedName → BlockData
+ * @returns Immutable lookup maps and ordered lists
+ */
+export function buildDataStoreIndexes(
+  curriculum: CurriculumData,
+  superblocks: ReadonlyMap<string, SuperblockData>,
+  blocks: ReadonlyMap<string, BlockData>
+): DataStoreIndexes {
+  const chapters = new Map<string, ChapterData>();
+  const modules = new Map<string, ModuleData>();
+  const chapterList: ChapterData[] = [];
+  const moduleList: ModuleData[] = [];
+  const modulesBySuperblock = new Map<string, ModuleData[]>();
+  const modulesByChapter = new Map<string, ModuleData[]>();
+  const blockList: BlockData[] = [];
+  const challengeList: ChallengeMetadata[] = [];
+  const blocksByLabel = new Map<BlockLabel, BlockData[]>();
+  const blocksByLayout = new Map<BlockLayout, BlockData[]>();
+  const blocksByHelpCategory = new Map<string, BlockData[]>();
+  const placementsByBlock = new Map<string, BlockPlacement[]>();
+
+  const seenBlocks = new Set<string>();
+  const seenChallenges = new Set<string>();
+
+  for (const superblockName of curriculum.superblocks) {
+    const superblock = superblocks.get(superblockName);
+    if (!superblock) continue;
+
+    for (const chapter of superblock.chapters) {
+      chapters.set(chapterKey(superblockName, chapter.dashedName), chapter);
+      chapterList.push(chapter);
+
+      for (const module of chapter.modules) {
+        modules.set(
+          moduleKey(superblockName, chapter.dashedName, module.dashedName),
+          module
+        );
+        moduleList.push(module);
+        addTo(modulesBySuperblock, superblockName, module);
+        addTo(modulesByChapter, chapter.dashedName, module);
+
+        for (const blockName of module.blocks) {
+          addTo(placementsByBlock, blockName, {
+            superblockDashedName: superblockName,
+            chapterDashedName: chapter.dashedName,
+            moduleDashedName: module.dashedName,
+            blockDashedName: blockName,
+          });
+        }
+      }
+    }
+
+    // Legacy superblocks place their blocks directly
+    if (superblock.chapters.length === 0) {
+      for (const blockName of new Set(superblock.blocks)) {
+        addTo(placementsByBlock, blockName, {
+          superblockDashedName: superblockName,
+          chapterDashedName: null,
+          moduleDashedName: null,
+          blockDashedName: blockName,
+        });
+      }
+    }
+
+    // Blocks shared by several superblocks are listed once, at their first
+    // position; the same goes for challenges shared by several blocks
+    for (const blockName of superblock.blocks) {
+      const block = blocks.get(blockName);
+      if (!block || seenBlocks.has(blockName)) continue;
+      seenBlocks.add(blockName);
+
+      blockList.push(block);
+      if (block.blockLabel !== null) {
+        addTo(blocksByLabel, block.blockLabel, block);
+      }
+      addTo(blocksByLayout, block.blockLayout, block);
+      addTo(blocksByHelpCategory, block.helpCategory, block);
+
+      for (const challenge of block.challenges) {
+        if (seenChallenges.has(challenge.id)) continue;
+        seenChallenges.add(challenge.id);
+        challengeList.push(challenge);
+      }
+    }
+  }
+
+  return {
+    chapters,
+    modules,
+    chapterList: Object.freeze(chapterList),
+    moduleList: Object.freeze(moduleList),
+    modulesBySuperblock: freezeLists(modulesBySuperblock),
+    modulesByChapter: freezeLists(modulesByChapter),
+    blockList: Object.freeze(blockList),
+    challengeList: Object.freeze(challengeList),
+    blocksByLabel: freezeLists(blocksByLabel),
+    blocksByLayout: freezeLists(blocksByLayout),
+    blocksByHelpCategory: freezeLists(blocksByHelpCategory),
+    placementsByBlock: freezeLists(placementsByBlock),
+  };
+}
@@ -0,0 +1,312 @@
+import path from 'path';
+import {
+  type Result,
+  type DataStore,
+  type RawSuperblock,
+  type RawBlock,
+  type SuperblockData,
+  type BlockData,
+  type ChallengeMetadata,
+  type ValidationMode,
+  type SharedChallenge,
+  DataValidationError,
+} from './types.js';
+import {
+  loadCurriculumFile,
+  loadSuperblockFile,
+  loadBlockFile,
+} from './loader.js';
+import {
+  validateCurriculumReferences,
+  validateSuperblockReferences,
+  validateBlockEnums,
+  validateChallengeStructure,
+  collectChallengeBlocks,
+  validateChallengeUniqueness,
+} from './validators.js';
+import {
+  normalizeCurriculum,
+  normalizeSuperblock,
+  normalizeBlock,
+  linkSuperblockNavigation,
+} from './normalizer.js';
+import { buildDataStore } from './store.js';
+
+/**
+ * Stages of initializeDataStore reported to onPhase
+ * - load: reading curriculum, superblock and block files
+ * - validate: reference, enum, structure and uniqueness checks
+ * - normalize: building superblocks, blocks, challenges and navigation
+ * - index: building the DataStore's lookup indexes, search index and stats
+ */
+export type DataLoadPhase = 'load' | 'validate' | 'normalize' | 'index';
+
+export interface InitializeDataStoreOptions {
+  /** strict (default) fails on any error; lenient leaves broken files out */
+  readonly validationMode?: ValidationMode;
+  /** Challenge ids that may appear in several blocks on purpose */
+  readonly sharedChallengeIds?: readonly string[];
+  /** Called as each phase completes with the time it took */
+  readonly onPhase?: (phase: DataLoadPhase, durationMs: number) => void;
+}
+
+/**
+ * Collect all block names referenced by a superblock
+ * Supports both legacy (flat blocks) and new v9 (chapters/modules) structures
+ */
+function collectBlockNames(superblock: RawSuperblock): string[] {
+  const blockNames: string[] = [];
+
+  // Legacy structure (flat blocks)
+  if (superblock.blocks) {
+    blockNames.push(...superblock.blocks);
+  }
+
+  // New v9 structure (chapters/modules)
+  if (superblock.chapters) {
+    for (const chapter of superblock.chapters) {
+      for (const module of chapter.modules) {
+        blockNames.push(...module.blocks);
+      }
+    }
+  }
+
+  return blockNames;
+}
+
+/**
+ * Drop references to excluded blocks from a raw superblock (lenient mode)
+ */
+function withoutBlocks(
+  superblock: RawSuperblock,
+  excluded: ReadonlySet<string>
+): RawSuperblock {
+  const keep = (name: string) => !excluded.has(name);
+  return {
+    ...superblock,
+    ...(superblock.blocks && { blocks: superblock.blocks.filter(keep) }),
+    ...(superblock.chapters && {
+      chapters: superblock.chapters.map((chapter) => ({
+        ...chapter,
+        modules: chapter.modules.map((module) => ({
+          ...module,
+          blocks: module.blocks.filter(keep),
+        })),
+      })),
+    }),
+  };
+}
+
+/**
+ * Initialize DataStore from curriculum JSON files
+ * Orchestrates the full data loading pipeline:
+ * 1. Load all JSON files in parallel
+ * 2. Validate all references and enums, collecting every error
+ * 3. Normalize Raw types to internal types
+ * 4. Build DataStore with readonly Maps
+ *
+ * In strict mode any error fails initialization. In lenient mode broken
+ * superblocks and blocks are left out and the errors are recorded in
+ * DataStore.diagnostics. A broken curriculum.json always fails.
+ *
+ * @param dataPath Absolute path to data/structure/ directory
+ * @param options Validation mode
+ * @returns Result containing fully initialized DataStore or every error found
+ */
+export async function initializeDataStore(
+  dataPath: string,
+  options: InitializeDataStoreOptions = {}
+): Promise<Result<DataStore, readonly DataValidationError[]>> {
+  const validationMode = options.validationMode ?? 'strict';
+  const errors: DataValidationError[] = [];
+  let phaseStartedAt = performance.now();
+  const endPhase = (phase: DataLoadPhase) => {
+    const now = performance.now();
+    options.onPhase?.(phase, now - phaseStartedAt);
+    phaseStartedAt = now;
+  };
+
+  // Phase 1: Load curriculum.json
+  const curriculumResult = await loadCurriculumFile(dataPath);
+  if (!curriculumResult.success) return curriculumResult;
+  const rawCurriculum = curriculumResult.data;
+
+  // Phase 2: Load all superblocks in parallel
+  const superblockNames = rawCurriculum.superblocks;
+  const superblockResults = await Promise.all(
+    superblockNames.map((name) => loadSuperblockFile(name, dataPath))
+  );
+  const rawSuperblocks = new Map<string, RawSuperblock>();
+  const excludedSuperblocks: string[] = [];
+  for (let i = 0; i < superblockNames.length; i++) {
+    const name = superblockNames[i];
+    const result = superblockResults[i];
+    if (!name || !result) continue;
+    if (result.success) {
+      rawSuperblocks.set(name, result.data);
+    } else {
+      errors.push(...result.error);
+      excludedSuperblocks.push(name);
+    }
+  }
+
+  // Phase 3: Collect all block names from all superblocks
+  // Note: Blocks can belong to multiple superblocks, so names are deduplicated
+  const allBlockNames = [
+    ...new Set(Array.from(rawSuperblocks.values()).flatMap(collectBlockNames)),
+  ];
+
+  // Phase 4: Load all blocks in parallel
+  const blockResults = await Promise.all(
+    allBlockNames.map((name) => loadBlockFile(name, dataPath))
+  );
+  const rawBlocks = new Map<string, RawBlock>();
+  const excludedBlocks = new Set<string>();
+  for (let i = 0; i < allBlockNames.length; i++) {
+    const name = allBlockNames[i];
+    const result = blockResults[i];
+    if (!name || !result) continue;
+    if (result.success) {
+      rawBlocks.set(name, result.data);
+    } else {
+      errors.push(...result.error);
+      excludedBlocks.add(name);
+    }
+  }
+  endPhase('load');
+
+  // Phase 5: Validate all references
+  // Blocks that failed to load are already reported above, so reference
+  // checks only run once every referenced file was read
+  const curriculumValidation = validateCurriculumReferences();
+  if (!curriculumValidation.success) errors.push(...curriculumValidation.error);
+
+  if (excludedBlocks.size === 0) {
+    const superblockValidation = validateSuperblockReferences(
+      rawSuperblocks,
+      rawBlocks
+    );
+    if (!superblockValidation.success) {
+      errors.push(...superblockValidation.error);
+    }
+  }
+
+  // Phase 6: Validate enums and challenge structure
+  const blockPath = (blockName: string) =>
+    path.join(dataPath, 'blocks', `${blockName}.json`);
+  for (const [blockName, block] of rawBlocks) {
+    const validations = [
+      validateBlockEnums(block, blockPath(blockName)),
+      validateChallengeStructure(block.challengeOrder, blockPath(blockName)),
+    ];
+
+    for (const validation of validations) {
+      if (!validation.success) {
+        errors.push(...validation.error);
+        excludedBlocks.add(blockName);
+      }
+    }
+  }
+
+  // Phase 6b: Validate challenge ids are unique across blocks
+  // Only structurally valid blocks are checked; the first block listing an
+  // id owns it, later duplicates are errors unless allow-listed as shared
+  const sharedChallengeIds = new Set(options.sharedChallengeIds);
+  const challengeBlocks = collectChallengeBlocks(
+    new Map(Array.from(rawBlocks).filter(([name]) => !excludedBlocks.has(name)))
+  );
+  const uniqueness = validateChallengeUniqueness(
+    challengeBlocks,
+    blockPath,
+    sharedChallengeIds
+  );
+  const sharedChallenges: SharedChallenge[] = [];
+  for (const [id, [firstBlock, ...otherBlocks]] of challengeBlocks) {
+    if (!firstBlock || otherBlocks.length === 0) continue;
+    if (sharedChallengeIds.has(id)) {
+      sharedChallenges.push({
+        id,
+        blockDashedNames: [firstBlock, ...otherBlocks],
+      });
+    } else {
+      for (const blockName of otherBlocks) excludedBlocks.add(blockName);
+    }
+  }
+  if (!uniqueness.success) errors.push(...uniqueness.error);
+  endPhase('validate');
+
+  if (errors.length > 0 && validationMode === 'strict') {
+    return { success: false, error: errors };
+  }
+
+  // Lenient mode: leave broken blocks out of the store
+  for (const blockName of excludedBlocks) {
+    rawBlocks.delete(blockName);
+  }
+
+  // Phase 7: Normalize curriculum
+  const normalizedCurriculum = normalizeCurriculum(rawCurriculum);
+  const curriculum = {
+    ...normalizedCurriculum,
+    superblocks: normalizedCurriculum.superblocks.filter((name) =>
+      rawSuperblocks.has(name)
+    ),
+  };
+  const certSet = new Set(curriculum.certifications);
+
+  // Phase 8: Normalize all superblocks (both legacy and v9 structures)
+  const superblocks = new Map<string, SuperblockData>(
+    Array.from(rawSuperblocks.entries()).map(([name, raw]) => [
+      name,
+      normalizeSuperblock(name, withoutBlocks(raw, excludedBlocks), certSet),
+    ])
+  );
+
+  // Phase 9: Build block-to-superblocks mapping (for reverse references)
+  // Note: Blocks can belong to multiple superblocks in v9 curriculum
+  const blockToSuperblocks = new Map<string, string[]>();
+  for (const [superblockName, superblock] of superblocks) {
+    for (const blockName of superblock.blocks) {
+      if (!blockToSuperblocks.has(blockName)) {
+        blockToSuperblocks.set(blockName, []);
+      }
+      blockToSuperblocks.get(blockName)!.push(superblockName);
+    }
+  }
+
+  // Phase 10: Normalize blocks with reverse references
+  const normalizedBlocks = new Map<string, BlockData>(
+    Array.from(rawBlocks.entries()).map(([name, raw]) => {
+      const superblockNames = blockToSuperblocks.get(name);
+      if (!superblockNames || superblockNames.length === 0) {
+        throw new Error(`Block "${name}" has no parent superblock`);
+      }
+      return [name, normalizeBlock(name, raw, superblockNames)];
+    })
+  );
+
+  // Phase 10b: Link each block's last challenge to the next block's first
+  const blocks = linkSuperblockNavigation(superblocks, normalizedBlocks);
+
+  // Phase 11: Build challenge Map (challenges already normalized in normalizeBlock)
+  // Shared challenges keep the metadata of the first block that lists them
+  const challenges = new Map<string, ChallengeMetadata>();
+  for (const block of blocks.values()) {
+    for (const challenge of block.challenges) {
+      if (!challenges.has(challenge.id)) {
+        challenges.set(challenge.id, challenge);
+      }
+    }
+  }
+  endPhase('normalize');
+
+  // Phase 12: Build and return DataStore
+  const store = buildDataStore(curriculum, superblocks, blocks, challenges, {
+    validationErrors: errors,
+    excludedSuperblocks,
+    excludedBlocks: [...excludedBlocks],
+    sharedChallenges,
+  });
+  endPhase('index');
+  return { success: true, data: store };
+}
@@ -7,92 +7,103 @@ import {
   type Result,
   DataValidationError,
 } from './types.js';
+import {
+  type JsonSchema,
+  RAW_CURRICULUM_SCHEMA,
+  RAW_SUPERBLOCK_SCHEMA,
+  RAW_BLOCK_SCHEMA,
+  validateSchema,
+} from './schemas.js';
 
 /**
  * File I/O operations for loading curriculum JSON files
- * All functions return Result<T, DataValidationError> for type-safe error handling
+ * All functions return Result<T, DataValidationError[]> for type-safe error handling
+ * Parsed JSON is checked against its schema before it is typed as Raw*
  */
 
 /**
- * Load curriculum.json file from data/structure/ directory
- * @param dataPath Absolute path to data/structure/ directory
- * @returns Result containing RawCurriculum or error with file path
+ * Read, parse and structurally validate a JSON file
+ * @param filePath Absolute path to the JSON file
+ * @param schema Schema describing the expected structure
+ * @param label Description used in read/parse error messages
+ * @returns Result containing the validated data or every structural error
  */
-export async function loadCurriculumFile(
-  dataPath: string
-): Promise<Result<RawCurriculum, DataValidationError>> {
-  const filePath = path.join(dataPath, 'curriculum.json');
-
+async function readJsonFile<T>(
+  filePath: string,
+  schema: JsonSchema,
+  label: string
+): Promise<Result<T, readonly DataValidationError[]>> {
+  let data: unknown;
   try {
     const content = await fs.readFile(filePath, 'utf-8');
-    const data = JSON.parse(content) as RawCurriculum;
-    return { success: true, data };
+    data = JSON.parse(content);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     return {
       success: false,
-      error: new DataValidationError(
-        `Failed to load curriculum.json: ${message}`,
-        filePath
-      ),
+      error: [
+        new DataValidationError(
+          `Failed to load ${label}: ${message}`,
+          filePath
+        ),
+      ],
     };
   }
+
+  const errors = validateSchema(data, schema, filePath);
+  if (errors.length > 0) return { success: false, error: errors };
+
+  // Structure verified against the schema above
+  return { success: true, data: data as T };
+}
+
+/**
+ * Load curriculum.json file from data/structure/ directory
+ * @param dataPath Absolute path to data/structure/ directory
+ * @returns Result containing RawCurriculum or errors with file path and field
+ */
+export async function loadCurriculumFile(
+  dataPath: string
+): Promise<Result<RawCurriculum, readonly DataValidationError[]>> {
+  return readJsonFile<RawCurriculum>(
+    path.join(dataPath, 'curriculum.json'),
+    RAW_CURRICULUM_SCHEMA,
+    'curriculum.json'
+  );
 }
 
 /**
  * Load a single superblock JSON file
  * @param dashedName Superblock identifier (e.g., "responsive-web-design")
  * @param dataPath Absolute path to data/structure/ directory
- * @returns Result containing RawSuperblock or error with file path
+ * @returns Result containing RawSuperblock or errors with file path and field
  */
 export async function loadSuperblockFile(
   dashedName: string,
   dataPath: string
-): Promise<Result<RawSuperblock, DataValidationError>> {
-  const filePath = path.join(dataPath, 'superblocks', `${dashedName}.json`);
-
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const data = JSON.parse(content) as RawSuperblock;
-    return { success: true, data };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return {
-      success: false,
-      error: new DataValidationError(
-        `Failed to load superblock "${dashedName}": ${message}`,
-        filePath
-      ),
-    };
-  }
+): Promise<Result<RawSuperblock, readonly DataValidationError[]>> {
+  return readJsonFile<RawSuperblock>(
+    path.join(dataPath, 'superblocks', `${dashedName}.json`),
+    RAW_SUPERBLOCK_SCHEMA,
+    `superblock "${dashedName}"`
+  );
 }
 
 /**
  * Load a single block JSON file
  * @param dashedName Block identifier (e.g., "basic-html")
  * @param dataPath Absolute path to data/structure/ directory
- * @returns Result containing RawBlock or error with file path
+ * @returns Result containing RawBlock or errors with file path and field
  */
 export async function loadBlockFile(
   dashedName: string,
   dataPath: string
-): Promise<Result<RawBlock, DataValidationError>> {
-  const filePath = path.join(dataPath, 'blocks', `${dashedName}.json`);
-
-  try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const data = JSON.parse(content) as RawBlock;
-    return { success: true, data };
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    return {
-      success: false,
-      error: new DataValidationError(
-        `Failed to load block "${dashedName}": ${message}`,
-        filePath
-      ),
-    };
-  }
+): Promise<Result<RawBlock, readonly DataValidationError[]>> {
+  return readJsonFile<RawBlock>(
+    path.join(dataPath, 'blocks', `${dashedName}.json`),
+    RAW_BLOCK_SCHEMA,
+    `block "${dashedName}"`
+  );
 }
 
 /**
@@ -104,7 +115,7 @@ export async function loadBlockFile(
 export async function loadAllSuperblocks(
   superblockNames: readonly string[],
   dataPath: string
-): Promise<Result<Map<string, RawSuperblock>, DataValidationError>> {
+): Promise<Result<Map<string, RawSuperblock>, readonly DataValidationError[]>> {
   const results = await Promise.all(
     superblockNames.map((name) => loadSuperblockFile(name, dataPath))
   );
@@ -138,7 +149,7 @@ export async function loadAllSuperblocks(
 export async function loadAllBlocks(
   blockNames: readonly string[],
   dataPath: string
-): Promise<Result<Map<string, RawBlock>, DataValidationError>> {
+): Promise<Result<Map<string, RawBlock>, readonly DataValidationError[]>> {
   const results = await Promise.all(
     blockNames.map((name) => loadBlockFile(name, dataPath))
   );
@@ -0,0 +1,112 @@
+import type { CacheStats } from './types.js';
+
+/**
+ * Byte-bounded LRU cache
+ * Evicts least recently used entries once the estimated size exceeds the limit
+ */
+
+export interface LRUCacheOptions<V> {
+  readonly maxBytes: number;
+  readonly sizeOf: (value: V) => number;
+}
+
+interface CacheEntry<V> {
+  readonly value: V;
+  readonly size: number;
+}
+
+/**
+ * LRU cache keyed by insertion order of a Map
+ * Map iteration order doubles as recency order: get() re-inserts the entry,
+ * so the first key is always the least recently used one.
+ */
+export class LRUCache<K, V> {
+  private readonly entries = new Map<K, CacheEntry<V>>();
+  private sizeBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private readonly options: LRUCacheOptions<V>) {}
+
+  /**
+   * Get a cached value and mark it as most recently used
+   * @param key Cache key
+   * @returns Cached value or undefined on a miss
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Check for a key without affecting recency or counters
+   */
+  has(key: K): boolean {
+    return this.entries.has(key);
+  }
+
+  /**
+   * Store a value, evicting least recently used entries to stay under maxBytes
+   * Values larger than maxBytes on their own are not cached
+   * @param key Cache key
+   * @param value Value to cache
+   */
+  set(key: K, value: V): void {
+    const size = this.options.sizeOf(value);
+    this.delete(key);
+    if (size > this.options.maxBytes) return;
+
+    this.entries.set(key, { value, size });
+    this.sizeBytes += size;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.sizeBytes <= this.options.maxBytes) break;
+      this.entries.delete(oldestKey);
+      this.sizeBytes -= oldest.size;
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Remove a single entry
+   * @returns True if an entry was removed
+   */
+  delete(key: K): boolean {
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+    this.entries.delete(key);
+    this.sizeBytes -= entry.size;
+    return true;
+  }
+
+  /**
+   * Remove all entries (counters are kept)
+   */
+  clear(): void {
+    this.entries.clear();
+    this.sizeBytes = 0;
+  }
+
+  /**
+   * Get current cache counters and size
+   */
+  stats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.entries.size,
+      sizeBytes: this.sizeBytes,
+      maxSizeBytes: this.options.maxBytes,
+    };
+  }
+}
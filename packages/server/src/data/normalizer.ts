@@ -10,6 +10,7 @@ import {
   type RawRequiredResource,
   BlockLayout,
   BlockLabel,
+  SuperblockStructure,
   type CurriculumData,
   type SuperblockData,
   type ChapterData,
@@ -24,6 +25,9 @@ import {
  * Converts Raw JSON types to Normalized internal types
  */
 
+// Shared by every challenge that is not the last of its block
+const NO_NEXT_BLOCKS: ReadonlyMap<string, string> = new Map();
+
 // Enum mapping tables
 const BLOCK_LAYOUT_MAPPING: Record<RawBlockLayout, BlockLayout> = {
   link: BlockLayout.LINK,
@@ -152,7 +156,8 @@ export function normalizeChapter(
 }
 
 /**
- * Normalize superblock with computed isCertification flag
+ * Normalize superblock with computed structure, comingSoon and
+ * isCertification flags
  * Supports both legacy (flat blocks) and new (hierarchical chapters/modules) structures
  * @param dashedName Superblock identifier
  * @param raw Raw superblock from JSON
@@ -193,6 +198,11 @@ export function normalizeSuperblock(
     dashedName,
     blocks: flattenedBlocks,
     chapters,
+    structure: raw.chapters
+      ? SuperblockStructure.CHAPTERED
+      : SuperblockStructure.LEGACY,
+    comingSoon:
+      chapters.length > 0 && chapters.every((chapter) => chapter.comingSoon),
     isCertification: certifications.has(dashedName),
   };
 }
@@ -213,8 +223,8 @@ export function normalizeBlock(
     name: raw.name,
     dashedName,
     helpCategory: raw.helpCategory,
-    challenges: raw.challengeOrder.map((ch) =>
-      normalizeChallengeMetadata(ch, dashedName)
+    challenges: raw.challengeOrder.map((ch, order, challengeOrder) =>
+      normalizeChallengeMetadata(ch, dashedName, order, challengeOrder)
     ),
     blockLayout: normalizeBlockLayout(raw.blockLayout),
     blockLabel: normalizeBlockLabel(raw.blockLabel),
@@ -230,19 +240,80 @@ export function normalizeBlock(
 }
 
 /**
- * Normalize challenge metadata extracting only id and title
+ * Normalize challenge metadata extracting only id, title and position
  * DELIBERATELY IGNORES all content fields (description, instructions, tests, solutions)
  * @param raw Raw challenge from challengeOrder
  * @param blockDashedName Parent block identifier
- * @returns Challenge metadata with reverse reference
+ * @param order Index of the challenge in challengeOrder
+ * @param challengeOrder The block's full challengeOrder (for previous/next)
+ * @returns Challenge metadata with reverse reference and in-block navigation
  */
 export function normalizeChallengeMetadata(
   raw: RawChallenge,
-  blockDashedName: string
+  blockDashedName: string,
+  order: number,
+  challengeOrder: readonly RawChallenge[]
 ): ChallengeMetadata {
   return {
     id: raw.id,
     title: raw.title,
     blockDashedName,
+    order,
+    previousChallengeId: challengeOrder[order - 1]?.id ?? null,
+    nextChallengeId: challengeOrder[order + 1]?.id ?? null,
+    nextInSuperblock: NO_NEXT_BLOCKS,
   };
 }
+
+/**
+ * Link the last challenge of every block to the first challenge of the
+ * following block in each parent superblock
+ * Follows chapter/module order (as flattened in SuperblockData.blocks) and
+ * skips blocks without challenges
+ * @param superblocks Normalized superblocks
+ * @param blocks Normalized blocks
+ * @returns Blocks whose last challenge carries its nextInSuperblock links
+ */
+export function linkSuperblockNavigation(
+  superblocks: ReadonlyMap<string, SuperblockData>,
+  blocks: ReadonlyMap<string, BlockData>
+): Map<string, BlockData> {
+  // block dashedName → superblock dashedName → next challenge id
+  const links = new Map<string, Map<string, string>>();
+  for (const [superblockName, superblock] of superblocks) {
+    const ordered = [...new Set(superblock.blocks)].filter(
+      (name) => (blocks.get(name)?.challenges.length ?? 0) > 0
+    );
+    for (let i = 0; i < ordered.length - 1; i++) {
+      const current = ordered[i];
+      const next = ordered[i + 1];
+      const firstChallenge = next && blocks.get(next)?.challenges[0];
+      if (!current || !firstChallenge) continue;
+
+      let blockLinks = links.get(current);
+      if (!blockLinks) {
+        blockLinks = new Map();
+        links.set(current, blockLinks);
+      }
+      blockLinks.set(superblockName, firstChallenge.id);
+    }
+  }
+
+  return new Map(
+    Array.from(blocks, ([name, block]) => {
+      const blockLinks = links.get(name);
+      const last = block.challenges.at(-1);
+      if (!blockLinks || !last) return [name, block];
+      return [
+        name,
+        {
+          ...block,
+          challenges: [
+            ...block.challenges.slice(0, -1),
+            { ...last, nextInSuperblock: blockLinks },
+          ],
+        },
+      ];
+    })
+  );
+}
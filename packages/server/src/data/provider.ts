@@ -1,10 +1,17 @@
 import type {
-  DataProvider,
+  ReloadableDataProvider,
   DataStore,
+  ContentSource,
   CurriculumData,
   SuperblockData,
   BlockData,
   ChallengeMetadata,
+  ChallengeContent,
+  CacheStats,
+  DataStoreIndexes,
+  CurriculumStats,
+  SearchOptions,
+  SearchHit,
 } from './types.js';
 
 /**
@@ -15,9 +22,13 @@ import type {
 /**
  * In-memory implementation of DataProvider interface
  * Provides O(1) access to curriculum metadata from readonly Maps
+ * The DataStore itself is immutable; hot reload swaps in a new one
  */
-export class InMemoryDataProvider implements DataProvider {
-  constructor(private readonly store: DataStore) {}
+export class InMemoryDataProvider implements ReloadableDataProvider {
+  constructor(
+    private store: DataStore,
+    private readonly contentSource: ContentSource | null = null
+  ) {}
 
   /**
    * Get top-level curriculum data
@@ -53,4 +64,70 @@ export class InMemoryDataProvider implements DataProvider {
   getChallenge(id: string): ChallengeMetadata | null {
     return this.store.challenges.get(id) ?? null;
   }
+
+  /**
+   * Get full challenge content from the content source
+   * @param id Challenge UUID identifier
+   * @returns ChallengeContent, or null if the challenge is unknown,
+   *   no content source is configured, or the source has no content for it
+   * @throws DataValidationError if content exists but cannot be loaded
+   */
+  async getChallengeContent(id: string): Promise<ChallengeContent | null> {
+    const challenge = this.store.challenges.get(id);
+    if (!challenge || !this.contentSource) return null;
+
+    const result = await this.contentSource.loadChallengeContent(challenge);
+    if (!result.success) throw result.error;
+    return result.data;
+  }
+
+  /**
+   * Content is read straight from the source, so there is no cache
+   * @returns Always null
+   */
+  getContentCacheStats(): CacheStats | null {
+    return null;
+  }
+
+  /**
+   * Get the precomputed secondary indexes
+   * @returns Chapter/module lookups, ordered lists and block groupings
+   */
+  getIndexes(): DataStoreIndexes {
+    return this.store.indexes;
+  }
+
+  /**
+   * Get the precomputed aggregate counts
+   * @returns Totals, block breakdowns and per-superblock counts
+   */
+  getStats(): CurriculumStats {
+    return this.store.stats;
+  }
+
+  /**
+   * Full-text search over names and titles
+   * @param query Free text, e.g. "basic css flexbox"
+   * @param options Type filter and result limit
+   * @returns Ranked hits with their breadcrumbs
+   */
+  search(query: string, options?: SearchOptions): readonly SearchHit[] {
+    return this.store.searchIndex.search(query, options);
+  }
+
+  /**
+   * Pin the current DataStore so a request never sees a mid-flight reload
+   * @returns Provider bound to the current DataStore
+   */
+  snapshot(): InMemoryDataProvider {
+    return new InMemoryDataProvider(this.store, this.contentSource);
+  }
+
+  /**
+   * Atomically swap in a newly loaded DataStore
+   * @param store Fully validated replacement DataStore
+   */
+  replaceStore(store: DataStore): void {
+    this.store = store;
+  }
 }
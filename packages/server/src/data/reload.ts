@@ -0,0 +1,135 @@
+import { watch, type FSWatcher } from 'node:fs';
+import {
+  type DataStore,
+  type ReloadableDataProvider,
+  type Result,
+  DataValidationError,
+} from './types.js';
+import {
+  initializeDataStore,
+  type InitializeDataStoreOptions,
+} from './initialize.js';
+
+/**
+ * Hot reload of curriculum data
+ * Builds a new DataStore in the background and swaps it into the provider
+ * only once it has loaded and validated
+ */
+
+export type ReloadResult = Result<DataStore, readonly DataValidationError[]>;
+
+export interface DataReloaderOptions extends InitializeDataStoreOptions {
+  readonly dataPath: string;
+  /** Quiet period after the last file change before reloading */
+  readonly debounceMs?: number;
+  /** Called after every reload with the time it took to load the data */
+  readonly onReload?: (result: ReloadResult, durationMs: number) => void;
+  readonly onWatchError?: (error: Error) => void;
+  /** Called when a watch-triggered reload throws (e.g. from onReload) */
+  readonly onReloadError?: (error: unknown) => void;
+}
+
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/**
+ * Reloads DATA_PATH into a ReloadableDataProvider
+ * At most one reload runs at a time; triggers that arrive meanwhile are
+ * coalesced into a single follow-up reload so the latest files win.
+ */
+export class DataReloader {
+  private running: Promise<ReloadResult> | null = null;
+  private queued: Promise<ReloadResult> | null = null;
+  private watcher: FSWatcher | null = null;
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly provider: ReloadableDataProvider,
+    private readonly options: DataReloaderOptions
+  ) {}
+
+  /**
+   * Load, validate and swap in a fresh DataStore
+   * On failure the current store keeps serving
+   * @returns The new DataStore or every error that blocked the swap
+   */
+  reload(): Promise<ReloadResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+      return this.running;
+    }
+
+    if (!this.queued) {
+      // The follow-up runs whether or not the running reload threw
+      const next = () => {
+        this.queued = null;
+        return this.reload();
+      };
+      this.queued = this.running.then(next, next);
+    }
+    return this.queued;
+  }
+
+  /**
+   * Reload whenever files under dataPath change (debounced)
+   */
+  watch(): void {
+    if (this.watcher) return;
+
+    this.watcher = watch(this.options.dataPath, { recursive: true }, () => {
+      this.scheduleReload();
+    });
+    this.watcher.on('error', (error) => {
+      this.close();
+      this.options.onWatchError?.(error);
+    });
+  }
+
+  /**
+   * Stop watching and cancel any pending debounced reload
+   */
+  close(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    this.watcher?.close();
+    this.watcher = null;
+  }
+
+  private scheduleReload(): void {
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.reload().catch((error: unknown) => {
+        this.options.onReloadError?.(error);
+      });
+    }, this.options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  }
+
+  private async run(): Promise<ReloadResult> {
+    const startedAt = performance.now();
+    let result: ReloadResult;
+    try {
+      result = await initializeDataStore(this.options.dataPath, this.options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result = {
+        success: false,
+        error: [
+          new DataValidationError(
+            `Failed to reload curriculum data: ${message}`,
+            this.options.dataPath
+          ),
+        ],
+      };
+    }
+
+    if (result.success) {
+      this.provider.replaceStore(result.data);
+    }
+    this.options.onReload?.(result, performance.now() - startedAt);
+    return result;
+  }
+}
@@ -0,0 +1,260 @@
+import { DataValidationError } from './types.js';
+import { VALID_BLOCK_LAYOUTS, VALID_BLOCK_LABELS } from './validators.js';
+
+/**
+ * Structural schemas for raw curriculum JSON files
+ * Written as plain JSON Schema (2020-12 subset) so the same definitions
+ * validate files at load time and can be exported for editor support
+ */
+
+/**
+ * Subset of JSON Schema understood by validateSchema()
+ * Unknown properties are allowed so new upstream fields don't break loading
+ */
+export interface JsonSchema {
+  readonly $schema?: string;
+  readonly $id?: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly type?: 'object' | 'array' | 'string' | 'boolean' | 'number';
+  readonly properties?: Readonly<Record<string, JsonSchema>>;
+  readonly required?: readonly string[];
+  readonly items?: JsonSchema;
+  readonly enum?: readonly string[];
+  readonly minLength?: number;
+  readonly anyOf?: readonly JsonSchema[];
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const DASHED_NAME: JsonSchema = { type: 'string', minLength: 1 };
+
+const DASHED_NAME_LIST: JsonSchema = { type: 'array', items: DASHED_NAME };
+
+export const RAW_CURRICULUM_SCHEMA: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: 'curriculum.schema.json',
+  title: 'Curriculum',
+  description: 'curriculum.json: superblock and certification identifiers',
+  type: 'object',
+  required: ['superblocks', 'certifications'],
+  properties: {
+    superblocks: DASHED_NAME_LIST,
+    certifications: DASHED_NAME_LIST,
+  },
+};
+
+export const RAW_MODULE_SCHEMA: JsonSchema = {
+  title: 'Module',
+  type: 'object',
+  required: ['dashedName', 'blocks'],
+  properties: {
+    dashedName: DASHED_NAME,
+    blocks: DASHED_NAME_LIST,
+    moduleType: { type: 'string' },
+    comingSoon: { type: 'boolean' },
+  },
+};
+
+export const RAW_CHAPTER_SCHEMA: JsonSchema = {
+  title: 'Chapter',
+  type: 'object',
+  required: ['dashedName', 'modules'],
+  properties: {
+    dashedName: DASHED_NAME,
+    modules: { type: 'array', items: RAW_MODULE_SCHEMA },
+    comingSoon: { type: 'boolean' },
+  },
+};
+
+export const RAW_SUPERBLOCK_SCHEMA: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: 'superblock.schema.json',
+  title: 'Superblock',
+  description:
+    'superblocks/<dashedName>.json: flat "blocks" (legacy) or "chapters"',
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    blocks: DASHED_NAME_LIST,
+    chapters: { type: 'array', items: RAW_CHAPTER_SCHEMA },
+  },
+};
+
+export const RAW_BLOCK_SCHEMA: JsonSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: 'block.schema.json',
+  title: 'Block',
+  description: 'blocks/<dashedName>.json: block metadata and challenge order',
+  type: 'object',
+  required: [
+    'name',
+    'dashedName',
+    'helpCategory',
+    'challengeOrder',
+    'blockLayout',
+    'isUpcomingChange',
+  ],
+  properties: {
+    name: { type: 'string' },
+    dashedName: DASHED_NAME,
+    helpCategory: { type: 'string' },
+    challengeOrder: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'title'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          title: { type: 'string', minLength: 1 },
+        },
+      },
+    },
+    blockLayout: { type: 'string', enum: VALID_BLOCK_LAYOUTS },
+    blockLabel: { type: 'string', enum: VALID_BLOCK_LABELS },
+    isUpcomingChange: { type: 'boolean' },
+    usesMultifileEditor: { type: 'boolean' },
+    hasEditableBoundaries: { type: 'boolean' },
+    disableLoopProtectTests: { type: 'boolean' },
+    disableLoopProtectPreview: { type: 'boolean' },
+    required: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          src: { type: 'string' },
+          link: { type: 'string' },
+        },
+        anyOf: [{ required: ['src'] }, { required: ['link'] }],
+      },
+    },
+    template: { type: 'string' },
+  },
+};
+
+/**
+ * Schemas exported for editor support, keyed by output file name
+ */
+export const RAW_JSON_SCHEMAS: Readonly<Record<string, JsonSchema>> = {
+  'curriculum.schema.json': RAW_CURRICULUM_SCHEMA,
+  'superblock.schema.json': RAW_SUPERBLOCK_SCHEMA,
+  'block.schema.json': RAW_BLOCK_SCHEMA,
+};
+
+/**
+ * Get the JSON type name of a parsed value
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Append a property name or array index to a field path
+ */
+function joinFieldPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Validate a parsed JSON value against a schema
+ * Collects every mismatch rather than stopping at the first
+ * @param value Parsed JSON value
+ * @param schema Schema to validate against
+ * @param filePath File path for error reporting
+ * @param fieldPath Path of value within the file (empty for the root)
+ * @returns Every mismatch, with field paths like "challengeOrder[2].title"
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  filePath: string,
+  fieldPath = ''
+): DataValidationError[] {
+  const error = (message: string) =>
+    new DataValidationError(
+      fieldPath ? `${fieldPath} ${message}` : `File ${message}`,
+      filePath,
+      fieldPath || undefined
+    );
+
+  const actualType = jsonTypeOf(value);
+  if (schema.type && actualType !== schema.type) {
+    return [error(`must be of type ${schema.type}, got ${actualType}`)];
+  }
+
+  const errors: DataValidationError[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.enum && !schema.enum.includes(value)) {
+      errors.push(
+        error(
+          `has invalid value "${value}". Valid values: ${schema.enum.join(', ')}`
+        )
+      );
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(error('must not be empty'));
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item: unknown, index) => {
+      errors.push(
+        ...validateSchema(
+          item,
+          items,
+          filePath,
+          joinFieldPath(fieldPath, index)
+        )
+      );
+    });
+  }
+
+  if (actualType === 'object') {
+    const object = value as Readonly<Record<string, unknown>>;
+
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) {
+        errors.push(
+          new DataValidationError(
+            `Missing required field "${key}"`,
+            filePath,
+            joinFieldPath(fieldPath, key)
+          )
+        );
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties ?? {}
+    )) {
+      if (object[key] === undefined) continue;
+      errors.push(
+        ...validateSchema(
+          object[key],
+          propertySchema,
+          filePath,
+          joinFieldPath(fieldPath, key)
+        )
+      );
+    }
+  }
+
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some(
+      (option) => validateSchema(value, option, filePath).length === 0
+    )
+  ) {
+    const alternatives = schema.anyOf
+      .map((option) => (option.required ?? []).join(' + '))
+      .join('" or "');
+    errors.push(error(`must have "${alternatives}"`));
+  }
+
+  return errors;
+}
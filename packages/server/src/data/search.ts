@@ -0,0 +1,286 @@
+import {
+  type CurriculumData,
+  type SuperblockData,
+  type BlockData,
+  type ChallengeMetadata,
+  type SearchIndex,
+  type SearchOptions,
+  type SearchHit,
+  SearchResultType,
+} from './types.js';
+
+/**
+ * Full-text search index
+ * Inverted index from lowercase terms to the curriculum entries whose
+ * names or titles contain them, built once per DataStore
+ */
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+
+// Query terms shorter than this only match whole terms
+const MIN_PREFIX_LENGTH = 2;
+
+// A prefix match ("flex" → "flexbox") counts half as much as a whole term
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// Field weights: an entry's own name beats the context it inherits
+const NAME_WEIGHT = 3;
+const HELP_CATEGORY_WEIGHT = 1;
+const PARENT_BLOCK_WEIGHT = 1;
+
+type SearchLocation = Omit<SearchHit, 'score'>;
+
+interface Posting {
+  readonly doc: number;
+  readonly weight: number;
+}
+
+/**
+ * Split text into lowercase alphanumeric terms
+ * Examples:
+ *   "Basic CSS" → ["basic", "css"]
+ *   "Use display: flex to Position Two Boxes" → ["use", "display", "flex", ...]
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * In-memory inverted index
+ * Documents are numbered in curriculum order, which breaks score ties
+ */
+class InvertedSearchIndex implements SearchIndex {
+  private readonly documents: SearchLocation[] = [];
+  private readonly postings = new Map<string, Map<number, number>>();
+  private sortedTerms: readonly string[] = [];
+
+  /**
+   * Index one curriculum entry
+   * @param location Entry type and breadcrumb
+   * @param fields Searchable text with its weight
+   */
+  add(
+    location: SearchLocation,
+    fields: readonly (readonly [text: string, weight: number])[]
+  ): void {
+    const doc = this.documents.push(location) - 1;
+
+    for (const [text, weight] of fields) {
+      for (const term of tokenize(text)) {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        docs.set(doc, Math.max(docs.get(doc) ?? 0, weight));
+      }
+    }
+  }
+
+  /**
+   * Freeze the vocabulary for prefix lookups once all entries are added
+   */
+  finish(): this {
+    this.sortedTerms = [...this.postings.keys()].sort();
+    return this;
+  }
+
+  /**
+   * Rank entries matching any query term
+   * Each query term adds the weight of its best match in the entry, and
+   * the total is scaled by the share of query terms that matched
+   * @param query Free text, e.g. "basic css flexbox"
+   * @param options Type filter and result limit
+   * @returns Hits ordered by score, then curriculum order
+   */
+  search(query: string, options: SearchOptions = {}): SearchHit[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) return [];
+
+    const types = options.types ? new Set(options.types) : null;
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+
+    const totals = new Map<number, { score: number; matched: number }>();
+    for (const queryTerm of queryTerms) {
+      const best = new Map<number, number>();
+      for (const posting of this.match(queryTerm)) {
+        const location = this.documents[posting.doc];
+        if (!location || (types && !types.has(location.type))) continue;
+        best.set(
+          posting.doc,
+          Math.max(best.get(posting.doc) ?? 0, posting.weight)
+        );
+      }
+
+      for (const [doc, weight] of best) {
+        const total = totals.get(doc) ?? { score: 0, matched: 0 };
+        totals.set(doc, {
+          score: total.score + weight,
+          matched: total.matched + 1,
+        });
+      }
+    }
+
+    const ranked = [...totals]
+      .map(([doc, { score, matched }]) => ({
+        doc,
+        score: (score * matched) / queryTerms.length,
+      }))
+      .sort((a, b) => b.score - a.score || a.doc - b.doc)
+      .slice(0, limit);
+
+    return ranked.flatMap(({ doc, score }) => {
+      const location = this.documents[doc];
+      return location ? [{ ...location, score }] : [];
+    });
+  }
+
+  /**
+   * Find postings for a query term: whole-term matches at full weight,
+   * longer terms starting with it at reduced weight
+   */
+  private *match(queryTerm: string): Generator<Posting> {
+    if (queryTerm.length < MIN_PREFIX_LENGTH) {
+      for (const [doc, weight] of this.postings.get(queryTerm) ?? []) {
+        yield { doc, weight };
+      }
+      return;
+    }
+
+    for (
+      let i = lowerBound(this.sortedTerms, queryTerm);
+      i < this.sortedTerms.length;
+      i++
+    ) {
+      const term = this.sortedTerms[i];
+      if (term === undefined || !term.startsWith(queryTerm)) break;
+
+      const factor = term === queryTerm ? 1 : PREFIX_MATCH_FACTOR;
+      for (const [doc, weight] of this.postings.get(term) ?? []) {
+        yield { doc, weight: weight * factor };
+      }
+    }
+  }
+}
+
+/**
+ * Index of the first element not less than value in a sorted array
+ */
+function lowerBound(sorted: readonly string[], value: string): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    const item = sorted[mid];
+    if (item !== undefined && item < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Build the search index from normalized data
+ * Entries are visited in curriculum order; a block shared by several
+ * superblocks (and its challenges) is indexed under the first one
+ * @param curriculum Normalized curriculum data
+ * @param superblocks Map of dashedName → SuperblockData
+ * @param blocks Map of dashedName → BlockData
+ * @param challenges Map of id → ChallengeMetadata
+ * @returns SearchIndex over superblocks, blocks and challenges
+ */
+export function buildSearchIndex(
+  curriculum: CurriculumData,
+  superblocks: ReadonlyMap<string, SuperblockData>,
+  blocks: ReadonlyMap<string, BlockData>,
+  challenges: ReadonlyMap<string, ChallengeMetadata>
+): SearchIndex {
+  const index = new InvertedSearchIndex();
+  const indexedBlocks = new Set<string>();
+
+  const addBlock = (
+    superblockDashedName: string,
+    blockDashedName: string,
+    chapterDashedName: string | null,
+    moduleDashedName: string | null
+  ) => {
+    const block = blocks.get(blockDashedName);
+    if (!block || indexedBlocks.has(blockDashedName)) return;
+    indexedBlocks.add(blockDashedName);
+
+    const breadcrumb = {
+      superblockDashedName,
+      chapterDashedName,
+      moduleDashedName,
+      blockDashedName,
+    };
+
+    index.add(
+      { type: SearchResultType.BLOCK, ...breadcrumb, challengeId: null },
+      [
+        [block.name, NAME_WEIGHT],
+        [block.helpCategory, HELP_CATEGORY_WEIGHT],
+      ]
+    );
+
+    for (const challenge of block.challenges) {
+      // Shared challenges are owned by the first block listing them
+      if (challenges.get(challenge.id)?.blockDashedName !== block.dashedName) {
+        continue;
+      }
+      index.add(
+        {
+          type: SearchResultType.CHALLENGE,
+          ...breadcrumb,
+          challengeId: challenge.id,
+        },
+        [
+          [challenge.title, NAME_WEIGHT],
+          [block.name, PARENT_BLOCK_WEIGHT],
+        ]
+      );
+    }
+  };
+
+  for (const superblockDashedName of curriculum.superblocks) {
+    const superblock = superblocks.get(superblockDashedName);
+    if (!superblock) continue;
+
+    index.add(
+      {
+        type: SearchResultType.SUPERBLOCK,
+        superblockDashedName,
+        chapterDashedName: null,
+        moduleDashedName: null,
+        blockDashedName: null,
+        challengeId: null,
+      },
+      [[superblock.name, NAME_WEIGHT]]
+    );
+
+    for (const chapter of superblock.chapters) {
+      for (const module of chapter.modules) {
+        for (const blockDashedName of module.blocks) {
+          addBlock(
+            superblockDashedName,
+            blockDashedName,
+            chapter.dashedName,
+            module.dashedName
+          );
+        }
+      }
+    }
+
+    // Legacy superblocks list blocks without chapters
+    for (const blockDashedName of superblock.blocks) {
+      addBlock(superblockDashedName, blockDashedName, null, null);
+    }
+  }
+
+  return index.finish();
+}
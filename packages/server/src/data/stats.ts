@@ -0,0 +1,150 @@
+import type {
+  BlockData,
+  BlockLabelCount,
+  BlockLayoutCount,
+  ChapterData,
+  ChapterStats,
+  CurriculumData,
+  CurriculumStats,
+  DataStoreIndexes,
+  ModuleData,
+  ModuleStats,
+  SuperblockData,
+  SuperblockStats,
+} from './types.js';
+import { BlockLabel, BlockLayout } from './types.js';
+
+/**
+ * Curriculum statistics
+ * Aggregate counts computed once per DataStore and shared by the stats
+ * query, the health check and the startup log.
+ */
+
+/**
+ * Count blocks and their challenges, each shared one counted once
+ */
+function countBlocks(
+  blockNames: readonly string[],
+  blocks: ReadonlyMap<string, BlockData>
+): { blockCount: number; challengeCount: number } {
+  const seenBlocks = new Set<string>();
+  const seenChallenges = new Set<string>();
+
+  for (const blockName of blockNames) {
+    const block = blocks.get(blockName);
+    if (!block || seenBlocks.has(blockName)) continue;
+    seenBlocks.add(blockName);
+    for (const challenge of block.challenges) seenChallenges.add(challenge.id);
+  }
+
+  return {
+    blockCount: seenBlocks.size,
+    challengeCount: seenChallenges.size,
+  };
+}
+
+function moduleStats(
+  module: ModuleData,
+  blocks: ReadonlyMap<string, BlockData>
+): ModuleStats {
+  return {
+    dashedName: module.dashedName,
+    comingSoon: module.comingSoon,
+    ...countBlocks(module.blocks, blocks),
+  };
+}
+
+function chapterStats(
+  chapter: ChapterData,
+  blocks: ReadonlyMap<string, BlockData>
+): ChapterStats {
+  return {
+    dashedName: chapter.dashedName,
+    comingSoon: chapter.comingSoon,
+    moduleCount: chapter.modules.length,
+    ...countBlocks(
+      chapter.modules.flatMap((module) => module.blocks),
+      blocks
+    ),
+    modules: chapter.modules.map((module) => moduleStats(module, blocks)),
+  };
+}
+
+function superblockStats(
+  superblock: SuperblockData,
+  blocks: ReadonlyMap<string, BlockData>
+): SuperblockStats {
+  const chapters = superblock.chapters.map((chapter) =>
+    chapterStats(chapter, blocks)
+  );
+  return {
+    dashedName: superblock.dashedName,
+    chapterCount: chapters.length,
+    moduleCount: chapters.reduce((sum, ch) => sum + ch.moduleCount, 0),
+    ...countBlocks(superblock.blocks, blocks),
+    chapters,
+  };
+}
+
+/**
+ * Build the aggregate statistics for a DataStore
+ * @param curriculum Normalized curriculum (defines superblock order)
+ * @param superblocks Map of dashedName → SuperblockData
+ * @param blocks Map of dashedName → BlockData
+ * @param indexes Secondary indexes (unique block and challenge lists)
+ * @returns Totals, block breakdowns and per-superblock counts
+ */
+export function buildCurriculumStats(
+  curriculum: CurriculumData,
+  superblocks: ReadonlyMap<string, SuperblockData>,
+  blocks: ReadonlyMap<string, BlockData>,
+  indexes: DataStoreIndexes
+): CurriculumStats {
+  const perSuperblock = curriculum.superblocks
+    .map((name) => superblocks.get(name))
+    .filter((sb): sb is SuperblockData => sb !== undefined)
+    .map((sb) => superblockStats(sb, blocks));
+
+  const upcomingChangeBlocks = indexes.blockList.filter(
+    (block) => block.isUpcomingChange
+  );
+
+  // Breakdowns follow enum declaration order and include unused values
+  const blocksByLabel: BlockLabelCount[] = [
+    ...Object.values(BlockLabel).map((label) => ({
+      label,
+      count: indexes.blocksByLabel.get(label)?.length ?? 0,
+    })),
+    {
+      label: null,
+      count: indexes.blockList.filter((block) => block.blockLabel === null)
+        .length,
+    },
+  ];
+  const blocksByLayout: BlockLayoutCount[] = Object.values(BlockLayout).map(
+    (layout) => ({
+      layout,
+      count: indexes.blocksByLayout.get(layout)?.length ?? 0,
+    })
+  );
+
+  return {
+    superblockCount: perSuperblock.length,
+    chapterCount: indexes.chapterList.length,
+    moduleCount: indexes.moduleList.length,
+    blockCount: indexes.blockList.length,
+    challengeCount: indexes.challengeList.length,
+    comingSoonChapterCount: indexes.chapterList.filter((ch) => ch.comingSoon)
+      .length,
+    comingSoonModuleCount: indexes.moduleList.filter((mod) => mod.comingSoon)
+      .length,
+    upcomingChangeBlockCount: upcomingChangeBlocks.length,
+    upcomingChangeChallengeCount: countBlocks(
+      upcomingChangeBlocks.map((block) => block.dashedName),
+      blocks
+    ).challengeCount,
+    blocksByLabel,
+    blocksByLayout,
+    superblocks: perSuperblock,
+  };
+}
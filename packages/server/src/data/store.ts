@@ -4,31 +4,51 @@ import type {
   BlockData,
   ChallengeMetadata,
   DataStore,
+  DataStoreDiagnostics,
 } from './types.js';
+import { buildDataStoreIndexes } from './indexes.js';
+import { buildSearchIndex } from './search.js';
+import { buildCurriculumStats } from './stats.js';
 
 /**
  * DataStore construction
- * Builds readonly Maps from normalized data
+ * Builds readonly Maps (plus secondary and search indexes and aggregate
+ * counts) from normalized data
  */
 
+const EMPTY_DIAGNOSTICS: DataStoreDiagnostics = {
+  validationErrors: [],
+  excludedSuperblocks: [],
+  excludedBlocks: [],
+  sharedChallenges: [],
+};
+
 /**
  * Build DataStore with readonly Maps from normalized data
  * @param curriculum Normalized curriculum data
  * @param superblocks Map of dashedName → SuperblockData
  * @param blocks Map of dashedName → BlockData
  * @param challenges Map of id → ChallengeMetadata
- * @returns DataStore with all Maps converted to ReadonlyMap
+ * @param diagnostics Errors and exclusions from lenient loading
+ * @returns DataStore with all Maps converted to ReadonlyMap, secondary
+ *   indexes, aggregate counts and a search index over them
  */
 export function buildDataStore(
   curriculum: CurriculumData,
   superblocks: Map<string, SuperblockData>,
   blocks: Map<string, BlockData>,
-  challenges: Map<string, ChallengeMetadata>
+  challenges: Map<string, ChallengeMetadata>,
+  diagnostics: DataStoreDiagnostics = EMPTY_DIAGNOSTICS
 ): DataStore {
+  const indexes = buildDataStoreIndexes(curriculum, superblocks, blocks);
   return {
     curriculum,
     superblocks: superblocks as ReadonlyMap<string, SuperblockData>,
     blocks: blocks as ReadonlyMap<string, BlockData>,
     challenges: challenges as ReadonlyMap<string, ChallengeMetadata>,
+    indexes,
+    stats: buildCurriculumStats(curriculum, superblocks, blocks, indexes),
+    searchIndex: buildSearchIndex(curriculum, superblocks, blocks, challenges),
+    diagnostics,
   };
 }
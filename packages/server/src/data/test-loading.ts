@@ -1,22 +1,33 @@
 import { initializeDataStore, InMemoryDataProvider } from './index.js';
+import { Logger } from '../logger.js';
 import path from 'path';
 
+const logger = new Logger({ level: 'info', format: 'pretty' });
+
 // Determine data path (repository root is two levels up from packages/server)
 const dataPath = path.resolve(process.cwd(), '..', '..', 'data', 'structure');
 
-console.log('Loading curriculum data from:', dataPath);
-const startTime = Date.now();
+logger.info('Loading curriculum data', { dataPath });
+const startTime = performance.now();
 
-const result = await initializeDataStore(dataPath);
+const result = await initializeDataStore(dataPath, {
+  onPhase: (phase, durationMs) => {
+    logger.info('Data load phase complete', {
+      phase,
+      durationMs: Math.round(durationMs * 100) / 100,
+    });
+  },
+});
 
-const elapsed = Date.now() - startTime;
+const elapsed = Math.round(performance.now() - startTime);
 
 if (!result.success) {
-  console.error('❌ Failed to load data:');
-  console.error('  Error:', result.error.message);
-  console.error('  File:', result.error.filePath);
-  if (result.error.field) {
-    console.error('  Field:', result.error.field);
+  logger.error('Failed to load data', { errorCount: result.error.length });
+  for (const error of result.error) {
+    logger.error(error.message, {
+      filePath: error.filePath,
+      field: error.field,
+    });
   }
   process.exit(1);
 }
@@ -24,22 +35,25 @@ if (!result.success) {
 const provider = new InMemoryDataProvider(result.data);
 const curriculum = provider.getCurriculum();
 
-console.log('✅ Success!');
-console.log('  Superblocks:', curriculum.superblocks.length);
-console.log('  Certifications:', curriculum.certifications.length);
-console.log('  Blocks:', result.data.blocks.size);
-console.log('  Challenges:', result.data.challenges.size);
-console.log('  Load time:', elapsed, 'ms');
-
 // Memory usage
 const used = process.memoryUsage();
-console.log('  Heap used:', Math.round(used.heapUsed / 1024 / 1024), 'MB');
+
+logger.info('Loaded curriculum data', {
+  superblocks: curriculum.superblocks.length,
+  certifications: curriculum.certifications.length,
+  blocks: result.data.blocks.size,
+  challenges: result.data.challenges.size,
+  durationMs: elapsed,
+  heapUsedMB: Math.round(used.heapUsed / 1024 / 1024),
+});
 
 // Performance validation
 if (elapsed > 1000) {
-  console.warn('⚠️  Warning: Load time exceeded 1 second target');
+  logger.warn('Load time exceeded 1 second target', { durationMs: elapsed });
 }
 
 if (used.heapUsed > 50 * 1024 * 1024) {
-  console.warn('⚠️  Warning: Memory usage exceeded 50MB target');
+  logger.warn('Memory usage exceeded 50MB target', {
+    heapUsedMB: Math.round(used.heapUsed / 1024 / 1024),
+  });
 }
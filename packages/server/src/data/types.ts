@@ -5,7 +5,7 @@
  * organized in three distinct layers with strict type safety requirements:
  * - Layer 1: Raw JSON Types (mirror exact JSON structure)
  * - Layer 2: Normalized Internal Types (enriched with relationships and enums)
- * - Layer 3: Challenge Content Types (future v2 database integration)
+ * - Layer 3: Challenge Content Types (loaded on demand from a content source)
  *
  * All types enforce readonly constraints, explicit null for optional fields,
  * and zero `any` types per project constitution.
@@ -178,6 +178,25 @@ export enum BlockLabel {
   LEARN = 'LEARN',
 }
 
+/**
+ * How a superblock organizes its blocks.
+ * LEGACY superblocks list blocks directly; CHAPTERED (v9) superblocks group
+ * them into chapters and modules.
+ */
+export enum SuperblockStructure {
+  LEGACY = 'LEGACY',
+  CHAPTERED = 'CHAPTERED',
+}
+
+/**
+ * Kinds of curriculum entries returned by full-text search.
+ */
+export enum SearchResultType {
+  SUPERBLOCK = 'SUPERBLOCK',
+  BLOCK = 'BLOCK',
+  CHALLENGE = 'CHALLENGE',
+}
+
 /**
  * Normalized external resource structure.
  * Contains CDN URL for external library or stylesheet required by challenges.
@@ -194,9 +213,9 @@ export interface RequiredResource {
 
 /**
  * Lightweight challenge reference for in-memory storage (MVP scope).
- * Contains only metadata (id, title, parent block reference).
- * Full content (description, instructions, tests) defined in ChallengeContent
- * but not loaded until v2 database integration.
+ * Contains only metadata (id, title, parent block reference, position).
+ * Full content (description, instructions, tests) is a ChallengeContent,
+ * loaded on demand from the ContentSource by HybridDataProvider.
  *
  * Memory footprint: ~100 bytes per challenge
  * Total for 36,000 challenges: ~3.6MB
@@ -205,6 +224,14 @@ export interface ChallengeMetadata {
   readonly id: string;
   readonly title: string;
   readonly blockDashedName: string;
+
+  // Navigation, precomputed during normalization
+  readonly order: number; // 0-based position in the block's challengeOrder
+  readonly previousChallengeId: string | null; // null for the first challenge
+  readonly nextChallengeId: string | null; // null for the last challenge
+  // Last challenge only: superblock dashedName → first challenge of the
+  // next block in that superblock (empty for every other challenge)
+  readonly nextInSuperblock: ReadonlyMap<string, string>;
 }
 
 /**
@@ -253,6 +280,10 @@ export interface SuperblockData {
 
   // New v9 hierarchical structure
   readonly chapters: readonly ChapterData[];
+  readonly structure: SuperblockStructure;
+
+  // True when every chapter is coming soon (always false for LEGACY)
+  readonly comingSoon: boolean;
 
   readonly isCertification: boolean;
 }
@@ -294,15 +325,14 @@ export interface BlockData {
 }
 
 // ============================================================================
-// SECTION 4: CHALLENGE CONTENT TYPES (Future v2)
+// SECTION 4: CHALLENGE CONTENT TYPES
 // ============================================================================
 
 /**
  * Individual file within challenge (starter code or solution).
  * Used in ChallengeContent for code files.
  *
- * Note: Defined in MVP for schema-first development but not loaded
- * until v2 database integration.
+ * Note: Never stored in DataStore - loaded on demand through a ContentSource.
  */
 export interface ChallengeFile {
   readonly name: string;
@@ -315,8 +345,7 @@ export interface ChallengeFile {
  * Validation test for challenge submission.
  * Contains human-readable description and test assertion code.
  *
- * Note: Defined in MVP for schema-first development but not loaded
- * until v2 database integration.
+ * Note: Never stored in DataStore - loaded on demand through a ContentSource.
  */
 export interface Test {
   readonly text: string;
@@ -327,27 +356,24 @@ export interface Test {
  * Example solution for challenge.
  * Contains array of solution files.
  *
- * Note: Defined in MVP for schema-first development but not loaded
- * until v2 database integration.
+ * Note: Never stored in DataStore - loaded on demand through a ContentSource.
  */
 export interface Solution {
   readonly files: readonly ChallengeFile[];
 }
 
 /**
- * Full challenge content loaded from database (v2 only).
+ * Full challenge content, loaded on demand from a ContentSource.
  * Contains description, instructions, files, tests, and solutions.
  *
  * Memory footprint: ~50KB per challenge
- * Total for 36,000 challenges: ~1.8GB (NOT loaded in MVP)
+ * Total for 36,000 challenges: ~1.8GB (never loaded all at once)
  *
- * Loading strategy (v2):
- * - Lazy-loaded from database on demand
- * - Cached in LRU cache (50MB limit, ~500 challenges)
- * - Never all in memory simultaneously
+ * Loading strategy:
+ * - Read from the content source when Challenge.content is requested
+ * - Kept out of DataStore so metadata stays small
  *
- * Note: Type defined in MVP for future v2 migration without breaking changes.
- * GraphQL schema includes ChallengeContent types even though MVP returns null.
+ * Note: Challenge.content returns null when no content source is configured.
  */
 export interface ChallengeContent {
   readonly id: string;
@@ -413,6 +439,14 @@ export class DataValidationError extends Error {
   }
 }
 
+/**
+ * How data loading reacts to validation errors.
+ * - strict: Any error aborts loading (server refuses to start)
+ * - lenient: Broken blocks and superblocks are left out and reported
+ *   in DataStore.diagnostics
+ */
+export type ValidationMode = 'strict' | 'lenient';
+
 // ============================================================================
 // SECTION 6: STORAGE ABSTRACTIONS
 // ============================================================================
@@ -426,6 +460,9 @@ export class DataValidationError extends Error {
  * - superblocks: Map keyed by dashedName for O(1) superblock lookups
  * - blocks: Map keyed by dashedName for O(1) block lookups
  * - challenges: Map keyed by id for O(1) challenge metadata lookups
+ * - indexes: Precomputed lookups and ordered lists (see DataStoreIndexes)
+ * - stats: Aggregate counts (see CurriculumStats)
+ * - searchIndex: Inverted index over names and titles
  *
  * Characteristics:
  * - All Maps are readonly (cannot add/remove entries after initialization)
@@ -444,6 +481,201 @@ export interface DataStore {
   readonly superblocks: ReadonlyMap<string, SuperblockData>;
   readonly blocks: ReadonlyMap<string, BlockData>;
   readonly challenges: ReadonlyMap<string, ChallengeMetadata>;
+  readonly indexes: DataStoreIndexes;
+  readonly stats: CurriculumStats;
+  readonly searchIndex: SearchIndex;
+  readonly diagnostics: DataStoreDiagnostics;
+}
+
+/**
+ * Secondary indexes built once per DataStore.
+ * Lists are in curriculum order. Blocks shared by several superblocks (and
+ * challenges shared by several blocks) appear once, at their first position.
+ *
+ * - chapters: Keyed "<superblock>/<chapter>"
+ * - modules: Keyed "<superblock>/<chapter>/<module>"
+ * - modulesBySuperblock: Superblock dashedName → its modules
+ * - modulesByChapter: Chapter dashedName → modules of every chapter with
+ *   that name, across superblocks
+ * - blocksByLabel/blocksByLayout/blocksByHelpCategory: Unique blocks grouped
+ *   by field value (blocks without a label are not in blocksByLabel)
+ * - placementsByBlock: Block dashedName → every place it appears
+ */
+export interface DataStoreIndexes {
+  readonly chapters: ReadonlyMap<string, ChapterData>;
+  readonly modules: ReadonlyMap<string, ModuleData>;
+  readonly chapterList: readonly ChapterData[];
+  readonly moduleList: readonly ModuleData[];
+  readonly modulesBySuperblock: ReadonlyMap<string, readonly ModuleData[]>;
+  readonly modulesByChapter: ReadonlyMap<string, readonly ModuleData[]>;
+  readonly blockList: readonly BlockData[];
+  readonly challengeList: readonly ChallengeMetadata[];
+  readonly blocksByLabel: ReadonlyMap<BlockLabel, readonly BlockData[]>;
+  readonly blocksByLayout: ReadonlyMap<BlockLayout, readonly BlockData[]>;
+  readonly blocksByHelpCategory: ReadonlyMap<string, readonly BlockData[]>;
+  readonly placementsByBlock: ReadonlyMap<string, readonly BlockPlacement[]>;
+}
+
+/**
+ * One place a block appears in the curriculum (a breadcrumb).
+ * v9 blocks can be shared, so a block may have several placements.
+ * Chapter and module are null for legacy superblocks.
+ */
+export interface BlockPlacement {
+  readonly superblockDashedName: string;
+  readonly chapterDashedName: string | null;
+  readonly moduleDashedName: string | null;
+  readonly blockDashedName: string;
+}
+
+/**
+ * Aggregate curriculum counts built once per DataStore.
+ * Totals count shared blocks and challenges once; per-superblock,
+ * per-chapter and per-module counts include every block placed there.
+ *
+ * - comingSoon*: Chapters and modules flagged comingSoon
+ * - upcomingChange*: Blocks flagged isUpcomingChange and their challenges
+ * - blocksByLabel/blocksByLayout: Unique blocks per enum value, in
+ *   declaration order (label null counts unlabeled blocks)
+ */
+export interface CurriculumStats {
+  readonly superblockCount: number;
+  readonly chapterCount: number;
+  readonly moduleCount: number;
+  readonly blockCount: number;
+  readonly challengeCount: number;
+  readonly comingSoonChapterCount: number;
+  readonly comingSoonModuleCount: number;
+  readonly upcomingChangeBlockCount: number;
+  readonly upcomingChangeChallengeCount: number;
+  readonly blocksByLabel: readonly BlockLabelCount[];
+  readonly blocksByLayout: readonly BlockLayoutCount[];
+  readonly superblocks: readonly SuperblockStats[];
+}
+
+export interface BlockLabelCount {
+  readonly label: BlockLabel | null;
+  readonly count: number;
+}
+
+export interface BlockLayoutCount {
+  readonly layout: BlockLayout;
+  readonly count: number;
+}
+
+/**
+ * Counts for one superblock (chapters empty for legacy superblocks)
+ */
+export interface SuperblockStats {
+  readonly dashedName: string;
+  readonly chapterCount: number;
+  readonly moduleCount: number;
+  readonly blockCount: number;
+  readonly challengeCount: number;
+  readonly chapters: readonly ChapterStats[];
+}
+
+export interface ChapterStats {
+  readonly dashedName: string;
+  readonly comingSoon: boolean;
+  readonly moduleCount: number;
+  readonly blockCount: number;
+  readonly challengeCount: number;
+  readonly modules: readonly ModuleStats[];
+}
+
+export interface ModuleStats {
+  readonly dashedName: string;
+  readonly comingSoon: boolean;
+  readonly blockCount: number;
+  readonly challengeCount: number;
+}
+
+/**
+ * Full-text search over superblock names, block names and help
+ * categories, and challenge titles. Built once per DataStore.
+ */
+export interface SearchIndex {
+  search(query: string, options?: SearchOptions): readonly SearchHit[];
+}
+
+export interface SearchOptions {
+  /** Only return these kinds of entries (default: all) */
+  readonly types?: readonly SearchResultType[];
+  /** Maximum number of hits (default: 20) */
+  readonly limit?: number;
+}
+
+/**
+ * Ranked search result with its breadcrumb.
+ * Chapter and module are null for legacy superblocks (and superblock hits);
+ * a block shared by several superblocks is placed in the first one
+ * in curriculum order.
+ */
+export interface SearchHit {
+  readonly type: SearchResultType;
+  readonly score: number;
+  readonly superblockDashedName: string;
+  readonly chapterDashedName: string | null;
+  readonly moduleDashedName: string | null;
+  readonly blockDashedName: string | null;
+  readonly challengeId: string | null;
+}
+
+/**
+ * Problems found while building the DataStore.
+ * Errors and exclusions are always empty in strict mode (errors abort loading).
+ *
+ * - validationErrors: Every load/validation error, with file path and field
+ * - excludedSuperblocks: Superblocks left out because their file was broken
+ * - excludedBlocks: Blocks left out because their file was broken
+ * - sharedChallenges: Allow-listed challenge ids that appear in several
+ *   blocks (the first block listed owns the challenge)
+ */
+export interface DataStoreDiagnostics {
+  readonly validationErrors: readonly DataValidationError[];
+  readonly excludedSuperblocks: readonly string[];
+  readonly excludedBlocks: readonly string[];
+  readonly sharedChallenges: readonly SharedChallenge[];
+}
+
+/**
+ * Challenge id intentionally listed in more than one block.
+ */
+export interface SharedChallenge {
+  readonly id: string;
+  readonly blockDashedNames: readonly string[];
+}
+
+/**
+ * Pluggable backend for challenge content (description, tests, solutions).
+ * Kept separate from DataStore so content can come from files today and
+ * a database later without touching the metadata pipeline.
+ *
+ * Implementations:
+ * - FileContentSource: Reads markdown/JSON files from a local directory
+ *
+ * Contract:
+ * - success with null: the source has no content for this challenge
+ * - failure: content exists but could not be read or parsed
+ */
+export interface ContentSource {
+  loadChallengeContent(
+    challenge: ChallengeMetadata
+  ): Promise<Result<ChallengeContent | null, DataValidationError>>;
+}
+
+/**
+ * Cache statistics for byte-bounded caches (e.g. challenge content).
+ * Sizes are estimates supplied by the cache's sizeOf function.
+ */
+export interface CacheStats {
+  readonly hits: number;
+  readonly misses: number;
+  readonly evictions: number;
+  readonly entries: number;
+  readonly sizeBytes: number;
+  readonly maxSizeBytes: number;
 }
 
 /**
@@ -455,13 +687,17 @@ export interface DataStore {
  * - getSuperblock(dashedName): Returns superblock or null if not found
  * - getBlock(dashedName): Returns block or null if not found
  * - getChallenge(id): Returns challenge metadata or null if not found
- *
- * Future methods (v2 - commented placeholder):
- * - getChallengeContent(id): Async content loading from database
+ * - getChallengeContent(id): Async content loading from a ContentSource
+ * - getContentCacheStats(): Content cache counters, or null if uncached
+ * - getIndexes(): Precomputed secondary indexes of the DataStore
+ * - getStats(): Precomputed aggregate counts of the DataStore
+ * - search(query, options): Ranked full-text search hits
+ * - snapshot(): Provider pinned to the current DataStore (one per request)
  *
  * Implementations:
  * - MVP: InMemoryDataProvider - All methods return from DataStore Maps
- * - v2: HybridDataProvider - Metadata from DataStore, content from database
+ * - v2: HybridDataProvider - Metadata from DataStore, content from a
+ *   ContentSource through a byte-bounded LRU cache
  *
  * Design goal: GraphQL resolvers use DataProvider interface, never access
  * DataStore directly. Enables swapping implementations without resolver changes.
@@ -471,7 +707,19 @@ export interface DataProvider {
   getSuperblock(dashedName: string): SuperblockData | null;
   getBlock(dashedName: string): BlockData | null;
   getChallenge(id: string): ChallengeMetadata | null;
+  getChallengeContent(id: string): Promise<ChallengeContent | null>;
+  getContentCacheStats(): CacheStats | null;
+  getIndexes(): DataStoreIndexes;
+  getStats(): CurriculumStats;
+  search(query: string, options?: SearchOptions): readonly SearchHit[];
+  snapshot(): DataProvider;
+}
 
-  // Future v2 method (commented placeholder):
-  // getChallengeContent(id: string): Promise<ChallengeContent | null>;
+/**
+ * DataProvider whose DataStore can be swapped at runtime (hot reload).
+ * replaceStore() is atomic: requests that already took a snapshot()
+ * finish against the old store, later requests see the new one.
+ */
+export interface ReloadableDataProvider extends DataProvider {
+  replaceStore(store: DataStore): void;
 }
@@ -11,10 +11,11 @@ import {
 /**
  * Data integrity validation functions
  * Validates references, enums, and structure
+ * Validators collect every problem they find instead of stopping at the first
  */
 
 // Valid enum values for validation
-const VALID_BLOCK_LAYOUTS: readonly RawBlockLayout[] = [
+export const VALID_BLOCK_LAYOUTS: readonly RawBlockLayout[] = [
   'link',
   'challenge-list',
   'challenge-grid',
@@ -25,7 +26,7 @@ const VALID_BLOCK_LAYOUTS: readonly RawBlockLayout[] = [
   'legacy-link',
 ];
 
-const VALID_BLOCK_LABELS: readonly RawBlockLabel[] = [
+export const VALID_BLOCK_LABELS: readonly RawBlockLabel[] = [
   'lecture',
   'lab',
   'workshop',
@@ -45,7 +46,7 @@ const VALID_BLOCK_LABELS: readonly RawBlockLabel[] = [
  */
 export function validateCurriculumReferences(): Result<
   void,
-  DataValidationError
+  readonly DataValidationError[]
 > {
   // Only validate loaded superblocks (some may be skipped due to non-standard structure)
   // This is intentionally permissive to handle curriculum evolution
@@ -59,12 +60,14 @@ export function validateCurriculumReferences(): Result<
  * Supports both legacy (flat blocks) and new (hierarchical chapters/modules) structures
  * @param superblocks All loaded superblocks
  * @param blocks All loaded blocks
- * @returns Result success or validation error
+ * @returns Result success or every missing block reference
  */
 export function validateSuperblockReferences(
   superblocks: Map<string, RawSuperblock>,
   blocks: Map<string, RawBlock>
-): Result<void, DataValidationError> {
+): Result<void, readonly DataValidationError[]> {
+  const errors: DataValidationError[] = [];
+
   for (const [superblockName, superblock] of superblocks) {
     // Collect all block references from superblock (handling both structures)
     const blockReferences: string[] = [];
@@ -86,163 +89,256 @@ export function validateSuperblockReferences(
     // Validate all block references exist
     for (const blockName of blockReferences) {
       if (!blocks.has(blockName)) {
-        return {
-          success: false,
-          error: new DataValidationError(
+        errors.push(
+          new DataValidationError(
             `Block "${blockName}" referenced in superblock "${superblockName}" but file not found`,
             `superblocks/${superblockName}.json`,
             'blocks'
-          ),
-        };
+          )
+        );
       }
     }
   }
 
-  return { success: true, data: undefined };
+  return toValidationResult(errors);
 }
 
 /**
  * Validate block enum values
  * @param block Block to validate
  * @param blockPath File path for error reporting
- * @returns Result success or validation error
+ * @returns Result success or every invalid field in the block
  */
 export function validateBlockEnums(
   block: RawBlock,
   blockPath: string
-): Result<void, DataValidationError> {
+): Result<void, readonly DataValidationError[]> {
+  const errors: DataValidationError[] = [];
+
   // Validate blockLayout
   if (!VALID_BLOCK_LAYOUTS.includes(block.blockLayout)) {
-    return {
-      success: false,
-      error: new DataValidationError(
+    errors.push(
+      new DataValidationError(
         `Invalid blockLayout value: "${block.blockLayout}". Valid values: ${VALID_BLOCK_LAYOUTS.join(', ')}`,
         blockPath,
         'blockLayout'
-      ),
-    };
+      )
+    );
   }
 
   // Validate blockLabel if present
   if (block.blockLabel !== undefined) {
     if (!VALID_BLOCK_LABELS.includes(block.blockLabel)) {
-      return {
-        success: false,
-        error: new DataValidationError(
+      errors.push(
+        new DataValidationError(
           `Invalid blockLabel value: "${block.blockLabel}". Valid values: ${VALID_BLOCK_LABELS.join(', ')}`,
           blockPath,
           'blockLabel'
-        ),
-      };
+        )
+      );
     }
   }
 
   // Validate required resources structure if present
   if (block.required !== undefined) {
     if (!Array.isArray(block.required)) {
-      return {
-        success: false,
-        error: new DataValidationError(
+      errors.push(
+        new DataValidationError(
           'required field must be an array',
           blockPath,
           'required'
-        ),
-      };
-    }
+        )
+      );
+    } else {
+      for (let i = 0; i < block.required.length; i++) {
+        const resource = block.required[i];
+        if (!resource) {
+          errors.push(
+            new DataValidationError(
+              `required[${i}] is null or undefined`,
+              blockPath,
+              `required[${i}]`
+            )
+          );
+          continue;
+        }
 
-    for (let i = 0; i < block.required.length; i++) {
-      const resource = block.required[i];
-      if (!resource) {
-        return {
-          success: false,
-          error: new DataValidationError(
-            `required[${i}] is null or undefined`,
-            blockPath,
-            `required[${i}]`
-          ),
-        };
-      }
+        // Must have either src (for JS) or link (for CSS)
+        const hasSrc = typeof resource.src === 'string';
+        const hasLink = typeof resource.link === 'string';
 
-      // Must have either src (for JS) or link (for CSS)
-      const hasSrc = typeof resource.src === 'string';
-      const hasLink = typeof resource.link === 'string';
-
-      if (!hasSrc && !hasLink) {
-        return {
-          success: false,
-          error: new DataValidationError(
-            `required[${i}] must have either "src" or "link" field of type string`,
-            blockPath,
-            `required[${i}]`
-          ),
-        };
+        if (!hasSrc && !hasLink) {
+          errors.push(
+            new DataValidationError(
+              `required[${i}] must have either "src" or "link" field of type string`,
+              blockPath,
+              `required[${i}]`
+            )
+          );
+        }
       }
     }
   }
 
   // Validate template is string if present
   if (block.template !== undefined && typeof block.template !== 'string') {
-    return {
-      success: false,
-      error: new DataValidationError(
+    errors.push(
+      new DataValidationError(
         'template field must be a string',
         blockPath,
         'template'
-      ),
-    };
+      )
+    );
   }
 
-  return { success: true, data: undefined };
+  return toValidationResult(errors);
 }
 
 /**
  * Validate challenge structure in block
  * @param challenges Challenge array from block
  * @param blockPath File path for error reporting
- * @returns Result success or validation error
+ * @returns Result success or every invalid challenge field
  */
 export function validateChallengeStructure(
   challenges: readonly RawChallenge[],
   blockPath: string
-): Result<void, DataValidationError> {
+): Result<void, readonly DataValidationError[]> {
   // Validate array is not empty
   if (challenges.length === 0) {
     return {
       success: false,
-      error: new DataValidationError(
-        'challengeOrder array must not be empty',
-        blockPath,
-        'challengeOrder'
-      ),
+      error: [
+        new DataValidationError(
+          'challengeOrder array must not be empty',
+          blockPath,
+          'challengeOrder'
+        ),
+      ],
     };
   }
 
+  const errors: DataValidationError[] = [];
+
   // Validate each challenge has required fields
   for (let i = 0; i < challenges.length; i++) {
     const challenge = challenges[i];
 
-    if (!challenge || !challenge.id || typeof challenge.id !== 'string') {
-      return {
-        success: false,
-        error: new DataValidationError(
+    if (!challenge) {
+      errors.push(
+        new DataValidationError(
           `Challenge at index ${i} is missing required "id" field`,
           blockPath,
           `challengeOrder[${i}].id`
-        ),
-      };
+        )
+      );
+      continue;
+    }
+
+    if (!challenge.id || typeof challenge.id !== 'string') {
+      errors.push(
+        new DataValidationError(
+          `Challenge at index ${i} is missing required "id" field`,
+          blockPath,
+          `challengeOrder[${i}].id`
+        )
+      );
     }
 
     if (!challenge.title || typeof challenge.title !== 'string') {
-      return {
-        success: false,
-        error: new DataValidationError(
+      errors.push(
+        new DataValidationError(
           `Challenge at index ${i} is missing required "title" field`,
           blockPath,
           `challengeOrder[${i}].title`
-        ),
-      };
+        )
+      );
     }
   }
 
-  return { success: true, data: undefined };
+  return toValidationResult(errors);
+}
+
+/**
+ * Map each challenge id to the blocks that list it, in load order
+ * @param blocks All loaded blocks
+ * @returns Map of challenge id → block dashedNames
+ */
+export function collectChallengeBlocks(
+  blocks: ReadonlyMap<string, RawBlock>
+): Map<string, string[]> {
+  const challengeBlocks = new Map<string, string[]>();
+  for (const [blockName, block] of blocks) {
+    for (const challenge of block.challengeOrder) {
+      const owners = challengeBlocks.get(challenge.id);
+      if (!owners) {
+        challengeBlocks.set(challenge.id, [blockName]);
+      } else if (!owners.includes(blockName)) {
+        owners.push(blockName);
+      }
+    }
+  }
+  return challengeBlocks;
+}
+
+/**
+ * Validate that no challenge id appears in more than one block
+ * Reports one error per extra block, naming both files
+ * @param challengeBlocks Map of challenge id → block dashedNames
+ * @param blockPath Resolves a block dashedName to its file path
+ * @param sharedChallengeIds Ids allowed to appear in several blocks
+ * @returns Result success or every duplicated id
+ */
+export function validateChallengeUniqueness(
+  challengeBlocks: ReadonlyMap<string, readonly string[]>,
+  blockPath: (blockName: string) => string,
+  sharedChallengeIds: ReadonlySet<string> = new Set()
+): Result<void, readonly DataValidationError[]> {
+  const errors: DataValidationError[] = [];
+
+  for (const [challengeId, [firstBlock, ...otherBlocks]] of challengeBlocks) {
+    if (!firstBlock || sharedChallengeIds.has(challengeId)) continue;
+
+    for (const blockName of otherBlocks) {
+      errors.push(
+        new DataValidationError(
+          `Duplicate challenge id "${challengeId}": also defined in ${blockPath(firstBlock)}`,
+          blockPath(blockName),
+          'challengeOrder'
+        )
+      );
+    }
+  }
+
+  return toValidationResult(errors);
+}
+
+/**
+ * Format validation errors as a report, one line per problem
+ * @param errors Errors collected during loading and validation
+ * @returns Multi-line report with file path and field for each error
+ */
+export function formatValidationErrors(
+  errors: readonly DataValidationError[]
+): string {
+  const noun = errors.length === 1 ? 'error' : 'errors';
+  const lines = errors.map((error) => {
+    const location = error.field
+      ? `${error.filePath} (${error.field})`
+      : error.filePath;
+    return `  - ${location}: ${error.message}`;
+  });
+  return [`${errors.length} validation ${noun}:`, ...lines].join('\n');
+}
+
+/**
+ * Wrap collected errors in a Result
+ * @param errors Errors found by a validator (empty when valid)
+ */
+function toValidationResult(
+  errors: readonly DataValidationError[]
+): Result<void, readonly DataValidationError[]> {
+  return errors.length > 0
+    ? { success: false, error: errors }
+    : { success: true, data: undefined };
 }
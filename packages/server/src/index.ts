@@ -1,136 +1,284 @@
-import { existsSync } from 'node:fs';
-import { resolve } from 'node:path';
-import { initializeDataStore } from './data/index.js';
+import { initializeDataStore, type DataLoadPhase } from './data/index.js';
+import { FileContentSource } from './data/content.js';
+import { HybridDataProvider } from './data/hybrid-provider.js';
 import { InMemoryDataProvider } from './data/provider.js';
+import { DataReloader } from './data/reload.js';
+import type {
+  DataValidationError,
+  ReloadableDataProvider,
+} from './data/types.js';
+import { describeConfig, loadConfig } from './config.js';
+import {
+  loadPersistedQueryManifest,
+  type PersistedQueryManifest,
+} from './persisted-queries.js';
+import { Logger, type LogFields } from './logger.js';
+import { ServerMetrics } from './metrics.js';
 import { setReady } from './readiness.js';
 import { createGraphQLServer } from './server.js';
 import { setStartTime } from './uptime.js';
 
+// Replaced by the configured logger once the configuration is loaded;
+// configuration errors are logged with these defaults
+let logger = new Logger({
+  level: 'info',
+  format: process.env.NODE_ENV === 'production' ? 'json' : 'pretty',
+});
+
+/**
+ * Log a summary entry followed by one entry per validation error
+ */
+function logValidationErrors(
+  log: Logger,
+  level: 'warn' | 'error',
+  message: string,
+  errors: readonly DataValidationError[],
+  fields?: LogFields
+) {
+  log[level](message, { errorCount: errors.length, ...fields });
+  for (const error of errors) {
+    log[level](error.message, {
+      filePath: error.filePath,
+      field: error.field,
+    });
+  }
+}
+
 async function main() {
-  console.log('Starting GraphQL server...\n');
-
-  // Load configuration from environment
-  const PORT = parseInt(process.env.PORT ?? '4000', 10);
-
-  // Resolve data path - works from both root and packages/server
-  let DATA_PATH = process.env.DATA_PATH;
-  if (!DATA_PATH) {
-    const rootPath = resolve(process.cwd(), 'data/structure');
-    const serverPath = resolve(process.cwd(), '../../data/structure');
-    DATA_PATH = existsSync(rootPath) ? rootPath : serverPath;
-  } else {
-    DATA_PATH = resolve(process.cwd(), DATA_PATH);
+  // Defaults < CONFIG_FILE < environment variables (see config.ts)
+  const configResult = await loadConfig();
+  if (!configResult.success) {
+    logger.error('Invalid configuration', {
+      errorCount: configResult.error.length,
+    });
+    for (const error of configResult.error) {
+      logger.error(error.message, { key: error.key, source: error.source });
+    }
+    process.exit(1);
   }
+  const config = configResult.data;
 
-  const CORS_ORIGIN = process.env.CORS_ORIGIN ?? '*';
+  logger = new Logger(config.log);
+  logger.info('Starting GraphQL server');
+  logger.info('Effective configuration', describeConfig(config));
 
-  // Validate configuration
-  if (!Number.isInteger(PORT) || PORT < 1 || PORT > 65535) {
-    console.error(`Error: Invalid PORT value: ${process.env.PORT}`);
-    console.error('PORT must be an integer between 1 and 65535');
-    process.exit(1);
+  // Load the persisted query allow-list
+  let persistedQueryManifest: PersistedQueryManifest = new Map();
+  const { persistedQueries } = config;
+  if (persistedQueries.manifestPath) {
+    const manifestResult = await loadPersistedQueryManifest(
+      persistedQueries.manifestPath
+    );
+    if (!manifestResult.success) {
+      logValidationErrors(
+        logger,
+        'error',
+        'Failed to load persisted query manifest',
+        manifestResult.error
+      );
+      process.exit(1);
+    }
+    persistedQueryManifest = manifestResult.data;
   }
 
   // Initialize data store
-  console.log(`Loading curriculum data from: ${DATA_PATH}`);
-  const result = await initializeDataStore(DATA_PATH);
+  logger.info('Loading curriculum data', { dataPath: config.dataPath });
+  const metrics = new ServerMetrics();
+  const dataLogger = logger.child({ component: 'data' });
+  const onPhase = (phase: DataLoadPhase, durationMs: number) => {
+    dataLogger.info('Data load phase complete', {
+      phase,
+      durationMs: Math.round(durationMs * 100) / 100,
+    });
+  };
+  const loadStartedAt = performance.now();
+  const result = await initializeDataStore(config.dataPath, {
+    validationMode: config.dataValidationMode,
+    sharedChallengeIds: config.sharedChallengeIds,
+    onPhase,
+  });
+  const loadDurationMs = performance.now() - loadStartedAt;
+  metrics.recordDataLoad(loadDurationMs / 1000, result.success);
 
   if (!result.success) {
-    console.error('\nError: Failed to load curriculum data');
-    console.error('Details:', result.error.message);
-    if ('filePath' in result.error) {
-      console.error(
-        'File:',
-        (result.error as Error & { filePath: string }).filePath
-      );
-    }
-    console.error('\nStack trace:');
-    console.error(result.error.stack);
+    logValidationErrors(
+      dataLogger,
+      'error',
+      'Failed to load curriculum data',
+      result.error
+    );
     process.exit(1);
   }
 
   const dataStore = result.data;
-  const dataProvider = new InMemoryDataProvider(dataStore);
+  const { diagnostics } = dataStore;
+  dataLogger.info('Loaded curriculum data', {
+    durationMs: Math.round(loadDurationMs),
+  });
+  if (diagnostics.validationErrors.length > 0) {
+    logValidationErrors(
+      dataLogger,
+      'warn',
+      'Curriculum data has problems (lenient mode)',
+      diagnostics.validationErrors,
+      {
+        excludedSuperblocks: diagnostics.excludedSuperblocks.length,
+        excludedBlocks: diagnostics.excludedBlocks.length,
+      }
+    );
+  }
+  for (const shared of diagnostics.sharedChallenges) {
+    dataLogger.info('Shared challenge', {
+      challengeId: shared.id,
+      blocks: shared.blockDashedNames,
+    });
+  }
+  // Content is served through the LRU-cached hybrid provider when configured
+  const { contentPath } = config;
+  const dataProvider: ReloadableDataProvider = contentPath
+    ? new HybridDataProvider(dataStore, new FileContentSource(contentPath), {
+        maxCacheBytes: config.contentCacheMB * 1024 * 1024,
+      })
+    : new InMemoryDataProvider(dataStore);
 
   // Mark server as ready (start uptime tracking and set readiness state)
   setStartTime(Date.now());
   setReady(true);
 
+  // Hot reload swaps a freshly validated DataStore into the provider
+  const { watch, adminToken } = config.reload;
+  const reloader =
+    watch || adminToken
+      ? new DataReloader(dataProvider, {
+          dataPath: config.dataPath,
+          validationMode: config.dataValidationMode,
+          sharedChallengeIds: config.sharedChallengeIds,
+          onPhase,
+          onReload: (reloadResult, durationMs) => {
+            metrics.recordDataLoad(durationMs / 1000, reloadResult.success);
+            if (reloadResult.success) {
+              const { blocks, challenges } = reloadResult.data;
+              dataLogger.info('Reloaded curriculum data', {
+                durationMs: Math.round(durationMs),
+                blockCount: blocks.size,
+                challengeCount: challenges.size,
+              });
+            } else {
+              logValidationErrors(
+                dataLogger,
+                'error',
+                'Reload failed, keeping current curriculum data',
+                reloadResult.error
+              );
+            }
+          },
+          onWatchError: (error) => {
+            dataLogger.error('Stopped watching data path', {
+              dataPath: config.dataPath,
+              error,
+            });
+          },
+          onReloadError: (error) => {
+            dataLogger.error('Reload failed', { error });
+          },
+        })
+      : undefined;
+  if (watch) reloader?.watch();
+
   // Create and start server
+  const { port } = config;
   const server = createGraphQLServer(dataProvider, {
-    port: PORT,
-    corsOrigin: CORS_ORIGIN,
+    port,
+    corsOrigin: config.corsOrigins,
+    ...(reloader && { reloader }),
+    ...(adminToken && { adminToken }),
+    persistedQueries: {
+      mode: persistedQueries.mode,
+      manifest: persistedQueryManifest,
+      maxAgeSeconds: persistedQueries.maxAgeSeconds,
+    },
+    queryLimits: config.queryLimits,
+    graphiql: config.graphiql,
+    introspection: config.introspection,
+    profiling: config.profiling,
+    exposeErrors: config.exposeErrors,
+    ...(config.metrics.enabled && { metrics }),
+    ...(config.metrics.token && { metricsToken: config.metrics.token }),
+    logger,
+    shutdown: config.shutdown,
   });
 
   try {
     await server.start();
 
-    // Calculate stats for success message
-    const curriculum = dataProvider.getCurriculum();
-    const superblockCount = curriculum.superblocks.length;
-
-    // Count chapters and modules (v9 curriculum primitives)
-    let chapterCount = 0;
-    let moduleCount = 0;
-    for (const sbName of curriculum.superblocks) {
-      const sb = dataProvider.getSuperblock(sbName);
-      if (sb) {
-        chapterCount += sb.chapters.length;
-        for (const chapter of sb.chapters) {
-          moduleCount += chapter.modules.length;
-        }
-      }
-    }
-
-    // Count unique blocks (deduplicate since blocks can appear in multiple superblocks)
-    const uniqueBlocks = new Set<string>();
-    for (const sbName of curriculum.superblocks) {
-      const sb = dataProvider.getSuperblock(sbName);
-      if (sb) {
-        for (const blockName of sb.blocks) {
-          uniqueBlocks.add(blockName);
-        }
-      }
-    }
-    const blockCount = uniqueBlocks.size;
-
-    // Count unique challenges (deduplicate via block deduplication)
-    let challengeCount = 0;
-    for (const blockName of uniqueBlocks) {
-      const block = dataProvider.getBlock(blockName);
-      if (block) challengeCount += block.challenges.length;
-    }
+    const {
+      superblockCount,
+      chapterCount,
+      moduleCount,
+      blockCount,
+      challengeCount,
+    } = dataProvider.getStats();
 
     const memoryMB =
       Math.round((process.memoryUsage().heapUsed / 1024 / 1024) * 100) / 100;
 
-    console.log(`\n✓ Server started successfully on port ${PORT}`);
-    console.log(`  Landing page: http://localhost:${PORT}/`);
-    console.log(`  GraphQL endpoint: http://localhost:${PORT}/graphql`);
-    console.log(`\n  Loaded curriculum data:`);
-    console.log(`  - ${superblockCount} superblocks`);
-    console.log(`  - ${chapterCount} chapters`);
-    console.log(`  - ${moduleCount} modules`);
-    console.log(`  - ${blockCount} blocks`);
-    console.log(`  - ${challengeCount} challenges`);
-    console.log(`  - Memory usage: ${memoryMB} MB`);
-    console.log(`\n  CORS origin: ${CORS_ORIGIN}`);
-    console.log(`\n  Ready to accept GraphQL requests!\n`);
+    logger.info('Server started', {
+      port,
+      landingPage: `http://localhost:${port}/`,
+      graphqlEndpoint: `http://localhost:${port}/graphql`,
+      ...(config.metrics.enabled && {
+        metrics: `http://localhost:${port}/metrics`,
+      }),
+      superblockCount,
+      chapterCount,
+      moduleCount,
+      blockCount,
+      challengeCount,
+      memoryMB,
+      ...(persistedQueries.manifestPath && {
+        allowListedOperations: persistedQueryManifest.size,
+      }),
+    });
   } catch (error) {
-    console.error('\nError: Failed to start server');
-    if (error instanceof Error) {
-      console.error('Details:', error.message);
-      if ('code' in error && error.code === 'EADDRINUSE') {
-        console.error(`\nPort ${PORT} is already in use.`);
-        console.error('Try setting a different PORT environment variable.');
-      }
-    }
+    const inUse =
+      error instanceof Error && 'code' in error && error.code === 'EADDRINUSE';
+    logger.error('Failed to start server', {
+      error,
+      ...(inUse && {
+        hint: `Port ${port} is already in use, set a different PORT`,
+      }),
+    });
     process.exit(1);
   }
+
+  // Docker and Swarm stop containers with SIGTERM, Ctrl-C sends SIGINT;
+  // a second signal skips the remaining grace period and drain
+  let shuttingDown = false;
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      logger.warn('Forced exit', { signal });
+      process.exit(1);
+    }
+    shuttingDown = true;
+
+    logger.info('Shutting down', { signal });
+    reloader?.close();
+    server.stop().then(
+      () => {
+        logger.info('Server stopped');
+        process.exit(0);
+      },
+      (error: unknown) => {
+        logger.error('Failed to stop server', { error });
+        process.exit(1);
+      }
+    );
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
 }
 
-main().catch((error) => {
-  console.error('Unexpected error:');
-  console.error(error);
+main().catch((error: unknown) => {
+  logger.error('Unexpected error', { error });
   process.exit(1);
 });
@@ -0,0 +1,136 @@
+import type {
+  BlockData,
+  ChallengeMetadata,
+  ChapterData,
+  DataProvider,
+  SuperblockData,
+} from './data/types.js';
+
+/**
+ * Per-request loaders
+ * DataLoader-style batching and memoization in front of the DataProvider:
+ * lookups requested while resolving one level of a query are collected and
+ * dispatched as a single batch, and every key is fetched at most once per
+ * request. A fresh set of loaders is created for each request, so cached
+ * values never outlive the request's DataStore snapshot.
+ */
+
+export type BatchLoadFn<K, V> = (
+  keys: readonly K[]
+) => readonly V[] | Promise<readonly V[]>;
+
+/**
+ * Counters for one loader, reported by request profiling
+ * - loads: load() calls
+ * - cacheHits: load() calls answered from the per-request cache
+ * - batches: batch function invocations
+ */
+export interface LoaderStats {
+  loads: number;
+  cacheHits: number;
+  batches: number;
+}
+
+interface QueuedLoad<K, V> {
+  readonly key: K;
+  readonly resolve: (value: V) => void;
+  readonly reject: (error: unknown) => void;
+}
+
+/**
+ * Batching, memoizing loader
+ * Keys requested in the same tick are passed to the batch function together;
+ * it must return one value per key, in key order.
+ */
+export class Loader<K, V> {
+  private readonly cache = new Map<K, Promise<V>>();
+  private queue: QueuedLoad<K, V>[] = [];
+  readonly stats: LoaderStats = { loads: 0, cacheHits: 0, batches: 0 };
+
+  constructor(private readonly batchLoad: BatchLoadFn<K, V>) {}
+
+  /**
+   * Load one value, joining the current batch unless already cached
+   */
+  load(key: K): Promise<V> {
+    this.stats.loads++;
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      this.stats.cacheHits++;
+      return cached;
+    }
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+      if (this.queue.length === 1) {
+        process.nextTick(() => this.dispatch());
+      }
+    });
+    this.cache.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Load several values in one batch
+   * @returns Values in key order
+   */
+  loadMany(keys: readonly K[]): Promise<V[]> {
+    return Promise.all(keys.map((key) => this.load(key)));
+  }
+
+  private dispatch(): void {
+    const queue = this.queue;
+    this.queue = [];
+    this.stats.batches++;
+
+    const fail = (error: unknown) => {
+      for (const { key, reject } of queue) {
+        // Failed loads are not memoized, so a later load() retries
+        this.cache.delete(key);
+        reject(error);
+      }
+    };
+
+    Promise.resolve()
+      .then(() => this.batchLoad(queue.map(({ key }) => key)))
+      .then((values) => {
+        if (values.length !== queue.length) {
+          throw new Error(
+            `Batch load returned ${values.length} values for ${queue.length} keys`
+          );
+        }
+        queue.forEach(({ resolve }, index) => resolve(values[index] as V));
+      })
+      .catch(fail);
+  }
+}
+
+/**
+ * Loaders available to resolvers through the GraphQL context
+ * Chapter keys are built with chapterKey()
+ */
+export interface DataLoaders {
+  readonly superblock: Loader<string, SuperblockData | null>;
+  readonly block: Loader<string, BlockData | null>;
+  readonly challenge: Loader<string, ChallengeMetadata | null>;
+  readonly chapter: Loader<string, ChapterData | null>;
+}
+
+/**
+ * Create a fresh set of loaders for one request
+ * @param provider Request's DataProvider snapshot
+ */
+export function createDataLoaders(provider: DataProvider): DataLoaders {
+  return {
+    superblock: new Loader((names) =>
+      names.map((name) => provider.getSuperblock(name))
+    ),
+    block: new Loader((names) => names.map((name) => provider.getBlock(name))),
+    challenge: new Loader((ids) => ids.map((id) => provider.getChallenge(id))),
+    chapter: new Loader((keys) => {
+      const { chapters } = provider.getIndexes();
+      return keys.map((key) => chapters.get(key) ?? null);
+    }),
+  };
+}
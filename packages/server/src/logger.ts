@@ -0,0 +1,260 @@
+import { randomUUID } from 'node:crypto';
+import { getOperationAST } from 'graphql';
+import type { Plugin, YogaInitialContext, YogaLogger } from 'graphql-yoga';
+import type { GraphQLContext } from './context.js';
+import { isUnexpectedError, resultErrorCodes } from './schema/errors.js';
+
+/**
+ * Structured logging
+ * One line per entry: JSON objects for log collectors (production) or a
+ * compact human-readable form for local development. Child loggers add
+ * fixed fields such as the request id to every line they write.
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export const LOG_FORMATS = ['json', 'pretty'] as const;
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+export type LogFields = Readonly<Record<string, unknown>>;
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Incoming request ids are echoed and logged, so anything unusual is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+export interface LoggerOptions {
+  /** Entries below this level are dropped */
+  readonly level: LogLevel;
+  readonly format: LogFormat;
+  /** Fields added to every entry */
+  readonly fields?: LogFields;
+  /** Output sink, stdout (debug/info) and stderr (warn/error) by default */
+  readonly write?: (level: LogLevel, line: string) => void;
+}
+
+function writeToConsole(level: LogLevel, line: string): void {
+  const stream =
+    level === 'warn' || level === 'error' ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+}
+
+// Errors have no enumerable properties, so JSON.stringify would drop them
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function formatPrettyValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+  }
+  return JSON.stringify(value) ?? String(value);
+}
+
+export class Logger {
+  private readonly minLevel: number;
+  private readonly fields: LogFields;
+  private readonly write: (level: LogLevel, line: string) => void;
+
+  constructor(private readonly options: LoggerOptions) {
+    this.minLevel = LOG_LEVELS.indexOf(options.level);
+    this.fields = options.fields ?? {};
+    this.write = options.write ?? writeToConsole;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  /**
+   * Logger adding fields to every entry
+   * @param fields Fields merged over this logger's own fields
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({
+      ...this.options,
+      fields: { ...this.fields, ...fields },
+    });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= this.minLevel;
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const entries = Object.entries({ ...this.fields, ...fields })
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => [key, serializeValue(value)] as const);
+    const time = new Date().toISOString();
+
+    if (this.options.format === 'json') {
+      this.write(
+        level,
+        JSON.stringify({
+          time,
+          level,
+          msg: message,
+          ...Object.fromEntries(entries),
+        })
+      );
+      return;
+    }
+
+    const pairs = entries.map(
+      ([key, value]) => ` ${key}=${formatPrettyValue(value)}`
+    );
+    this.write(
+      level,
+      `${time.slice(11, 23)} ${level.toUpperCase().padEnd(5)} ${message}${pairs.join('')}`
+    );
+  }
+}
+
+/**
+ * Logger that writes nothing, for servers and tests without logging
+ */
+export const SILENT_LOGGER = new Logger({
+  level: 'error',
+  format: 'json',
+  write: () => undefined,
+});
+
+/**
+ * Request id of an incoming request
+ * Reuses a well-formed x-request-id header (set by a proxy or the client),
+ * otherwise generates one
+ */
+export function resolveRequestId(request: Request): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return incoming && REQUEST_ID_PATTERN.test(incoming)
+    ? incoming
+    : randomUUID();
+}
+
+const requestIds = new WeakMap<Request, string>();
+
+/**
+ * Request id of a request, resolved once
+ * The context logger, the summary entry and the response header all use it.
+ */
+export function getRequestId(request: Request): string {
+  let id = requestIds.get(request);
+  if (!id) {
+    id = resolveRequestId(request);
+    requestIds.set(request, id);
+  }
+  return id;
+}
+
+// Unexpected errors logged with their request, which Yoga logs again when
+// masking them
+const loggedErrors = new WeakSet<Error>();
+
+/**
+ * Yoga plugin assigning every request an id and logging its outcome
+ * The id is echoed in the x-request-id response header. One entry per
+ * GraphQL result carries the id, operation name, duration and error codes.
+ * Unexpected resolver errors are logged through the request's context
+ * logger before they are masked, so they carry the same id.
+ */
+export function useRequestLogging(logger: Logger): Plugin<GraphQLContext> {
+  const requests = new WeakMap<
+    Request,
+    { id: string; startedAt: number; operationName: string | null }
+  >();
+
+  return {
+    onRequest({ request }) {
+      requests.set(request, {
+        id: getRequestId(request),
+        startedAt: performance.now(),
+        operationName: null,
+      });
+    },
+    onParams({ params, request }) {
+      const state = requests.get(request);
+      if (state) state.operationName = params.operationName ?? null;
+    },
+    onExecute({ args }) {
+      const { request } = args.contextValue as YogaInitialContext;
+      const state = requests.get(request);
+      const operation = getOperationAST(args.document, args.operationName);
+      if (state && operation?.name) state.operationName = operation.name.value;
+
+      return {
+        onExecuteDone({ result }) {
+          if (Symbol.asyncIterator in result) return;
+          for (const error of result.errors ?? []) {
+            if (!isUnexpectedError(error)) continue;
+            args.contextValue.logger.error('Unexpected error', {
+              operationName: state?.operationName ?? null,
+              path: error.path?.join('.'),
+              error: error.originalError ?? error,
+            });
+            loggedErrors.add(error);
+          }
+        },
+      };
+    },
+    onResultProcess({ request, result }) {
+      const state = requests.get(request);
+      if (!state) return;
+
+      const errorCodes = resultErrorCodes(result);
+      logger.info('GraphQL request', {
+        requestId: state.id,
+        operationName: state.operationName,
+        durationMs:
+          Math.round((performance.now() - state.startedAt) * 100) / 100,
+        ...(errorCodes.length > 0 && { errorCodes }),
+      });
+    },
+    onResponse({ request, response }) {
+      const state = requests.get(request);
+      if (state) response.headers.set(REQUEST_ID_HEADER, state.id);
+    },
+  };
+}
+
+/**
+ * Adapter routing GraphQL Yoga's own log output (e.g. request handling
+ * errors) through a Logger
+ * Errors useRequestLogging already logged with their request are skipped.
+ */
+export function toYogaLogger(logger: Logger): YogaLogger {
+  const forward =
+    (level: LogLevel) =>
+    (...args: unknown[]): void => {
+      const [first, ...rest] = args;
+      if (first instanceof Error && loggedErrors.has(first)) return;
+      logger[level](first instanceof Error ? first.message : String(first), {
+        source: 'yoga',
+        ...(first instanceof Error && { error: first }),
+        ...(rest.length > 0 && { details: rest.map(serializeValue) }),
+      });
+    };
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+  };
+}
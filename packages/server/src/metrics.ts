@@ -0,0 +1,289 @@
+import { getOperationAST } from 'graphql';
+import type { Plugin, YogaInitialContext } from 'graphql-yoga';
+import type { DataProvider } from './data/types.js';
+import { resultErrorCodes } from './schema/errors.js';
+
+/**
+ * Prometheus metrics
+ * Counters and histograms are kept in memory and rendered in the
+ * Prometheus text exposition format on GET /metrics. Gauges (heap, entity
+ * counts) are read at scrape time.
+ */
+
+// Request latency buckets in seconds
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5,
+] as const;
+
+// Operation names come from clients, so only this many get their own label
+// and the rest share OTHER_OPERATION
+const MAX_OPERATION_NAMES = 100;
+const OTHER_OPERATION = '__other';
+const ANONYMOUS_OPERATION = '__anonymous';
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Readonly<Record<string, string>>;
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function header(name: string, type: string, help: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+class Counter {
+  private readonly values = new Map<
+    string,
+    { labels: Labels; value: number }
+  >();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: Labels, value = 1): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key);
+    if (entry) {
+      entry.value += value;
+    } else {
+      this.values.set(key, { labels, value });
+    }
+  }
+
+  render(): string[] {
+    return [
+      ...header(this.name, 'counter', this.help),
+      ...[...this.values.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+interface HistogramSeries {
+  readonly labels: Labels;
+  readonly bucketCounts: number[];
+  count: number;
+  sum: number;
+}
+
+class Histogram {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: readonly number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = formatLabels(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        labels,
+        bucketCounts: this.buckets.map(() => 0),
+        count: 0,
+        sum: 0,
+      };
+      this.series.set(key, series);
+    }
+
+    // Buckets are cumulative: a value counts towards every larger bound
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) {
+        series.bucketCounts[i] = (series.bucketCounts[i] ?? 0) + 1;
+      }
+    });
+    series.count += 1;
+    series.sum += value;
+  }
+
+  render(): string[] {
+    const lines = header(this.name, 'histogram', this.help);
+    for (const { labels, bucketCounts, count, sum } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        const le = formatLabels({ ...labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${le} ${bucketCounts[i] ?? 0}`);
+      });
+      const inf = formatLabels({ ...labels, le: '+Inf' });
+      lines.push(`${this.name}_bucket${inf} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+function gauge(
+  name: string,
+  help: string,
+  samples: readonly (readonly [Labels, number])[]
+): string[] {
+  return [
+    ...header(name, 'gauge', help),
+    ...samples.map(
+      ([labels, value]) => `${name}${formatLabels(labels)} ${value}`
+    ),
+  ];
+}
+
+interface DataLoadSample {
+  readonly durationSeconds: number;
+  readonly timestampSeconds: number;
+}
+
+/**
+ * Metrics of one server process
+ */
+export class ServerMetrics {
+  private readonly requests = new Counter(
+    'graphql_requests_total',
+    'GraphQL requests by operation name'
+  );
+  private readonly durations = new Histogram(
+    'graphql_request_duration_seconds',
+    'GraphQL request latency by operation name',
+    DURATION_BUCKETS
+  );
+  private readonly errors = new Counter(
+    'graphql_errors_total',
+    'GraphQL errors by extensions.code'
+  );
+  private readonly dataLoads = new Counter(
+    'curriculum_data_loads_total',
+    'Curriculum data loads (startup and reloads) by result'
+  );
+  private readonly operationNames = new Set<string>();
+  private lastLoad: DataLoadSample | null = null;
+
+  /**
+   * Record a finished GraphQL request
+   * @param operationName Operation name, or null for anonymous operations
+   * @param durationSeconds Time from receiving the request to its result
+   * @param errorCodes extensions.code of every error in the result
+   */
+  recordRequest(
+    operationName: string | null,
+    durationSeconds: number,
+    errorCodes: readonly string[]
+  ): void {
+    const operation = { operation_name: this.operationLabel(operationName) };
+    this.requests.inc(operation);
+    this.durations.observe(operation, durationSeconds);
+    for (const code of errorCodes) this.errors.inc({ code });
+  }
+
+  /**
+   * Record a curriculum data load (at startup or a reload)
+   * @param durationSeconds Time spent loading and validating
+   * @param success Whether the new data is being served
+   */
+  recordDataLoad(durationSeconds: number, success: boolean): void {
+    this.dataLoads.inc({ result: success ? 'success' : 'failure' });
+    if (success) {
+      this.lastLoad = { durationSeconds, timestampSeconds: Date.now() / 1000 };
+    }
+  }
+
+  /**
+   * Render every metric in the Prometheus text format
+   * @param provider Data provider whose current DataStore is counted
+   */
+  render(provider: DataProvider): string {
+    const stats = provider.getStats();
+    const memory = process.memoryUsage();
+
+    const lines = [
+      ...this.requests.render(),
+      ...this.durations.render(),
+      ...this.errors.render(),
+      ...gauge('process_heap_used_bytes', 'V8 heap in use', [
+        [{}, memory.heapUsed],
+      ]),
+      ...gauge('process_heap_total_bytes', 'V8 heap allocated', [
+        [{}, memory.heapTotal],
+      ]),
+      ...gauge(
+        'curriculum_entities',
+        'Loaded curriculum entities by type (shared ones counted once)',
+        [
+          [{ type: 'superblock' }, stats.superblockCount],
+          [{ type: 'chapter' }, stats.chapterCount],
+          [{ type: 'module' }, stats.moduleCount],
+          [{ type: 'block' }, stats.blockCount],
+          [{ type: 'challenge' }, stats.challengeCount],
+        ]
+      ),
+      ...this.dataLoads.render(),
+      ...gauge(
+        'curriculum_data_load_duration_seconds',
+        'Duration of the last successful data load',
+        this.lastLoad ? [[{}, this.lastLoad.durationSeconds]] : []
+      ),
+      ...gauge(
+        'curriculum_data_last_reload_timestamp_seconds',
+        'Unix time of the last successful data load',
+        this.lastLoad ? [[{}, this.lastLoad.timestampSeconds]] : []
+      ),
+    ];
+    return `${lines.join('\n')}\n`;
+  }
+
+  private operationLabel(operationName: string | null): string {
+    if (!operationName) return ANONYMOUS_OPERATION;
+    if (this.operationNames.has(operationName)) return operationName;
+    if (this.operationNames.size >= MAX_OPERATION_NAMES) return OTHER_OPERATION;
+    this.operationNames.add(operationName);
+    return operationName;
+  }
+}
+
+/**
+ * Yoga plugin recording request counts, latency and error codes
+ * Latency covers parsing, validation and execution. Operations rejected
+ * before execution are named after the operationName request parameter.
+ */
+export function useMetrics(metrics: ServerMetrics): Plugin {
+  const startedAt = new WeakMap<Request, number>();
+  const operationNames = new WeakMap<Request, string | null>();
+
+  return {
+    onRequest({ request }) {
+      startedAt.set(request, performance.now());
+    },
+    onParams({ params, request }) {
+      operationNames.set(request, params.operationName ?? null);
+    },
+    onExecute({ args }) {
+      const { request } = args.contextValue as YogaInitialContext;
+      const operation = getOperationAST(args.document, args.operationName);
+      if (operation?.name) operationNames.set(request, operation.name.value);
+    },
+    onResultProcess({ request, result }) {
+      const start = startedAt.get(request);
+      if (start === undefined) return;
+      startedAt.delete(request);
+
+      metrics.recordRequest(
+        operationNames.get(request) ?? null,
+        (performance.now() - start) / 1000,
+        resultErrorCodes(result)
+      );
+    },
+  };
+}
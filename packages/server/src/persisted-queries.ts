@@ -0,0 +1,204 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { Plugin } from 'graphql-yoga';
+import { useAPQ, type APQStore } from '@graphql-yoga/plugin-apq';
+import { usePersistedOperations } from '@graphql-yoga/plugin-persisted-operations';
+import { LRUCache } from './data/lru-cache.js';
+import { DataValidationError, type Result } from './data/types.js';
+
+/**
+ * Persisted queries
+ * Operations are identified by the SHA-256 hash of their document, sent as
+ * extensions.persistedQuery.sha256Hash (Apollo APQ protocol), so GET
+ * requests stay short and CDNs can cache them keyed by hash.
+ *
+ * Modes:
+ * - off: plain GraphQL, persisted query extensions are ignored
+ * - apq: hashes resolve from the manifest or from queries registered at
+ *   runtime (hash + query); arbitrary operations are still accepted
+ * - strict: only operations in the manifest run (production allow-list)
+ */
+
+export type PersistedQueriesMode = 'off' | 'apq' | 'strict';
+
+export const PERSISTED_QUERIES_MODES: readonly PersistedQueriesMode[] = [
+  'off',
+  'apq',
+  'strict',
+];
+
+/** Allow-listed operations: SHA-256 hex hash → document */
+export type PersistedQueryManifest = ReadonlyMap<string, string>;
+
+export interface PersistedQueriesConfig {
+  readonly mode: PersistedQueriesMode;
+  readonly manifest: PersistedQueryManifest;
+  /** Cache-Control max-age for successful persisted GET responses */
+  readonly maxAgeSeconds: number;
+}
+
+// Upper bound for queries registered at runtime in apq mode
+const APQ_CACHE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Hash a query document the way APQ clients do
+ * @returns Lowercase hex SHA-256 of the UTF-8 document
+ */
+export function hashQuery(query: string): string {
+  return createHash('sha256').update(query, 'utf-8').digest('hex');
+}
+
+/**
+ * Load an allow-list manifest
+ * Format: JSON object mapping each document's SHA-256 hash to the document,
+ * as written by graphql-codegen's persistedDocuments option
+ * @param filePath Path to the manifest JSON file
+ * @returns Manifest, or every malformed entry (including hash mismatches)
+ */
+export async function loadPersistedQueryManifest(
+  filePath: string
+): Promise<Result<PersistedQueryManifest, readonly DataValidationError[]>> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: [
+        new DataValidationError(
+          `Failed to read persisted query manifest: ${message}`,
+          filePath
+        ),
+      ],
+    };
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return {
+      success: false,
+      error: [
+        new DataValidationError(
+          'Persisted query manifest must be an object of hash → document',
+          filePath
+        ),
+      ],
+    };
+  }
+
+  const manifest = new Map<string, string>();
+  const errors: DataValidationError[] = [];
+  for (const [hash, query] of Object.entries(parsed)) {
+    if (typeof query !== 'string') {
+      errors.push(
+        new DataValidationError('Document must be a string', filePath, hash)
+      );
+    } else if (hashQuery(query) !== hash) {
+      errors.push(
+        new DataValidationError(
+          'Hash does not match the SHA-256 of the document',
+          filePath,
+          hash
+        )
+      );
+    } else {
+      manifest.set(hash, query);
+    }
+  }
+
+  return errors.length > 0
+    ? { success: false, error: errors }
+    : { success: true, data: manifest };
+}
+
+/**
+ * APQ store serving manifest entries first, then queries registered at
+ * runtime (kept in a byte-bounded LRU cache)
+ */
+function createAPQStore(manifest: PersistedQueryManifest): APQStore {
+  const registered = new LRUCache<string, string>({
+    maxBytes: APQ_CACHE_BYTES,
+    sizeOf: (query) => query.length * 2,
+  });
+
+  return {
+    get: (hash) => manifest.get(hash) ?? registered.get(hash) ?? null,
+    set: (hash, query) => {
+      if (!manifest.has(hash)) registered.set(hash, query);
+    },
+  };
+}
+
+/**
+ * Mark successful persisted GET responses as publicly cacheable
+ * Only hash-only GET requests qualify, so the URL is a stable cache key
+ */
+function usePersistedQueryCaching(maxAgeSeconds: number): Plugin {
+  const cacheable = new WeakSet<Request>();
+
+  return {
+    onParams({ request, params }) {
+      if (
+        request.method === 'GET' &&
+        !params.query &&
+        params.extensions?.['persistedQuery'] != null
+      ) {
+        cacheable.add(request);
+      }
+    },
+    onResultProcess({ request, result }) {
+      // Errors and batched or streamed results are never cached
+      if (
+        Array.isArray(result) ||
+        Symbol.asyncIterator in result ||
+        result.errors?.length
+      ) {
+        cacheable.delete(request);
+      }
+    },
+    onResponse({ request, response }) {
+      if (cacheable.has(request) && response.status === 200) {
+        response.headers.set(
+          'Cache-Control',
+          `public, max-age=${maxAgeSeconds}`
+        );
+      }
+    },
+  };
+}
+
+/**
+ * Build the Yoga plugins for a persisted queries mode
+ * @param config Mode, allow-list manifest and GET cache lifetime
+ * @returns Plugins to add to createYoga (empty when mode is off)
+ */
+export function createPersistedQueryPlugins(
+  config: PersistedQueriesConfig
+): Plugin[] {
+  switch (config.mode) {
+    case 'off':
+      return [];
+    case 'apq':
+      return [
+        usePersistedQueryCaching(config.maxAgeSeconds),
+        useAPQ({ store: createAPQStore(config.manifest) }),
+      ];
+    case 'strict':
+      return [
+        usePersistedQueryCaching(config.maxAgeSeconds),
+        usePersistedOperations({
+          getPersistedOperation: (hash) => config.manifest.get(hash) ?? null,
+          allowArbitraryOperations: false,
+          customErrors: {
+            persistedQueryOnly: {
+              message: 'Only persisted operations are allowed',
+              extensions: {
+                code: 'PERSISTED_QUERY_ONLY',
+                http: { status: 400 },
+              },
+            },
+          },
+        }),
+      ];
+  }
+}
@@ -0,0 +1,93 @@
+import type { Plugin, YogaInitialContext } from 'graphql-yoga';
+import { useOnResolve } from '@envelop/on-resolve';
+import type { GraphQLContext } from './context.js';
+import type { DataLoaders, LoaderStats } from './loaders.js';
+
+/**
+ * Per-request profiling
+ * When enabled, every resolver call is counted by schema coordinate
+ * ("Type.field") and the counts, together with loader statistics, are
+ * returned to the client in the result's extensions.profile.
+ */
+
+export interface RequestProfileSummary {
+  readonly resolverCalls: Readonly<Record<string, number>>;
+  readonly loaders: Readonly<Record<keyof DataLoaders, LoaderStats>>;
+}
+
+export class RequestProfile {
+  private readonly resolverCalls = new Map<string, number>();
+
+  constructor(private readonly loaders: DataLoaders) {}
+
+  /**
+   * Count one resolver call
+   * @param coordinate Schema coordinate, e.g. "Block.superblocks"
+   */
+  recordResolverCall(coordinate: string): void {
+    this.resolverCalls.set(
+      coordinate,
+      (this.resolverCalls.get(coordinate) ?? 0) + 1
+    );
+  }
+
+  /**
+   * Resolver call counts so far (empty unless profiling is enabled)
+   */
+  getResolverCalls(): ReadonlyMap<string, number> {
+    return this.resolverCalls;
+  }
+
+  /**
+   * JSON-serializable snapshot of the profile
+   */
+  summarize(): RequestProfileSummary {
+    const { superblock, block, challenge, chapter } = this.loaders;
+    return {
+      resolverCalls: Object.fromEntries(this.resolverCalls),
+      loaders: {
+        superblock: { ...superblock.stats },
+        block: { ...block.stats },
+        challenge: { ...challenge.stats },
+        chapter: { ...chapter.stats },
+      },
+    };
+  }
+}
+
+/**
+ * Yoga plugin counting resolver calls and reporting them in
+ * extensions.profile
+ * Default (property) resolvers are not counted
+ */
+export function useRequestProfiling(): Plugin<GraphQLContext> {
+  return {
+    onPluginInit({ addPlugin }) {
+      addPlugin(
+        useOnResolve<YogaInitialContext & GraphQLContext>(
+          ({ context, info }) => {
+            context.profile.recordResolverCall(
+              `${info.parentType.name}.${info.fieldName}`
+            );
+          },
+          { skipDefaultResolvers: true }
+        )
+      );
+    },
+    onExecute() {
+      return {
+        onExecuteDone({ args, result, setResult }) {
+          // Streamed results have no single payload to annotate
+          if (Symbol.asyncIterator in result) return;
+          setResult({
+            ...result,
+            extensions: {
+              ...result.extensions,
+              profile: args.contextValue.profile.summarize(),
+            },
+          });
+        },
+      };
+    },
+  };
+}
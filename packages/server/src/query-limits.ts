@@ -0,0 +1,442 @@
+import {
+  GraphQLError,
+  Kind,
+  getNamedType,
+  getNullableType,
+  isCompositeType,
+  isListType,
+  isObjectType,
+  isInterfaceType,
+  type ASTVisitor,
+  type FieldNode,
+  type GraphQLCompositeType,
+  type GraphQLField,
+  type OperationDefinitionNode,
+  type SelectionSetNode,
+  type ValidationContext,
+  type ValidationRule,
+} from 'graphql';
+import type { Plugin } from 'graphql-yoga';
+import type { CurriculumData, DataProvider } from './data/types.js';
+import { BlockLabel, BlockLayout } from './data/types.js';
+import { DEFAULT_SEARCH_LIMIT } from './data/search.js';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './schema/pagination.js';
+
+/**
+ * Query depth, alias and cost limits
+ * The schema links both ways (Block.superblocks ↔ Superblock.blockObjects,
+ * Challenge.block ↔ Block.challengeOrder), so a small document can fan out
+ * to millions of resolver calls. These validation rules reject such
+ * documents before execution.
+ *
+ * Cost model: every object returned costs 1, and a list multiplies the cost
+ * of its selection by its expected length. Expected lengths come from the
+ * loaded curriculum (average length for nested lists, totals for unfiltered
+ * root lists), so a query's cost approximates the objects it would return.
+ */
+
+export interface QueryLimits {
+  readonly maxDepth: number;
+  readonly maxAliases: number;
+  readonly maxCost: number;
+}
+
+export const DEFAULT_QUERY_LIMITS: QueryLimits = {
+  maxDepth: 10,
+  maxAliases: 20,
+  maxCost: 50_000,
+};
+
+/**
+ * Expected list lengths keyed by "Type.field"
+ * Root lists called with a parent argument use "Query.field(filtered)"
+ */
+export type ListSizes = ReadonlyMap<string, number>;
+
+// Lists without an estimate (e.g. ChallengeContent.tests)
+const DEFAULT_LIST_SIZE = 10;
+
+/**
+ * Estimate list lengths from the loaded curriculum
+ * @param provider Data provider to measure
+ * @returns Expected length of every curriculum list field
+ */
+export function estimateListSizes(provider: DataProvider): ListSizes {
+  const curriculum = provider.getCurriculum();
+  const superblocks = curriculum.superblocks
+    .map((name) => provider.getSuperblock(name))
+    .filter((superblock) => superblock !== null);
+  const chapters = superblocks.flatMap((superblock) => superblock.chapters);
+  const modules = chapters.flatMap((chapter) => chapter.modules);
+
+  const blocks = new Map(
+    superblocks
+      .flatMap((superblock) => superblock.blocks)
+      .map((name) => [name, provider.getBlock(name)] as const)
+  );
+  let challengeCount = 0;
+  let blockParentCount = 0;
+  for (const block of blocks.values()) {
+    challengeCount += block?.challenges.length ?? 0;
+    blockParentCount += block?.superblockDashedNames.length ?? 0;
+  }
+
+  // Average children per parent, rounded up and at least 1
+  const average = (children: number, parents: number) =>
+    parents > 0 ? Math.max(1, Math.ceil(children / parents)) : 1;
+  const sum = (counts: number[]) => counts.reduce((a, b) => a + b, 0);
+
+  return new Map([
+    ['Query.superblocks', superblocks.length],
+    ['Query.blocks', blocks.size],
+    ['Query.blocks(filtered)', average(blocks.size, superblocks.length)],
+    ['Query.challenges', challengeCount],
+    ['Query.challenges(filtered)', average(challengeCount, blocks.size)],
+    ['Query.chapters', chapters.length],
+    ['Query.chapters(filtered)', average(chapters.length, superblocks.length)],
+    ['Query.modules', modules.length],
+    ['Query.modules(filtered)', average(modules.length, superblocks.length)],
+    ['Query.certifications', curriculum.certifications.length],
+    ['Query.search', DEFAULT_SEARCH_LIMIT],
+    ['Query.nodes', MAX_PAGE_SIZE],
+    [
+      'Superblock.blockObjects',
+      average(
+        sum(superblocks.map((superblock) => superblock.blocks.length)),
+        superblocks.length
+      ),
+    ],
+    ['Superblock.chapters', average(chapters.length, superblocks.length)],
+    ['Chapter.modules', average(modules.length, chapters.length)],
+    [
+      'Module.blockObjects',
+      average(
+        sum(modules.map((module) => module.blocks.length)),
+        modules.length
+      ),
+    ],
+    ['Block.challengeOrder', average(challengeCount, blocks.size)],
+    ['Block.superblocks', average(blockParentCount, blocks.size)],
+    ['Block.chapters', average(blockParentCount, blocks.size)],
+    ['Block.modules', average(blockParentCount, blocks.size)],
+    ['Challenge.path', average(blockParentCount, blocks.size)],
+    ['CurriculumStats.superblocks', superblocks.length],
+    ['CurriculumStats.blocksByLabel', Object.keys(BlockLabel).length + 1],
+    ['CurriculumStats.blocksByLayout', Object.keys(BlockLayout).length],
+    ['SuperblockStats.chapters', average(chapters.length, superblocks.length)],
+    ['ChapterStats.modules', average(modules.length, chapters.length)],
+  ]);
+}
+
+function limitError(
+  message: string,
+  node: OperationDefinitionNode,
+  extensions: Record<string, number | string>
+): GraphQLError {
+  return new GraphQLError(message, { nodes: [node], extensions });
+}
+
+/**
+ * Fields of a selection set and the names of the fragments it spreads
+ * Inline fragments are flattened and introspection fields (__schema, __type)
+ * are skipped
+ */
+function splitSelections(selectionSet: SelectionSetNode): {
+  fields: FieldNode[];
+  spreads: string[];
+} {
+  const fields: FieldNode[] = [];
+  const spreads: string[] = [];
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FIELD) {
+      if (!selection.name.value.startsWith('__')) fields.push(selection);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      const inline = splitSelections(selection.selectionSet);
+      fields.push(...inline.fields);
+      spreads.push(...inline.spreads);
+    } else {
+      spreads.push(selection.name.value);
+    }
+  }
+  return { fields, spreads };
+}
+
+/**
+ * Per-document cache of a measure of each fragment
+ * Every fragment is measured once per key, however often it is spread, so
+ * fragments spreading each other cannot make validation exponential. Unknown
+ * fragments and fragment cycles (reported by KnownFragmentNames and
+ * NoFragmentCycles) measure as `empty`.
+ */
+function fragmentCache<T>(context: ValidationContext, empty: T) {
+  const results = new Map<string, T>();
+  const measuring = new Set<string>();
+
+  return (
+    name: string,
+    key: string,
+    measure: (selectionSet: SelectionSetNode) => T
+  ): T => {
+    const cacheKey = `${name}:${key}`;
+    const cached = results.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    const fragment = context.getFragment(name);
+    if (!fragment || measuring.has(name)) return empty;
+    measuring.add(name);
+    try {
+      const result = measure(fragment.selectionSet);
+      results.set(cacheKey, result);
+      return result;
+    } finally {
+      measuring.delete(name);
+    }
+  };
+}
+
+/**
+ * Look up a field definition on an object or interface type
+ */
+function fieldDefinition(
+  parentType: GraphQLCompositeType,
+  fieldName: string
+): GraphQLField<unknown, unknown> | null {
+  if (isObjectType(parentType) || isInterfaceType(parentType)) {
+    return parentType.getFields()[fieldName] ?? null;
+  }
+  return null;
+}
+
+/**
+ * Read a literal `first` argument; variables count as the maximum page size
+ * Values outside 1..MAX_PAGE_SIZE are only rejected during execution, so
+ * they count as the maximum page size too (a negative value would otherwise
+ * lower the cost of the whole query)
+ */
+function firstArgument(field: FieldNode): number | null {
+  const argument = field.arguments?.find((arg) => arg.name.value === 'first');
+  if (!argument) return null;
+  if (argument.value.kind === Kind.INT) {
+    const first = parseInt(argument.value.value);
+    return first >= 1 && first <= MAX_PAGE_SIZE ? first : MAX_PAGE_SIZE;
+  }
+  if (argument.value.kind === Kind.VARIABLE) return MAX_PAGE_SIZE;
+  return null;
+}
+
+/**
+ * Expected length of a list field
+ * Explicit `first` wins, then the curriculum estimate, then the page size
+ * of the enclosing connection (for its edges and nodes)
+ */
+function listSize(
+  listSizes: ListSizes,
+  parentType: GraphQLCompositeType,
+  field: FieldNode,
+  pageSize: number | null
+): number {
+  const first = firstArgument(field);
+  if (first !== null) return first;
+
+  const key = `${parentType.name}.${field.name.value}`;
+  // A filter input alone can still match nearly every item, so only the
+  // parent arguments (superblock, block, chapter) narrow the estimate
+  const filtered = (field.arguments ?? []).some(
+    (arg) => arg.name.value !== 'filter'
+  );
+  return (
+    (filtered ? listSizes.get(`${key}(filtered)`) : undefined) ??
+    listSizes.get(key) ??
+    pageSize ??
+    DEFAULT_LIST_SIZE
+  );
+}
+
+/**
+ * Reject operations nested deeper than maxDepth fields
+ */
+function depthLimitRule(maxDepth: number): ValidationRule {
+  return (context) => {
+    const fragmentDepth = fragmentCache(context, 0);
+    const depthOf = (selectionSet: SelectionSetNode): number => {
+      const { fields, spreads } = splitSelections(selectionSet);
+      let depth = 0;
+      for (const field of fields) {
+        const fieldDepth =
+          1 + (field.selectionSet ? depthOf(field.selectionSet) : 0);
+        depth = Math.max(depth, fieldDepth);
+      }
+      for (const name of spreads) {
+        depth = Math.max(depth, fragmentDepth(name, '', depthOf));
+      }
+      return depth;
+    };
+
+    return {
+      OperationDefinition(node) {
+        const depth = depthOf(node.selectionSet);
+        if (depth > maxDepth) {
+          context.reportError(
+            limitError(
+              `Query depth ${depth} exceeds the maximum of ${maxDepth}`,
+              node,
+              { code: 'QUERY_TOO_DEEP', depth, maxDepth }
+            )
+          );
+        }
+      },
+    } satisfies ASTVisitor;
+  };
+}
+
+/**
+ * Reject operations using more than maxAliases aliases (fragments included)
+ * Aliases let one document repeat an expensive field many times
+ */
+function aliasLimitRule(maxAliases: number): ValidationRule {
+  return (context) => {
+    const fragmentAliases = fragmentCache(context, 0);
+    const aliasesOf = (selectionSet: SelectionSetNode): number => {
+      const { fields, spreads } = splitSelections(selectionSet);
+      return (
+        fields.reduce(
+          (count, field) =>
+            count +
+            (field.alias ? 1 : 0) +
+            (field.selectionSet ? aliasesOf(field.selectionSet) : 0),
+          0
+        ) +
+        spreads.reduce(
+          (count, name) => count + fragmentAliases(name, '', aliasesOf),
+          0
+        )
+      );
+    };
+
+    return {
+      OperationDefinition(node) {
+        const aliases = aliasesOf(node.selectionSet);
+        if (aliases > maxAliases) {
+          context.reportError(
+            limitError(
+              `Query uses ${aliases} aliases, more than the maximum of ${maxAliases}`,
+              node,
+              { code: 'TOO_MANY_ALIASES', aliases, maxAliases }
+            )
+          );
+        }
+      },
+    } satisfies ASTVisitor;
+  };
+}
+
+/**
+ * Reject operations whose estimated cost exceeds maxCost
+ */
+function costLimitRule(
+  maxCost: number,
+  getListSizes: () => ListSizes
+): ValidationRule {
+  return (context) => {
+    const listSizes = getListSizes();
+    // A fragment's cost depends on where it is spread
+    const fragmentCost = fragmentCache(context, 0);
+
+    const costOf = (
+      selectionSet: SelectionSetNode,
+      parentType: GraphQLCompositeType,
+      pageSize: number | null
+    ): number => {
+      const { fields, spreads } = splitSelections(selectionSet);
+      const fieldsCost = fields.reduce((total, node) => {
+        const definition = fieldDefinition(parentType, node.name.value);
+        const fieldType = definition ? getNamedType(definition.type) : null;
+        if (!definition || !node.selectionSet || !isCompositeType(fieldType)) {
+          return total;
+        }
+
+        // Connection fields pass their page size to edges and nodes
+        const isPaginated = definition.args.some((arg) => arg.name === 'first');
+        const childCost = costOf(
+          node.selectionSet,
+          fieldType,
+          isPaginated ? (firstArgument(node) ?? DEFAULT_PAGE_SIZE) : null
+        );
+        const multiplier = isListType(getNullableType(definition.type))
+          ? listSize(listSizes, parentType, node, pageSize)
+          : 1;
+        return total + multiplier * (1 + childCost);
+      }, 0);
+      return spreads.reduce(
+        (total, name) =>
+          total +
+          fragmentCost(name, `${parentType.name}:${pageSize}`, (fragment) =>
+            costOf(fragment, parentType, pageSize)
+          ),
+        fieldsCost
+      );
+    };
+
+    return {
+      OperationDefinition(node) {
+        const rootType = context.getSchema().getRootType(node.operation);
+        if (!rootType) return;
+
+        const cost = costOf(node.selectionSet, rootType, null);
+        if (cost > maxCost) {
+          context.reportError(
+            limitError(
+              `Query cost ${cost} exceeds the maximum of ${maxCost}`,
+              node,
+              { code: 'QUERY_TOO_COMPLEX', cost, maxCost }
+            )
+          );
+        }
+      },
+    } satisfies ASTVisitor;
+  };
+}
+
+/**
+ * Validation rules enforcing the given limits
+ * @param limits Maximum depth, aliases and cost
+ * @param getListSizes Current list length estimates (read once per document)
+ */
+export function createQueryLimitRules(
+  limits: QueryLimits,
+  getListSizes: () => ListSizes
+): ValidationRule[] {
+  return [
+    depthLimitRule(limits.maxDepth),
+    aliasLimitRule(limits.maxAliases),
+    costLimitRule(limits.maxCost, getListSizes),
+  ];
+}
+
+/**
+ * Yoga plugin adding the query limit rules to validation
+ * List sizes are re-estimated whenever a reload swaps in new curriculum data
+ * @param limits Maximum depth, aliases and cost
+ * @param dataProvider Provider whose data sizes the cost model
+ */
+export function useQueryLimits(
+  limits: QueryLimits,
+  dataProvider: DataProvider
+): Plugin {
+  let measured: { curriculum: CurriculumData; sizes: ListSizes } | null = null;
+  const getListSizes = () => {
+    const provider = dataProvider.snapshot();
+    const curriculum = provider.getCurriculum();
+    if (measured?.curriculum !== curriculum) {
+      measured = { curriculum, sizes: estimateListSizes(provider) };
+    }
+    return measured.sizes;
+  };
+
+  const rules = createQueryLimitRules(limits, getListSizes);
+  return {
+    onValidate({ addValidationRule }) {
+      for (const rule of rules) addValidationRule(rule);
+    },
+  };
+}
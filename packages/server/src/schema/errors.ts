@@ -0,0 +1,141 @@
+import { GraphQLError, type ExecutionResult } from 'graphql';
+import type { NodeType } from './node.js';
+
+/**
+ * GraphQL error taxonomy
+ * Every error a resolver raises on purpose carries one of these codes in
+ * extensions.code, plus fields identifying what failed. Anything else is
+ * unexpected and masked as INTERNAL_SERVER_ERROR (see ServerConfig).
+ *
+ * - BAD_USER_INPUT: An argument is invalid (extensions.argumentName)
+ * - NOT_FOUND: A requested entity does not exist (entityType, key); only
+ *   used by NotFound results, lookups otherwise return null
+ * - DATA_INTEGRITY: Loaded data references an entity that is missing
+ *   (entityType, key, referencedBy)
+ * - CONTENT_LOAD_FAILED: Challenge content exists but cannot be read
+ * - INTERNAL_SERVER_ERROR: Masked unexpected error
+ *
+ * Request-level rejections keep their own codes (QUERY_TOO_COMPLEX and the
+ * other limits in query-limits.ts, persisted query errors).
+ */
+
+export const ErrorCode = {
+  BAD_USER_INPUT: 'BAD_USER_INPUT',
+  NOT_FOUND: 'NOT_FOUND',
+  DATA_INTEGRITY: 'DATA_INTEGRITY',
+  CONTENT_LOAD_FAILED: 'CONTENT_LOAD_FAILED',
+  INTERNAL_SERVER_ERROR: 'INTERNAL_SERVER_ERROR',
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+/**
+ * Invalid argument value
+ * @param message Explanation including the accepted values
+ * @param argumentName Name of the offending argument
+ */
+export function badUserInput(
+  message: string,
+  argumentName: string
+): GraphQLError {
+  return new GraphQLError(message, {
+    extensions: { code: ErrorCode.BAD_USER_INPUT, argumentName },
+  });
+}
+
+/**
+ * Reference from loaded data to an entity that is not loaded
+ * @param entityType Type of the missing entity
+ * @param key Key of the missing entity
+ * @param referencedBy Entity holding the reference, as "<Type>:<key>"
+ */
+export function dataIntegrityError(
+  entityType: NodeType,
+  key: string,
+  referencedBy: string
+): GraphQLError {
+  return new GraphQLError(
+    `${entityType} "${key}" referenced by ${referencedBy} is not loaded`,
+    {
+      extensions: {
+        code: ErrorCode.DATA_INTEGRITY,
+        entityType,
+        key,
+        referencedBy,
+      },
+    }
+  );
+}
+
+/**
+ * Challenge content that exists but failed to load
+ * @param challengeId Challenge whose content failed
+ */
+export function contentLoadError(challengeId: string): GraphQLError {
+  return new GraphQLError(
+    `Failed to load content for challenge: ${challengeId}`,
+    { extensions: { code: ErrorCode.CONTENT_LOAD_FAILED, challengeId } }
+  );
+}
+
+/**
+ * NotFound member of the lookup result unions
+ */
+export interface NotFoundResult {
+  readonly code: typeof ErrorCode.NOT_FOUND;
+  readonly message: string;
+  readonly entityType: NodeType;
+  readonly key: string;
+}
+
+/**
+ * NotFound result for a lookup whose key matched nothing
+ * @param entityType Type that was looked up
+ * @param key dashedName or id that was looked up
+ */
+export function notFound(entityType: NodeType, key: string): NotFoundResult {
+  return {
+    code: ErrorCode.NOT_FOUND,
+    message: `${entityType} "${key}" not found`,
+    entityType,
+    key,
+  };
+}
+
+/**
+ * Whether a lookup result is NotFound rather than the entity
+ * Used by the result unions' __resolveType
+ */
+export function isNotFound(value: object): value is NotFoundResult {
+  return 'code' in value && value.code === ErrorCode.NOT_FOUND;
+}
+
+/**
+ * Whether an error is outside the taxonomy and gets masked
+ * Like Yoga's masking, looks through to the innermost originalError: it is
+ * unexpected unless that is a GraphQLError thrown on purpose.
+ */
+export function isUnexpectedError(error: GraphQLError): boolean {
+  let cause: Error = error;
+  while (cause instanceof GraphQLError && cause.originalError) {
+    cause = cause.originalError;
+  }
+  return !(cause instanceof GraphQLError);
+}
+
+/**
+ * extensions.code of every error in a request's result
+ * Subscriptions and batched requests have no single result to inspect, so
+ * they report none. Errors without a code count as INTERNAL_SERVER_ERROR.
+ */
+export function resultErrorCodes(
+  result:
+    | ExecutionResult
+    | readonly ExecutionResult[]
+    | AsyncIterable<ExecutionResult>
+): string[] {
+  if (Symbol.asyncIterator in result || Array.isArray(result)) return [];
+  return ((result as ExecutionResult).errors ?? []).map((error) =>
+    String(error.extensions?.['code'] ?? ErrorCode.INTERNAL_SERVER_ERROR)
+  );
+}
@@ -0,0 +1,154 @@
+import type {
+  BlockData,
+  BlockLabel,
+  BlockLayout,
+  ChallengeMetadata,
+  DataStoreIndexes,
+} from '../data/types.js';
+
+/**
+ * BlockFilter / ChallengeFilter inputs
+ * Every field that is set must match (AND); unset or null fields match
+ * everything. The filters combine with the superblock/block arguments of
+ * the list queries.
+ */
+
+export interface BlockFilter {
+  readonly blockLabel?: BlockLabel | null;
+  readonly blockLayout?: BlockLayout | null;
+  readonly helpCategory?: string | null;
+  readonly isUpcomingChange?: boolean | null;
+  readonly usesMultifileEditor?: boolean | null;
+  readonly hasEditableBoundaries?: boolean | null;
+  /** Chapter dashedName the block must be placed in */
+  readonly chapter?: string | null;
+  /** Module dashedName the block must be placed in */
+  readonly module?: string | null;
+}
+
+export interface ChallengeFilter {
+  /** Conditions on the challenge's block */
+  readonly block?: BlockFilter | null;
+  /** Case-insensitive substring of the title */
+  readonly titleContains?: string | null;
+}
+
+const isSet = <T>(value: T | null | undefined): value is T =>
+  value !== null && value !== undefined;
+
+/**
+ * Smallest precomputed candidate list for a filter
+ * Narrowing by an indexed field first avoids scanning every block
+ */
+function candidateBlocks(
+  indexes: DataStoreIndexes,
+  filter: BlockFilter
+): readonly BlockData[] {
+  if (isSet(filter.blockLabel)) {
+    return indexes.blocksByLabel.get(filter.blockLabel) ?? [];
+  }
+  if (isSet(filter.blockLayout)) {
+    return indexes.blocksByLayout.get(filter.blockLayout) ?? [];
+  }
+  if (isSet(filter.helpCategory)) {
+    return indexes.blocksByHelpCategory.get(filter.helpCategory) ?? [];
+  }
+  return indexes.blockList;
+}
+
+/**
+ * Build a block predicate for a filter
+ * @param indexes Placements for chapter/module conditions
+ * @param filter Conditions to match
+ * @param superblockDashedName Limits chapter/module placements to one
+ *   superblock
+ */
+function blockPredicate(
+  indexes: DataStoreIndexes,
+  filter: BlockFilter,
+  superblockDashedName?: string | null
+): (block: BlockData) => boolean {
+  const { chapter, module } = filter;
+  const isPlaced = (block: BlockData) =>
+    (indexes.placementsByBlock.get(block.dashedName) ?? []).some(
+      (placement) =>
+        (!superblockDashedName ||
+          placement.superblockDashedName === superblockDashedName) &&
+        (!isSet(chapter) || placement.chapterDashedName === chapter) &&
+        (!isSet(module) || placement.moduleDashedName === module)
+    );
+
+  return (block) =>
+    (!isSet(filter.blockLabel) || block.blockLabel === filter.blockLabel) &&
+    (!isSet(filter.blockLayout) || block.blockLayout === filter.blockLayout) &&
+    (!isSet(filter.helpCategory) ||
+      block.helpCategory === filter.helpCategory) &&
+    (!isSet(filter.isUpcomingChange) ||
+      block.isUpcomingChange === filter.isUpcomingChange) &&
+    (!isSet(filter.usesMultifileEditor) ||
+      (block.usesMultifileEditor ?? false) === filter.usesMultifileEditor) &&
+    (!isSet(filter.hasEditableBoundaries) ||
+      (block.hasEditableBoundaries ?? false) ===
+        filter.hasEditableBoundaries) &&
+    ((!isSet(chapter) && !isSet(module)) || isPlaced(block));
+}
+
+/**
+ * Apply a BlockFilter
+ * @param indexes Precomputed DataStore indexes
+ * @param blocks Blocks already limited to a superblock, or null for all
+ *   unique blocks
+ * @param filter Conditions to match
+ * @param superblockDashedName Superblock the list is limited to, if any
+ * @returns Matching blocks, in the order given
+ */
+export function filterBlocks(
+  indexes: DataStoreIndexes,
+  blocks: readonly BlockData[] | null,
+  filter: BlockFilter,
+  superblockDashedName?: string | null
+): readonly BlockData[] {
+  const matches = blockPredicate(indexes, filter, superblockDashedName);
+  return (blocks ?? candidateBlocks(indexes, filter)).filter(matches);
+}
+
+/**
+ * Apply a ChallengeFilter
+ * @param indexes Precomputed DataStore indexes
+ * @param block Block the list is limited to, or null for all unique
+ *   challenges
+ * @param filter Conditions to match
+ * @returns Matching challenges in curriculum order
+ */
+export function filterChallenges(
+  indexes: DataStoreIndexes,
+  block: BlockData | null,
+  filter: ChallengeFilter
+): readonly ChallengeMetadata[] {
+  const blockFilter = filter.block;
+
+  let candidates: readonly ChallengeMetadata[];
+  if (block) {
+    const matches = !blockFilter || blockPredicate(indexes, blockFilter)(block);
+    candidates = matches ? block.challenges : [];
+  } else if (blockFilter) {
+    // Collect challenges of matching blocks instead of testing every
+    // challenge; shared challenges are listed once, like challengeList
+    const seen = new Set<string>();
+    candidates = filterBlocks(indexes, null, blockFilter)
+      .flatMap((b) => b.challenges)
+      .filter((challenge) => {
+        if (seen.has(challenge.id)) return false;
+        seen.add(challenge.id);
+        return true;
+      });
+  } else {
+    candidates = indexes.challengeList;
+  }
+
+  const title = filter.titleContains?.toLowerCase();
+  if (!title) return candidates;
+  return candidates.filter((challenge) =>
+    challenge.title.toLowerCase().includes(title)
+  );
+}
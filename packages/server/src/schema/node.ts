@@ -0,0 +1,117 @@
+import type {
+  BlockData,
+  ChallengeMetadata,
+  ChapterData,
+  DataProvider,
+  ModuleData,
+  SuperblockData,
+} from '../data/types.js';
+import { chapterKey, moduleKey } from '../data/indexes.js';
+
+/**
+ * Relay global object identification
+ * Global IDs are opaque base64url strings wrapping "<Type>:<key>", where the
+ * key is the entity's natural key (dashedName, or the composite
+ * "<superblock>/<chapter>[/<module>]" for chapters and modules).
+ *
+ * Challenge ids are already globally unique ObjectIds, so Challenge.id stays
+ * the plain id; node() accepts it as well as its encoded form. Encoded IDs
+ * always contain an uppercase letter, so they never clash with the
+ * lowercase hex challenge ids.
+ */
+
+export type NodeType =
+  'Superblock' | 'Block' | 'Chapter' | 'Module' | 'Challenge';
+
+const NODE_TYPES: ReadonlySet<string> = new Set<NodeType>([
+  'Superblock',
+  'Block',
+  'Chapter',
+  'Module',
+  'Challenge',
+]);
+
+export type NodeData =
+  SuperblockData | BlockData | ChapterData | ModuleData | ChallengeMetadata;
+
+/**
+ * Encode a global ID
+ * @param type GraphQL type name
+ * @param key Natural key of the entity within its type
+ */
+export function toGlobalId(type: NodeType, key: string): string {
+  return Buffer.from(`${type}:${key}`, 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a global ID
+ * @returns Type and key, or null if the ID is not an encoded global ID
+ */
+export function fromGlobalId(
+  id: string
+): { readonly type: NodeType; readonly key: string } | null {
+  const decoded = Buffer.from(id, 'base64url').toString('utf-8');
+  const separator = decoded.indexOf(':');
+  const type = decoded.slice(0, separator);
+  if (separator < 0 || !isNodeType(type)) return null;
+  return { type, key: decoded.slice(separator + 1) };
+}
+
+function isNodeType(type: string): type is NodeType {
+  return NODE_TYPES.has(type);
+}
+
+export function chapterGlobalId(chapter: ChapterData): string {
+  return toGlobalId(
+    'Chapter',
+    chapterKey(chapter.superblockDashedName, chapter.dashedName)
+  );
+}
+
+export function moduleGlobalId(module: ModuleData): string {
+  return toGlobalId(
+    'Module',
+    moduleKey(
+      module.superblockDashedName,
+      module.chapterDashedName,
+      module.dashedName
+    )
+  );
+}
+
+/**
+ * Fetch the entity behind a global ID (or plain challenge id)
+ * @returns Entity, or null if the ID is malformed or unknown
+ */
+export function resolveNode(
+  context: DataProvider,
+  id: string
+): NodeData | null {
+  const globalId = fromGlobalId(id);
+  if (!globalId) return context.getChallenge(id);
+
+  const { type, key } = globalId;
+  switch (type) {
+    case 'Superblock':
+      return context.getSuperblock(key);
+    case 'Block':
+      return context.getBlock(key);
+    case 'Chapter':
+      return context.getIndexes().chapters.get(key) ?? null;
+    case 'Module':
+      return context.getIndexes().modules.get(key) ?? null;
+    case 'Challenge':
+      return context.getChallenge(key);
+  }
+}
+
+/**
+ * GraphQL type name of a resolved node
+ */
+export function nodeTypeOf(node: NodeData): NodeType {
+  if ('blockDashedName' in node) return 'Challenge';
+  if ('superblockDashedNames' in node) return 'Block';
+  if ('modules' in node) return 'Chapter';
+  if ('chapterDashedName' in node) return 'Module';
+  return 'Superblock';
+}
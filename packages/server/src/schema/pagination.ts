@@ -0,0 +1,109 @@
+import { badUserInput } from './errors.js';
+
+/**
+ * Relay-style cursor pagination over curriculum-ordered lists
+ * Cursors are opaque base64 strings wrapping the item's stable key
+ * (challenge id, block dashedName, ...), so a cursor keeps pointing at
+ * the same item even if items are added before it
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+
+export interface PaginationArgs {
+  readonly first?: number | null;
+  readonly after?: string | null;
+}
+
+export interface Edge<T> {
+  readonly cursor: string;
+  readonly node: T;
+}
+
+export interface PageInfo {
+  readonly hasNextPage: boolean;
+  readonly hasPreviousPage: boolean;
+  readonly startCursor: string | null;
+  readonly endCursor: string | null;
+}
+
+export interface Connection<T> {
+  readonly edges: Edge<T>[];
+  readonly nodes: T[];
+  readonly pageInfo: PageInfo;
+  readonly totalCount: number;
+}
+
+/**
+ * Encode an opaque cursor for an item key
+ * @param type Connection item type (cursors are not valid across types)
+ * @param key Stable item key
+ */
+export function encodeCursor(type: string, key: string): string {
+  return Buffer.from(`${type}:${key}`, 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor back to its item key
+ * @returns Item key, or null if the cursor is malformed or for another type
+ */
+export function decodeCursor(type: string, cursor: string): string | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf-8');
+  const prefix = `${type}:`;
+  return decoded.startsWith(prefix) ? decoded.slice(prefix.length) : null;
+}
+
+/**
+ * Slice an ordered list into a connection page
+ * @param items Full list in curriculum order
+ * @param args first/after pagination arguments
+ * @param type Connection item type, part of every cursor
+ * @param keyOf Stable key of an item
+ * @returns Connection with edges, nodes, pageInfo and totalCount
+ * @throws GraphQLError (BAD_USER_INPUT) for invalid first or unknown cursors
+ */
+export function connectionFromArray<T>(
+  items: readonly T[],
+  args: PaginationArgs,
+  type: string,
+  keyOf: (item: T) => string
+): Connection<T> {
+  const first = args.first ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(first) || first < 0 || first > MAX_PAGE_SIZE) {
+    throw badUserInput(
+      `"first" must be an integer between 0 and ${MAX_PAGE_SIZE}`,
+      'first'
+    );
+  }
+
+  let start = 0;
+  if (args.after) {
+    const afterKey = decodeCursor(type, args.after);
+    const afterIndex =
+      afterKey === null
+        ? -1
+        : items.findIndex((item) => keyOf(item) === afterKey);
+    if (afterIndex === -1) {
+      throw badUserInput(`Invalid cursor for ${type}: ${args.after}`, 'after');
+    }
+    start = afterIndex + 1;
+  }
+
+  const nodes = items.slice(start, start + first);
+  const edges = nodes.map((node) => ({
+    cursor: encodeCursor(type, keyOf(node)),
+    node,
+  }));
+
+  return {
+    edges,
+    nodes,
+    pageInfo: {
+      hasNextPage: start + nodes.length < items.length,
+      hasPreviousPage: start > 0,
+      startCursor: edges[0]?.cursor ?? null,
+      endCursor: edges[edges.length - 1]?.cursor ?? null,
+    },
+    totalCount: items.length,
+  };
+}
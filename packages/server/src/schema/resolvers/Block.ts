@@ -1,15 +1,79 @@
 import type { BlockResolvers } from '../types.generated.js';
+import type {
+  ChapterData,
+  ModuleData,
+  SuperblockData,
+} from '../../data/types.js';
+import { chapterKey, moduleKey } from '../../data/indexes.js';
+import { toGlobalId } from '../node.js';
 
 export const Block: BlockResolvers = {
-  superblocks: (parent, _args, context) => {
-    const superblocks = [];
-    for (const superblockName of parent.superblockDashedNames) {
-      const superblock = context.getSuperblock(superblockName);
-      if (superblock) {
-        superblocks.push(superblock);
+  id: (parent) => toGlobalId('Block', parent.dashedName),
+
+  superblocks: async (parent, _args, context) => {
+    const superblocks = await context.loaders.superblock.loadMany(
+      parent.superblockDashedNames
+    );
+    return superblocks.filter(
+      (superblock): superblock is SuperblockData => superblock !== null
+    );
+  },
+
+  chapters: (parent, _args, context) => {
+    const { chapters, placementsByBlock } = context.getIndexes();
+    const keys = new Set<string>();
+    for (const placement of placementsByBlock.get(parent.dashedName) ?? []) {
+      if (placement.chapterDashedName) {
+        keys.add(
+          chapterKey(
+            placement.superblockDashedName,
+            placement.chapterDashedName
+          )
+        );
       }
     }
-    return superblocks;
+    return [...keys]
+      .map((key) => chapters.get(key))
+      .filter((chapter): chapter is ChapterData => chapter !== undefined);
+  },
+
+  modules: (parent, _args, context) => {
+    const { modules, placementsByBlock } = context.getIndexes();
+    return (placementsByBlock.get(parent.dashedName) ?? [])
+      .map(({ superblockDashedName, chapterDashedName, moduleDashedName }) =>
+        chapterDashedName && moduleDashedName
+          ? modules.get(
+              moduleKey(
+                superblockDashedName,
+                chapterDashedName,
+                moduleDashedName
+              )
+            )
+          : undefined
+      )
+      .filter((module): module is ModuleData => module !== undefined);
+  },
+
+  isShared: (parent) => parent.superblockDashedNames.length > 1,
+
+  comingSoon: (parent, _args, context) => {
+    const { chapters, modules, placementsByBlock } = context.getIndexes();
+    let placed = false;
+    for (const placement of placementsByBlock.get(parent.dashedName) ?? []) {
+      const { superblockDashedName, chapterDashedName, moduleDashedName } =
+        placement;
+      if (!chapterDashedName || !moduleDashedName) continue;
+
+      placed = true;
+      const chapter = chapters.get(
+        chapterKey(superblockDashedName, chapterDashedName)
+      );
+      const module = modules.get(
+        moduleKey(superblockDashedName, chapterDashedName, moduleDashedName)
+      );
+      if (!chapter?.comingSoon && !module?.comingSoon) return false;
+    }
+    return placed;
   },
 
   challengeOrder: (parent) => [...parent.challenges],
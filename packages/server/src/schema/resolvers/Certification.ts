@@ -1,18 +1,14 @@
 import type { CertificationResolvers } from '../types.generated.js';
-import { GraphQLError } from 'graphql';
+import { dataIntegrityError } from '../errors.js';
 
 export const Certification: CertificationResolvers = {
-  superblock: (parent, _args, context) => {
-    const superblock = context.getSuperblock(parent.dashedName);
+  superblock: async (parent, _args, context) => {
+    const superblock = await context.loaders.superblock.load(parent.dashedName);
     if (!superblock) {
-      throw new GraphQLError(
-        `Superblock not found for certification: ${parent.dashedName}`,
-        {
-          extensions: {
-            code: 'SUPERBLOCK_NOT_FOUND',
-            certificationDashedName: parent.dashedName,
-          },
-        }
+      throw dataIntegrityError(
+        'Superblock',
+        parent.dashedName,
+        `Certification:${parent.dashedName}`
       );
     }
     return superblock;
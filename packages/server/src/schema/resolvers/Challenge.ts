@@ -1,20 +1,61 @@
 import type { ChallengeResolvers } from '../types.generated.js';
-import { GraphQLError } from 'graphql';
+import { contentLoadError, dataIntegrityError } from '../errors.js';
 
 export const Challenge: ChallengeResolvers = {
-  block: (parent, _args, context) => {
-    const block = context.getBlock(parent.blockDashedName);
+  block: async (parent, _args, context) => {
+    const block = await context.loaders.block.load(parent.blockDashedName);
     if (!block) {
-      throw new GraphQLError(`Block not found for challenge: ${parent.id}`, {
-        extensions: {
-          code: 'BLOCK_NOT_FOUND',
-          challengeId: parent.id,
-          blockDashedName: parent.blockDashedName,
-        },
-      });
+      throw dataIntegrityError(
+        'Block',
+        parent.blockDashedName,
+        `Challenge:${parent.id}`
+      );
     }
     return block;
   },
 
-  content: () => null,
+  previous: (parent, _args, context) =>
+    parent.previousChallengeId
+      ? context.loaders.challenge.load(parent.previousChallengeId)
+      : null,
+
+  next: (parent, _args, context) =>
+    parent.nextChallengeId
+      ? context.loaders.challenge.load(parent.nextChallengeId)
+      : null,
+
+  isFirst: (parent) => parent.previousChallengeId === null,
+
+  isLast: (parent) => parent.nextChallengeId === null,
+
+  nextInSuperblock: async (parent, { superblockDashedName }, context) => {
+    if (parent.nextChallengeId) {
+      return context.loaders.challenge.load(parent.nextChallengeId);
+    }
+
+    const superblock =
+      superblockDashedName ??
+      (await context.loaders.block.load(parent.blockDashedName))
+        ?.superblockDashedNames[0];
+    const nextId = superblock && parent.nextInSuperblock.get(superblock);
+    return nextId ? context.loaders.challenge.load(nextId) : null;
+  },
+
+  path: (parent, _args, context) => [
+    ...(context.getIndexes().placementsByBlock.get(parent.blockDashedName) ??
+      []),
+  ],
+
+  content: async (parent, _args, context) => {
+    try {
+      return await context.getChallengeContent(parent.id);
+    } catch (error) {
+      // The GraphQL error only names the challenge, keep the cause in the log
+      context.logger.warn('Failed to load challenge content', {
+        challengeId: parent.id,
+        error,
+      });
+      throw contentLoadError(parent.id);
+    }
+  },
 };
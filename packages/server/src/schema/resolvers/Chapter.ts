@@ -1,11 +1,20 @@
 import type { ChapterResolvers } from '../types.generated.js';
+import { chapterKey } from '../../data/indexes.js';
+import { chapterGlobalId } from '../node.js';
+import { dataIntegrityError } from '../errors.js';
 
 export const Chapter: ChapterResolvers = {
-  superblock: (parent, _args, context) => {
-    const superblock = context.getSuperblock(parent.superblockDashedName);
+  id: (parent) => chapterGlobalId(parent),
+
+  superblock: async (parent, _args, context) => {
+    const superblock = await context.loaders.superblock.load(
+      parent.superblockDashedName
+    );
     if (!superblock) {
-      throw new Error(
-        `Superblock not found for chapter: ${parent.superblockDashedName}`
+      throw dataIntegrityError(
+        'Superblock',
+        parent.superblockDashedName,
+        `Chapter:${chapterKey(parent.superblockDashedName, parent.dashedName)}`
       );
     }
     return superblock;
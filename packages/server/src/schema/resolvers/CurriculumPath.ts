@@ -0,0 +1,51 @@
+import type { CurriculumPathResolvers } from '../types.generated.js';
+import { chapterKey, moduleKey } from '../../data/indexes.js';
+import { dataIntegrityError } from '../errors.js';
+
+export const CurriculumPath: CurriculumPathResolvers = {
+  superblock: async (parent, _args, context) => {
+    const superblock = await context.loaders.superblock.load(
+      parent.superblockDashedName
+    );
+    if (!superblock) {
+      throw dataIntegrityError(
+        'Superblock',
+        parent.superblockDashedName,
+        `Block:${parent.blockDashedName}`
+      );
+    }
+    return superblock;
+  },
+
+  chapter: (parent, _args, context) =>
+    parent.chapterDashedName
+      ? context.loaders.chapter.load(
+          chapterKey(parent.superblockDashedName, parent.chapterDashedName)
+        )
+      : null,
+
+  module: (parent, _args, context) =>
+    parent.chapterDashedName && parent.moduleDashedName
+      ? (context
+          .getIndexes()
+          .modules.get(
+            moduleKey(
+              parent.superblockDashedName,
+              parent.chapterDashedName,
+              parent.moduleDashedName
+            )
+          ) ?? null)
+      : null,
+
+  block: async (parent, _args, context) => {
+    const block = await context.loaders.block.load(parent.blockDashedName);
+    if (!block) {
+      throw dataIntegrityError(
+        'Block',
+        parent.blockDashedName,
+        `Superblock:${parent.superblockDashedName}`
+      );
+    }
+    return block;
+  },
+};
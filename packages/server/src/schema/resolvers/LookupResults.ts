@@ -0,0 +1,18 @@
+import type {
+  BlockResultResolvers,
+  ChallengeResultResolvers,
+  SuperblockResultResolvers,
+} from '../types.generated.js';
+import { isNotFound } from '../errors.js';
+
+export const SuperblockResult: SuperblockResultResolvers = {
+  __resolveType: (parent) => (isNotFound(parent) ? 'NotFound' : 'Superblock'),
+};
+
+export const BlockResult: BlockResultResolvers = {
+  __resolveType: (parent) => (isNotFound(parent) ? 'NotFound' : 'Block'),
+};
+
+export const ChallengeResult: ChallengeResultResolvers = {
+  __resolveType: (parent) => (isNotFound(parent) ? 'NotFound' : 'Challenge'),
+};
@@ -1,30 +1,31 @@
 import type { ModuleResolvers } from '../types.generated.js';
+import type { BlockData } from '../../data/types.js';
+import { chapterKey, moduleKey } from '../../data/indexes.js';
+import { moduleGlobalId } from '../node.js';
+import { dataIntegrityError } from '../errors.js';
 
 export const Module: ModuleResolvers = {
-  blockObjects: (parent, _args, context) => {
-    const blocks = parent.blocks
-      .map((blockName) => context.getBlock(blockName))
-      .filter((block) => block !== null);
-    return blocks;
-  },
+  id: (parent) => moduleGlobalId(parent),
 
-  chapter: (parent, _args, context) => {
-    const superblock = context.getSuperblock(parent.superblockDashedName);
+  blockObjects: async (parent, _args, context) => {
+    const blocks = await context.loaders.block.loadMany(parent.blocks);
+    return blocks.filter((block): block is BlockData => block !== null);
+  },
 
-    if (!superblock) {
-      throw new Error(
-        `Superblock not found for module: ${parent.superblockDashedName}`
+  chapter: async (parent, _args, context) => {
+    const key = chapterKey(
+      parent.superblockDashedName,
+      parent.chapterDashedName
+    );
+    const chapter = await context.loaders.chapter.load(key);
+    if (!chapter) {
+      const referencedBy = moduleKey(
+        parent.superblockDashedName,
+        parent.chapterDashedName,
+        parent.dashedName
       );
+      throw dataIntegrityError('Chapter', key, `Module:${referencedBy}`);
     }
-
-    for (const chapter of superblock.chapters) {
-      if (chapter.dashedName === parent.chapterDashedName) {
-        return chapter;
-      }
-    }
-
-    throw new Error(
-      `Chapter "${parent.chapterDashedName}" not found in superblock "${parent.superblockDashedName}"`
-    );
+    return chapter;
   },
 };
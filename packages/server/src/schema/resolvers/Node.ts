@@ -0,0 +1,6 @@
+import type { NodeResolvers } from '../types.generated.js';
+import { nodeTypeOf } from '../node.js';
+
+export const Node: NodeResolvers = {
+  __resolveType: (parent) => nodeTypeOf(parent),
+};
@@ -3,14 +3,39 @@ import type {
   BlockData,
   ChallengeMetadata,
   ChapterData,
+  DataProvider,
   ModuleData,
 } from '../../data/types.js';
+import { chapterKey, moduleKey } from '../../data/indexes.js';
+import { DEFAULT_SEARCH_LIMIT } from '../../data/search.js';
 import { getUptimeSeconds } from '../../uptime.js';
+import { connectionFromArray, MAX_PAGE_SIZE } from '../pagination.js';
+import { resolveNode } from '../node.js';
+import { badUserInput, notFound } from '../errors.js';
+import {
+  filterBlocks,
+  filterChallenges,
+  type BlockFilter,
+  type ChallengeFilter,
+} from '../filters.js';
 
 export const Query: QueryResolvers = {
   // User Story 1: Basic curriculum structure
   curriculum: (_parent, _args, context) => context.getCurriculum(),
 
+  // Relay global object identification
+  node: (_parent, { id }, context) => resolveNode(context, id),
+
+  nodes: (_parent, { ids }, context) => {
+    if (ids.length > MAX_PAGE_SIZE) {
+      throw badUserInput(
+        `"ids" must contain at most ${MAX_PAGE_SIZE} IDs`,
+        'ids'
+      );
+    }
+    return ids.map((id) => resolveNode(context, id));
+  },
+
   // User Story 2: Navigation queries
   superblock: (_parent, { dashedName }, context) =>
     context.getSuperblock(dashedName),
@@ -26,60 +51,24 @@ export const Query: QueryResolvers = {
 
   challenge: (_parent, { id }, context) => context.getChallenge(id),
 
-  // User Story 3: Filtered list queries
-  blocks: (_parent, { superblockDashedName }, context) => {
-    if (superblockDashedName) {
-      const superblock = context.getSuperblock(superblockDashedName);
-      if (!superblock) return [];
-
-      return superblock.blocks
-        .map((name) => context.getBlock(name))
-        .filter((block): block is BlockData => block !== null);
-    }
+  // Lookups returning NotFound instead of null
+  superblockResult: (_parent, { dashedName }, context) =>
+    context.getSuperblock(dashedName) ?? notFound('Superblock', dashedName),
 
-    // No filter: return all unique blocks (deduplicated)
-    // Note: In v9 curriculum, blocks can appear in multiple superblocks
-    const curriculum = context.getCurriculum();
-    const blockMap = new Map<string, BlockData>();
-
-    for (const sbName of curriculum.superblocks) {
-      const superblock = context.getSuperblock(sbName);
-      if (superblock) {
-        for (const blockName of superblock.blocks) {
-          if (!blockMap.has(blockName)) {
-            const block = context.getBlock(blockName);
-            if (block) blockMap.set(blockName, block);
-          }
-        }
-      }
-    }
+  blockResult: (_parent, { dashedName }, context) =>
+    context.getBlock(dashedName) ?? notFound('Block', dashedName),
 
-    return Array.from(blockMap.values());
-  },
+  challengeResult: (_parent, { id }, context) =>
+    context.getChallenge(id) ?? notFound('Challenge', id),
 
-  challenges: (_parent, { blockDashedName }, context) => {
-    if (blockDashedName) {
-      const block = context.getBlock(blockDashedName);
-      if (!block) return [];
-      return [...block.challenges];
-    }
+  // User Story 3: Filtered list queries
+  blocks: (_parent, { superblockDashedName, filter }, context) => [
+    ...listBlocks(context, superblockDashedName, filter),
+  ],
 
-    // No filter: return all challenges
-    const curriculum = context.getCurriculum();
-    const allChallenges: ChallengeMetadata[] = [];
-    for (const sbName of curriculum.superblocks) {
-      const superblock = context.getSuperblock(sbName);
-      if (superblock) {
-        for (const blockName of superblock.blocks) {
-          const block = context.getBlock(blockName);
-          if (block) {
-            allChallenges.push(...block.challenges);
-          }
-        }
-      }
-    }
-    return allChallenges;
-  },
+  challenges: (_parent, { blockDashedName, filter }, context) => [
+    ...listChallenges(context, blockDashedName, filter),
+  ],
 
   // User Story 4: Certifications
   certifications: (_parent, _args, context) => {
@@ -90,112 +79,118 @@ export const Query: QueryResolvers = {
       .map((dashedName) => ({ dashedName }));
   },
 
-  // V9 Curriculum: Chapters
-  chapters: (_parent, { superblockDashedName }, context) => {
-    if (superblockDashedName) {
-      const superblock = context.getSuperblock(superblockDashedName);
-      if (!superblock) return [];
-      return [...superblock.chapters];
-    }
+  // V9 Curriculum: Chapter and module lookups by composite key
+  chapter: (_parent, { superblockDashedName, dashedName }, context) =>
+    context
+      .getIndexes()
+      .chapters.get(chapterKey(superblockDashedName, dashedName)) ?? null,
 
-    // No filter: return all chapters from all superblocks
-    const curriculum = context.getCurriculum();
-    const allChapters: ChapterData[] = [];
-    for (const sbName of curriculum.superblocks) {
-      const superblock = context.getSuperblock(sbName);
-      if (superblock) {
-        allChapters.push(...superblock.chapters);
-      }
-    }
-    return allChapters;
-  },
+  module: (
+    _parent,
+    { superblockDashedName, chapterDashedName, dashedName },
+    context
+  ) =>
+    context
+      .getIndexes()
+      .modules.get(
+        moduleKey(superblockDashedName, chapterDashedName, dashedName)
+      ) ?? null,
+
+  // V9 Curriculum: Chapters
+  chapters: (_parent, { superblockDashedName }, context) => [
+    ...listChapters(context, superblockDashedName),
+  ],
 
   // V9 Curriculum: Modules
-  modules: (_parent, { superblockDashedName, chapterDashedName }, context) => {
-    // Filter by specific chapter (most specific)
-    if (chapterDashedName) {
-      const curriculum = context.getCurriculum();
-      for (const sbName of curriculum.superblocks) {
-        const superblock = context.getSuperblock(sbName);
-        if (superblock) {
-          const chapter = superblock.chapters.find(
-            (ch) => ch.dashedName === chapterDashedName
-          );
-          if (chapter) return [...chapter.modules];
-        }
-      }
-      return [];
-    }
+  modules: (_parent, { superblockDashedName, chapterDashedName }, context) => [
+    ...listModules(context, superblockDashedName, chapterDashedName),
+  ],
 
-    // Filter by superblock
-    if (superblockDashedName) {
-      const superblock = context.getSuperblock(superblockDashedName);
-      if (!superblock) return [];
+  // Cursor-paginated variants of the list queries
+  challengesConnection: (_parent, args, context) =>
+    connectionFromArray(
+      listChallenges(context, args.blockDashedName, args.filter),
+      args,
+      'Challenge',
+      (challenge) => challenge.id
+    ),
 
-      const allModules: ModuleData[] = [];
-      for (const chapter of superblock.chapters) {
-        allModules.push(...chapter.modules);
-      }
-      return allModules;
-    }
+  blocksConnection: (_parent, args, context) =>
+    connectionFromArray(
+      listBlocks(context, args.superblockDashedName, args.filter),
+      args,
+      'Block',
+      (block) => block.dashedName
+    ),
 
-    // No filter: return all modules from all chapters
-    const curriculum = context.getCurriculum();
-    const allModules: ModuleData[] = [];
-    for (const sbName of curriculum.superblocks) {
-      const superblock = context.getSuperblock(sbName);
-      if (superblock) {
-        for (const chapter of superblock.chapters) {
-          allModules.push(...chapter.modules);
-        }
-      }
-    }
-    return allModules;
-  },
+  chaptersConnection: (_parent, args, context) =>
+    connectionFromArray(
+      listChapters(context, args.superblockDashedName),
+      args,
+      'Chapter',
+      (chapter) => chapterKey(chapter.superblockDashedName, chapter.dashedName)
+    ),
 
-  // Health monitoring
-  _health: (_parent, _args, context) => {
-    const curriculum = context.getCurriculum();
+  modulesConnection: (_parent, args, context) =>
+    connectionFromArray(
+      listModules(context, args.superblockDashedName, args.chapterDashedName),
+      args,
+      'Module',
+      (module) =>
+        moduleKey(
+          module.superblockDashedName,
+          module.chapterDashedName,
+          module.dashedName
+        )
+    ),
 
-    // Count superblocks
-    const superblockCount = curriculum.superblocks.length;
-
-    // Count chapters and modules (v9 curriculum primitives)
-    let chapterCount = 0;
-    let moduleCount = 0;
-    for (const sbName of curriculum.superblocks) {
-      const sb = context.getSuperblock(sbName);
-      if (sb) {
-        chapterCount += sb.chapters.length;
-        for (const chapter of sb.chapters) {
-          moduleCount += chapter.modules.length;
-        }
-      }
+  // Full-text search
+  search: (_parent, { query, types, first }, context) => {
+    const limit = first ?? DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 0 || limit > MAX_PAGE_SIZE) {
+      throw badUserInput(
+        `"first" must be an integer between 0 and ${MAX_PAGE_SIZE}`,
+        'first'
+      );
     }
+    return [...context.search(query, { limit, ...(types ? { types } : {}) })];
+  },
 
-    // Count unique blocks (deduplicate since blocks can appear in multiple superblocks)
-    const uniqueBlocks = new Set<string>();
-    for (const sbName of curriculum.superblocks) {
-      const sb = context.getSuperblock(sbName);
-      if (sb) {
-        for (const blockName of sb.blocks) {
-          uniqueBlocks.add(blockName);
-        }
-      }
-    }
-    const blockCount = uniqueBlocks.size;
+  // Aggregate counts
+  stats: (_parent, _args, context) => context.getStats(),
 
-    // Count unique challenges (deduplicate via block deduplication)
-    let challengeCount = 0;
-    for (const blockName of uniqueBlocks) {
-      const block = context.getBlock(blockName);
-      if (block) challengeCount += block.challenges.length;
-    }
+  // Health monitoring
+  _health: (_parent, _args, context) => {
+    // Counts are precomputed once per data load
+    const {
+      superblockCount,
+      chapterCount,
+      moduleCount,
+      blockCount,
+      challengeCount,
+    } = context.getStats();
 
     // Calculate memory usage
     const memoryUsageMB =
       Math.round((process.memoryUsage().heapUsed / 1024 / 1024) * 100) / 100;
 
+    // Content cache counters (only providers that cache content report them)
+    const cacheStats = context.getContentCacheStats();
+    const toMB = (bytes: number) =>
+      Math.round((bytes / 1024 / 1024) * 100) / 100;
+    const lookups = cacheStats ? cacheStats.hits + cacheStats.misses : 0;
+    const contentCache = cacheStats
+      ? {
+          hits: cacheStats.hits,
+          misses: cacheStats.misses,
+          hitRate: lookups > 0 ? cacheStats.hits / lookups : 0,
+          evictions: cacheStats.evictions,
+          entries: cacheStats.entries,
+          sizeMB: toMB(cacheStats.sizeBytes),
+          maxSizeMB: toMB(cacheStats.maxSizeBytes),
+        }
+      : null;
+
     return {
       status: 'healthy',
       uptime: getUptimeSeconds(),
@@ -206,7 +201,94 @@ export const Query: QueryResolvers = {
         blockCount,
         challengeCount,
         memoryUsageMB,
+        contentCache,
       },
     };
   },
 };
+
+/**
+ * Blocks in curriculum order, optionally limited to one superblock and
+ * narrowed by a BlockFilter
+ * Without a superblock, blocks shared by several superblocks are listed once
+ */
+function listBlocks(
+  context: DataProvider,
+  superblockDashedName?: string | null,
+  filter?: BlockFilter | null
+): readonly BlockData[] {
+  let blocks: readonly BlockData[] | null = null;
+  if (superblockDashedName) {
+    const superblock = context.getSuperblock(superblockDashedName);
+    if (!superblock) return [];
+
+    blocks = superblock.blocks
+      .map((name) => context.getBlock(name))
+      .filter((block): block is BlockData => block !== null);
+  }
+
+  const indexes = context.getIndexes();
+  if (!filter) return blocks ?? indexes.blockList;
+  return filterBlocks(indexes, blocks, filter, superblockDashedName);
+}
+
+/**
+ * Challenges in curriculum order, optionally limited to one block and
+ * narrowed by a ChallengeFilter
+ * Without a block, challenges shared by several blocks are listed once
+ */
+function listChallenges(
+  context: DataProvider,
+  blockDashedName?: string | null,
+  filter?: ChallengeFilter | null
+): readonly ChallengeMetadata[] {
+  const block = blockDashedName ? context.getBlock(blockDashedName) : null;
+  if (blockDashedName && !block) return [];
+
+  const indexes = context.getIndexes();
+  if (!filter) return block?.challenges ?? indexes.challengeList;
+  return filterChallenges(indexes, block, filter);
+}
+
+/**
+ * Chapters in curriculum order, optionally limited to one superblock
+ */
+function listChapters(
+  context: DataProvider,
+  superblockDashedName?: string | null
+): readonly ChapterData[] {
+  if (superblockDashedName) {
+    return context.getSuperblock(superblockDashedName)?.chapters ?? [];
+  }
+
+  return context.getIndexes().chapterList;
+}
+
+/**
+ * Modules in curriculum order, optionally limited to a chapter or superblock
+ * A chapter name alone matches that chapter in every superblock
+ */
+function listModules(
+  context: DataProvider,
+  superblockDashedName?: string | null,
+  chapterDashedName?: string | null
+): readonly ModuleData[] {
+  const indexes = context.getIndexes();
+
+  if (superblockDashedName && chapterDashedName) {
+    return (
+      indexes.chapters.get(chapterKey(superblockDashedName, chapterDashedName))
+        ?.modules ?? []
+    );
+  }
+
+  if (chapterDashedName) {
+    return indexes.modulesByChapter.get(chapterDashedName) ?? [];
+  }
+
+  if (superblockDashedName) {
+    return indexes.modulesBySuperblock.get(superblockDashedName) ?? [];
+  }
+
+  return indexes.moduleList;
+}
@@ -0,0 +1,48 @@
+import type { SearchResultResolvers } from '../types.generated.js';
+import { chapterKey } from '../../data/indexes.js';
+import { dataIntegrityError } from '../errors.js';
+
+export const SearchResult: SearchResultResolvers = {
+  superblock: async (parent, _args, context) => {
+    const superblock = await context.loaders.superblock.load(
+      parent.superblockDashedName
+    );
+    if (!superblock) {
+      throw dataIntegrityError(
+        'Superblock',
+        parent.superblockDashedName,
+        'the search index'
+      );
+    }
+    return superblock;
+  },
+
+  chapter: (parent, _args, context) =>
+    parent.chapterDashedName
+      ? context.loaders.chapter.load(
+          chapterKey(parent.superblockDashedName, parent.chapterDashedName)
+        )
+      : null,
+
+  module: async (parent, _args, context) => {
+    if (!parent.chapterDashedName || !parent.moduleDashedName) return null;
+    const chapter = await context.loaders.chapter.load(
+      chapterKey(parent.superblockDashedName, parent.chapterDashedName)
+    );
+    return (
+      chapter?.modules.find(
+        (module) => module.dashedName === parent.moduleDashedName
+      ) ?? null
+    );
+  },
+
+  block: (parent, _args, context) =>
+    parent.blockDashedName
+      ? context.loaders.block.load(parent.blockDashedName)
+      : null,
+
+  challenge: (parent, _args, context) =>
+    parent.challengeId
+      ? context.loaders.challenge.load(parent.challengeId)
+      : null,
+};
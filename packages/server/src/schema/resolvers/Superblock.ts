@@ -1,9 +1,12 @@
 import type { SuperblockResolvers } from '../types.generated.js';
 import type { BlockData } from '../../data/types.js';
+import { toGlobalId } from '../node.js';
 
 export const Superblock: SuperblockResolvers = {
-  blockObjects: (parent, _args, context) =>
-    parent.blocks
-      .map((name) => context.getBlock(name))
-      .filter((block): block is BlockData => block !== null),
+  id: (parent) => toGlobalId('Superblock', parent.dashedName),
+
+  blockObjects: async (parent, _args, context) =>
+    (await context.loaders.block.loadMany(parent.blocks)).filter(
+      (block): block is BlockData => block !== null
+    ),
 };
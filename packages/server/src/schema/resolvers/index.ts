@@ -6,6 +6,14 @@ import { Superblock } from './Superblock.js';
 import { Chapter } from './Chapter.js';
 import { Module } from './Module.js';
 import { Certification } from './Certification.js';
+import { SearchResult } from './SearchResult.js';
+import { Node } from './Node.js';
+import { CurriculumPath } from './CurriculumPath.js';
+import {
+  BlockResult,
+  ChallengeResult,
+  SuperblockResult,
+} from './LookupResults.js';
 
 export const resolvers: Resolvers = {
   Query,
@@ -15,4 +23,10 @@ export const resolvers: Resolvers = {
   Chapter,
   Module,
   Certification,
+  SearchResult,
+  Node,
+  CurriculumPath,
+  SuperblockResult,
+  BlockResult,
+  ChallengeResult,
 };
@@ -1,5 +1,9 @@
 import { BlockLayout } from '../data/types.js';
 import { BlockLabel } from '../data/types.js';
+import { SuperblockStructure } from '../data/types.js';
+import { SearchResultType } from '../data/types.js';
+import { ErrorCode } from './errors.js';
+import { NodeType } from './node.js';
 import { GraphQLResolveInfo } from 'graphql';
 import {
   CurriculumData,
@@ -9,8 +13,18 @@ import {
   BlockData,
   ChallengeMetadata,
   CertificationData,
-  DataProvider,
+  ChallengeContent as ChallengeContentData,
+  ChallengeFile as ChallengeFileData,
+  Test as TestData,
+  Solution as SolutionData,
+  SearchHit,
+  BlockPlacement,
+  CurriculumStats as CurriculumStatsData,
+  SuperblockStats as SuperblockStatsData,
+  ChapterStats as ChapterStatsData,
 } from '../data/types.js';
+import { NotFoundResult } from './errors.js';
+import { GraphQLContext } from '../context.js';
 export type Maybe<T> = T | null;
 export type InputMaybe<T> = Maybe<T>;
 export type Exact<T extends { [key: string]: unknown }> = {
@@ -31,6 +45,7 @@ export type Incremental<T> =
   | {
       [P in keyof T]?: P extends ' $fragmentName' | '__typename' ? T[P] : never;
     };
+export type Omit<T, K extends keyof T> = Pick<T, Exclude<keyof T, K>>;
 export type EnumResolverSignature<T, AllowedValues = any> = {
   [key in keyof T]?: AllowedValues;
 };
@@ -50,7 +65,7 @@ export type Scalars = {
  * Learning module within a superblock
  * Contains challenges, layout information, and pedagogical metadata
  */
-export type Block = {
+export type Block = Node & {
   /**
    * Pedagogical classification (optional)
    * Field name changed from blockType to blockLabel to match actual JSON data
@@ -60,6 +75,16 @@ export type Block = {
   blockLayout: BlockLayout;
   /** Ordered list of challenges in this block */
   challengeOrder: Array<Challenge>;
+  /**
+   * Chapters containing this block, across all its superblocks (v9 curriculum)
+   * Empty for blocks that only appear in legacy superblocks
+   */
+  chapters: Array<Chapter>;
+  /**
+   * True if every module containing the block (or its chapter) is coming soon
+   * Always false for blocks only placed in legacy superblocks
+   */
+  comingSoon: Scalars['Boolean']['output'];
   /** Unique identifier (e.g., 'basic-html') */
   dashedName: Scalars['String']['output'];
   /**
@@ -76,8 +101,17 @@ export type Block = {
   hasEditableBoundaries?: Maybe<Scalars['Boolean']['output']>;
   /** Category for help/support (e.g., 'HTML-CSS') */
   helpCategory: Scalars['String']['output'];
+  /** Globally unique, opaque identifier */
+  id: Scalars['ID']['output'];
+  /** True if the block belongs to more than one superblock */
+  isShared: Scalars['Boolean']['output'];
   /** Flag indicating work-in-progress module */
   isUpcomingChange: Scalars['Boolean']['output'];
+  /**
+   * Modules containing this block, across all its superblocks (v9 curriculum)
+   * Empty for blocks that only appear in legacy superblocks
+   */
+  modules: Array<Module>;
   /** Human-readable name (e.g., 'Basic HTML') */
   name: Scalars['String']['output'];
   /**
@@ -99,10 +133,72 @@ export type Block = {
   usesMultifileEditor?: Maybe<Scalars['Boolean']['output']>;
 };
 
+/** Page of blocks (Relay cursor connection) */
+export type BlockConnection = {
+  /** Blocks on this page with their cursors */
+  edges: Array<BlockEdge>;
+  /** Blocks on this page (same order as edges) */
+  nodes: Array<Block>;
+  /** Pagination state for fetching the next page */
+  pageInfo: PageInfo;
+  /** Total number of blocks across all pages */
+  totalCount: Scalars['Int']['output'];
+};
+
+/** Block with its pagination cursor */
+export type BlockEdge = {
+  /** Opaque cursor, pass as "after" to continue from this block */
+  cursor: Scalars['String']['output'];
+  /** The block itself */
+  node: Block;
+};
+
+/**
+ * Conditions on block properties for the blocks and challenges queries
+ * Set fields must all match; omitted or null fields match every block
+ */
+export type BlockFilter = {
+  /** Pedagogical classification */
+  blockLabel?: InputMaybe<BlockLabel>;
+  /** UI layout type */
+  blockLayout?: InputMaybe<BlockLayout>;
+  /**
+   * Chapter the block is placed in (v9 curriculum)
+   * Combined with superblockDashedName, only that superblock's chapter matches
+   */
+  chapter?: InputMaybe<Scalars['String']['input']>;
+  /** Editable region boundaries flag (unset counts as false) */
+  hasEditableBoundaries?: InputMaybe<Scalars['Boolean']['input']>;
+  /** Category for help/support (e.g., 'HTML-CSS') */
+  helpCategory?: InputMaybe<Scalars['String']['input']>;
+  /** Work-in-progress flag */
+  isUpcomingChange?: InputMaybe<Scalars['Boolean']['input']>;
+  /** Module the block is placed in (v9 curriculum) */
+  module?: InputMaybe<Scalars['String']['input']>;
+  /** Multi-file editor flag (unset counts as false) */
+  usesMultifileEditor?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
 export { BlockLabel };
 
+/** Number of blocks with a given label */
+export type BlockLabelCount = {
+  count: Scalars['Int']['output'];
+  /** Block label (null for blocks without one) */
+  label?: Maybe<BlockLabel>;
+};
+
 export { BlockLayout };
 
+/** Number of blocks with a given layout */
+export type BlockLayoutCount = {
+  count: Scalars['Int']['output'];
+  layout: BlockLayout;
+};
+
+/** Block lookup result */
+export type BlockResult = Block | NotFound;
+
 /**
  * Certification wrapper around superblock
  * Distinguishes certification-eligible curricula
@@ -116,25 +212,69 @@ export type Certification = {
 
 /**
  * Individual coding challenge
- * Metadata always available, content lazy-loaded in future v2
+ * Metadata always available, content lazy-loaded from the content source
  */
-export type Challenge = {
+export type Challenge = Node & {
   /** Parent block (reverse reference for bidirectional navigation) */
   block: Block;
   /**
-   * Full challenge content - MVP returns null
-   * Future v2: Lazy-loaded from database with LRU cache
-   * Enables v2 migration without breaking changes
+   * Full challenge content, loaded on demand from the content source
+   * Returns null when no content source is configured (CONTENT_PATH)
+   * or the source has no content for this challenge
    */
   content?: Maybe<ChallengeContent>;
-  /** Unique UUID identifier */
+  /** Unique UUID identifier, also accepted by node(id) */
   id: Scalars['ID']['output'];
+  /** True for the first challenge of its block */
+  isFirst: Scalars['Boolean']['output'];
+  /** True for the last challenge of its block */
+  isLast: Scalars['Boolean']['output'];
+  /** Next challenge in the same block (null for the last challenge) */
+  next?: Maybe<Challenge>;
+  /**
+   * Next challenge in the superblock, continuing into the following block
+   * (chapter/module order) after the last challenge of this one
+   * superblockDashedName picks the superblock to follow when the block is
+   * shared (default: the block's first superblock)
+   * Returns null at the end of the superblock
+   */
+  nextInSuperblock?: Maybe<Challenge>;
+  /** 0-based position in the parent block's challengeOrder */
+  order: Scalars['Int']['output'];
+  /**
+   * Every place this challenge appears: one entry per superblock, chapter and
+   * module its block is listed in, in curriculum order
+   * Used for breadcrumbs and canonical URLs
+   */
+  path: Array<CurriculumPath>;
+  /** Previous challenge in the same block (null for the first challenge) */
+  previous?: Maybe<Challenge>;
   /** Challenge title */
   title: Scalars['String']['output'];
 };
 
 /**
- * Full challenge content (future v2, returns null in MVP)
+ * Individual coding challenge
+ * Metadata always available, content lazy-loaded from the content source
+ */
+export type ChallengeNextInSuperblockArgs = {
+  superblockDashedName: InputMaybe<Scalars['String']['input']>;
+};
+
+/** Page of challenges (Relay cursor connection) */
+export type ChallengeConnection = {
+  /** Challenges on this page with their cursors */
+  edges: Array<ChallengeEdge>;
+  /** Challenges on this page (same order as edges) */
+  nodes: Array<Challenge>;
+  /** Pagination state for fetching the next page */
+  pageInfo: PageInfo;
+  /** Total number of challenges across all pages */
+  totalCount: Scalars['Int']['output'];
+};
+
+/**
+ * Full challenge content, loaded on demand (never held in the data store)
  * Includes description, instructions, starter code, tests, and solutions
  */
 export type ChallengeContent = {
@@ -150,6 +290,14 @@ export type ChallengeContent = {
   tests: Array<Test>;
 };
 
+/** Challenge with its pagination cursor */
+export type ChallengeEdge = {
+  /** Opaque cursor, pass as "after" to continue from this challenge */
+  cursor: Scalars['String']['output'];
+  /** The challenge itself */
+  node: Challenge;
+};
+
 /**
  * Code file within a challenge or solution
  * Contains file metadata and content
@@ -165,21 +313,91 @@ export type ChallengeFile = {
   name: Scalars['String']['output'];
 };
 
+/**
+ * Conditions on challenges for the challenges queries
+ * Set fields must all match; omitted or null fields match every challenge
+ */
+export type ChallengeFilter = {
+  /** Conditions on the challenge's block */
+  block?: InputMaybe<BlockFilter>;
+  /** Case-insensitive substring of the challenge title */
+  titleContains?: InputMaybe<Scalars['String']['input']>;
+};
+
+/** Challenge lookup result */
+export type ChallengeResult = Challenge | NotFound;
+
 /**
  * Chapter within a superblock (new v9 curriculum)
  * Groups related modules together
  */
-export type Chapter = {
+export type Chapter = Node & {
   /** Flag indicating if chapter is coming soon (not yet available) */
   comingSoon: Scalars['Boolean']['output'];
-  /** Unique identifier for the chapter (e.g., 'html', 'javascript') */
+  /** Identifier of the chapter within its superblock (e.g., 'html', 'javascript') */
   dashedName: Scalars['String']['output'];
+  /**
+   * Globally unique, opaque identifier (encodes superblock and chapter)
+   * Use as the cache key in normalized client stores
+   */
+  id: Scalars['ID']['output'];
   /** Modules within this chapter */
   modules: Array<Module>;
   /** Parent superblock (reverse reference for bidirectional navigation) */
   superblock: Superblock;
 };
 
+/** Page of chapters (Relay cursor connection) */
+export type ChapterConnection = {
+  /** Chapters on this page with their cursors */
+  edges: Array<ChapterEdge>;
+  /** Chapters on this page (same order as edges) */
+  nodes: Array<Chapter>;
+  /** Pagination state for fetching the next page */
+  pageInfo: PageInfo;
+  /** Total number of chapters across all pages */
+  totalCount: Scalars['Int']['output'];
+};
+
+/** Chapter with its pagination cursor */
+export type ChapterEdge = {
+  /** Opaque cursor, pass as "after" to continue from this chapter */
+  cursor: Scalars['String']['output'];
+  /** The chapter itself */
+  node: Chapter;
+};
+
+/** Counts for one chapter (v9 curriculum) */
+export type ChapterStats = {
+  blockCount: Scalars['Int']['output'];
+  challengeCount: Scalars['Int']['output'];
+  comingSoon: Scalars['Boolean']['output'];
+  dashedName: Scalars['String']['output'];
+  moduleCount: Scalars['Int']['output'];
+  modules: Array<ModuleStats>;
+};
+
+/**
+ * Challenge content LRU cache counters
+ * Sizes are estimates based on string lengths
+ */
+export type ContentCacheMetrics = {
+  /** Number of challenges currently cached */
+  entries: Scalars['Int']['output'];
+  /** Number of entries evicted to stay under the size limit */
+  evictions: Scalars['Int']['output'];
+  /** Fraction of lookups served from the cache (0 when there were none) */
+  hitRate: Scalars['Float']['output'];
+  /** Number of content lookups served from the cache */
+  hits: Scalars['Int']['output'];
+  /** Configured cache size limit in megabytes */
+  maxSizeMB: Scalars['Float']['output'];
+  /** Number of content lookups that had to read from the content source */
+  misses: Scalars['Int']['output'];
+  /** Estimated cache size in megabytes */
+  sizeMB: Scalars['Float']['output'];
+};
+
 /**
  * Top-level curriculum structure
  * Contains lists of superblocks and certifications
@@ -191,6 +409,55 @@ export type Curriculum = {
   superblocks: Array<Scalars['String']['output']>;
 };
 
+/**
+ * Placement of a block in the curriculum (a breadcrumb)
+ * Chapter and module are null for legacy superblocks
+ */
+export type CurriculumPath = {
+  /** The block itself */
+  block: Block;
+  /** Chapter containing the block (null for legacy superblocks) */
+  chapter?: Maybe<Chapter>;
+  /** Module containing the block (null for legacy superblocks) */
+  module?: Maybe<Module>;
+  /** Superblock the block is listed in */
+  superblock: Superblock;
+};
+
+/**
+ * Aggregate curriculum counts, computed once per data load
+ * Totals count blocks and challenges shared by several parents once
+ */
+export type CurriculumStats = {
+  /** Number of unique blocks */
+  blockCount: Scalars['Int']['output'];
+  /**
+   * Unique blocks per BlockLabel, including unused labels
+   * The entry with a null label counts unlabeled blocks
+   */
+  blocksByLabel: Array<BlockLabelCount>;
+  /** Unique blocks per BlockLayout, including unused layouts */
+  blocksByLayout: Array<BlockLayoutCount>;
+  /** Number of unique challenges */
+  challengeCount: Scalars['Int']['output'];
+  /** Number of chapters (v9 curriculum primitive) */
+  chapterCount: Scalars['Int']['output'];
+  /** Number of chapters flagged as coming soon */
+  comingSoonChapterCount: Scalars['Int']['output'];
+  /** Number of modules flagged as coming soon */
+  comingSoonModuleCount: Scalars['Int']['output'];
+  /** Number of modules (v9 curriculum primitive) */
+  moduleCount: Scalars['Int']['output'];
+  /** Number of loaded superblocks */
+  superblockCount: Scalars['Int']['output'];
+  /** Counts for each superblock in curriculum order */
+  superblocks: Array<SuperblockStats>;
+  /** Number of unique blocks flagged as upcoming changes */
+  upcomingChangeBlockCount: Scalars['Int']['output'];
+  /** Number of unique challenges in upcoming-change blocks */
+  upcomingChangeChallengeCount: Scalars['Int']['output'];
+};
+
 /** Curriculum data store metrics and memory usage */
 export type DataStoreMetrics = {
   /** Number of loaded unique blocks (deduplicated) */
@@ -199,6 +466,11 @@ export type DataStoreMetrics = {
   challengeCount: Scalars['Int']['output'];
   /** Number of loaded chapters (v9 curriculum primitive) */
   chapterCount: Scalars['Int']['output'];
+  /**
+   * Challenge content cache statistics
+   * Null when content is not cached (no content source configured)
+   */
+  contentCache?: Maybe<ContentCacheMetrics>;
   /** Current heap memory usage in megabytes */
   memoryUsageMB: Scalars['Float']['output'];
   /** Number of loaded modules (v9 curriculum primitive) */
@@ -207,6 +479,8 @@ export type DataStoreMetrics = {
   superblockCount: Scalars['Int']['output'];
 };
 
+export { ErrorCode };
+
 /** Server health and operational metrics */
 export type HealthCheck = {
   /** Curriculum data store statistics */
@@ -221,7 +495,7 @@ export type HealthCheck = {
  * Module within a chapter (new v9 curriculum)
  * Contains a set of related blocks
  */
-export type Module = {
+export type Module = Node & {
   /** Resolved Block objects (convenience field) */
   blockObjects: Array<Block>;
   /** Array of block identifiers in this module */
@@ -230,12 +504,86 @@ export type Module = {
   chapter: Chapter;
   /** Flag indicating if module is coming soon (not yet available) */
   comingSoon: Scalars['Boolean']['output'];
-  /** Unique identifier for the module (e.g., 'basic-html', 'semantic-html') */
+  /** Identifier of the module within its chapter (e.g., 'basic-html', 'semantic-html') */
   dashedName: Scalars['String']['output'];
+  /**
+   * Globally unique, opaque identifier (encodes superblock, chapter and module)
+   * Use as the cache key in normalized client stores
+   */
+  id: Scalars['ID']['output'];
   /** Type of module (e.g., 'review', 'practice') - optional */
   moduleType?: Maybe<Scalars['String']['output']>;
 };
 
+/** Page of modules (Relay cursor connection) */
+export type ModuleConnection = {
+  /** Modules on this page with their cursors */
+  edges: Array<ModuleEdge>;
+  /** Modules on this page (same order as edges) */
+  nodes: Array<Module>;
+  /** Pagination state for fetching the next page */
+  pageInfo: PageInfo;
+  /** Total number of modules across all pages */
+  totalCount: Scalars['Int']['output'];
+};
+
+/** Module with its pagination cursor */
+export type ModuleEdge = {
+  /** Opaque cursor, pass as "after" to continue from this module */
+  cursor: Scalars['String']['output'];
+  /** The module itself */
+  node: Module;
+};
+
+/** Counts for one module (v9 curriculum) */
+export type ModuleStats = {
+  blockCount: Scalars['Int']['output'];
+  challengeCount: Scalars['Int']['output'];
+  comingSoon: Scalars['Boolean']['output'];
+  dashedName: Scalars['String']['output'];
+};
+
+/**
+ * Object with a globally unique ID (Relay Global Object Identification)
+ * Normalized client caches can key every implementing type by id alone
+ */
+export type Node = {
+  /** Globally unique, opaque identifier */
+  id: Scalars['ID']['output'];
+};
+
+export { NodeType };
+
+/**
+ * Result of a lookup whose key matched nothing
+ * Errors raised by resolvers use the same codes in extensions.code
+ */
+export type NotFound = {
+  /** Error code (always NOT_FOUND) */
+  code: ErrorCode;
+  /** Type that was looked up */
+  entityType: NodeType;
+  /** Key that was looked up (dashedName or id) */
+  key: Scalars['String']['output'];
+  /** Human-readable explanation */
+  message: Scalars['String']['output'];
+};
+
+/**
+ * Relay pagination state
+ * Request the next page with after: endCursor while hasNextPage is true
+ */
+export type PageInfo = {
+  /** Cursor of the last edge on this page (null for an empty page) */
+  endCursor?: Maybe<Scalars['String']['output']>;
+  /** True if more items follow this page */
+  hasNextPage: Scalars['Boolean']['output'];
+  /** True if items precede this page */
+  hasPreviousPage: Scalars['Boolean']['output'];
+  /** Cursor of the first edge on this page (null for an empty page) */
+  startCursor?: Maybe<Scalars['String']['output']>;
+};
+
 /**
  * freeCodeCamp Curriculum GraphQL API Schema
  * Sprint 004 - Schema Definition and Code Generation
@@ -245,8 +593,8 @@ export type Module = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -265,28 +613,75 @@ export type Query = {
   _health: HealthCheck;
   /** Get single block by identifier */
   block?: Maybe<Block>;
-  /** Get all blocks, optionally filtered by superblock */
+  /** Get single block, with a NotFound result instead of null */
+  blockResult: BlockResult;
+  /** Get all blocks, optionally filtered by superblock and block properties */
   blocks: Array<Block>;
+  /** Paginated unique blocks in curriculum order, optionally filtered by superblock */
+  blocksConnection: BlockConnection;
   /** Get all certification-eligible superblocks */
   certifications: Array<Certification>;
   /** Get single challenge by ID */
   challenge?: Maybe<Challenge>;
-  /** Get all challenges, optionally filtered by block */
+  /** Get single challenge, with a NotFound result instead of null */
+  challengeResult: ChallengeResult;
+  /** Get all challenges, optionally filtered by block and challenge properties */
   challenges: Array<Challenge>;
+  /**
+   * Paginated challenges in curriculum order, optionally filtered by block
+   * Prefer over challenges when the full list is too large to fetch at once
+   */
+  challengesConnection: ChallengeConnection;
+  /**
+   * Get single chapter by superblock and chapter identifier (v9 curriculum)
+   * Chapter dashedNames are only unique within their superblock
+   */
+  chapter?: Maybe<Chapter>;
   /**
    * Get all chapters, optionally filtered by superblock (v9 curriculum)
    * Returns empty array for legacy flat curriculum superblocks
    */
   chapters: Array<Chapter>;
+  /** Paginated chapters in curriculum order, optionally filtered by superblock */
+  chaptersConnection: ChapterConnection;
   /** Get complete curriculum structure */
   curriculum: Curriculum;
+  /** Get single module by superblock, chapter and module identifier (v9 curriculum) */
+  module?: Maybe<Module>;
   /**
    * Get all modules, optionally filtered by chapter or superblock (v9 curriculum)
+   * A chapter name without a superblock matches that chapter in every superblock
    * Returns empty array for legacy flat curriculum superblocks
    */
   modules: Array<Module>;
+  /** Paginated modules in curriculum order, optionally filtered by chapter or superblock */
+  modulesConnection: ModuleConnection;
+  /**
+   * Refetch any object by its global ID (Relay Global Object Identification)
+   * Returns null for malformed or unknown IDs
+   */
+  node?: Maybe<Node>;
+  /**
+   * Refetch several objects by global ID, in the order given (at most 100)
+   * Unknown IDs resolve to null
+   */
+  nodes: Array<Maybe<Node>>;
+  /**
+   * Full-text search over superblock names, block names and help categories,
+   * and challenge titles. Terms also match as prefixes ("flex" finds "flexbox").
+   * Results are ranked best first, each with its curriculum breadcrumb.
+   * first defaults to 20 (max 100)
+   */
+  search: Array<SearchResult>;
+  /**
+   * Aggregate curriculum counts with per-superblock, per-chapter and
+   * per-module breakdowns
+   */
+  stats: CurriculumStats;
   /** Get single superblock by identifier */
   superblock?: Maybe<Superblock>;
+  /** Get single superblock, with a NotFound result instead of null */
+  superblockResult: SuperblockResult;
   /** Get all superblocks */
   superblocks: Array<Superblock>;
 };
@@ -300,8 +695,8 @@ export type Query = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -324,8 +719,32 @@ export type QueryBlockArgs = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryBlockResultArgs = {
+  dashedName: Scalars['String']['input'];
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -336,6 +755,34 @@ export type QueryBlockArgs = {
  * - BlockType → BlockType enum
  */
 export type QueryBlocksArgs = {
+  filter: InputMaybe<BlockFilter>;
+  superblockDashedName: InputMaybe<Scalars['String']['input']>;
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryBlocksConnectionArgs = {
+  after: InputMaybe<Scalars['String']['input']>;
+  filter: InputMaybe<BlockFilter>;
+  first: InputMaybe<Scalars['Int']['input']>;
   superblockDashedName: InputMaybe<Scalars['String']['input']>;
 };
 
@@ -348,8 +795,8 @@ export type QueryBlocksArgs = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -372,8 +819,32 @@ export type QueryChallengeArgs = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryChallengeResultArgs = {
+  id: Scalars['ID']['input'];
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -385,6 +856,7 @@ export type QueryChallengeArgs = {
  */
 export type QueryChallengesArgs = {
   blockDashedName: InputMaybe<Scalars['String']['input']>;
+  filter: InputMaybe<ChallengeFilter>;
 };
 
 /**
@@ -396,8 +868,60 @@ export type QueryChallengesArgs = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryChallengesConnectionArgs = {
+  after: InputMaybe<Scalars['String']['input']>;
+  blockDashedName: InputMaybe<Scalars['String']['input']>;
+  filter: InputMaybe<ChallengeFilter>;
+  first: InputMaybe<Scalars['Int']['input']>;
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryChapterArgs = {
+  dashedName: Scalars['String']['input'];
+  superblockDashedName: Scalars['String']['input'];
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -420,8 +944,60 @@ export type QueryChaptersArgs = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryChaptersConnectionArgs = {
+  after: InputMaybe<Scalars['String']['input']>;
+  first: InputMaybe<Scalars['Int']['input']>;
+  superblockDashedName: InputMaybe<Scalars['String']['input']>;
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryModuleArgs = {
+  chapterDashedName: Scalars['String']['input'];
+  dashedName: Scalars['String']['input'];
+  superblockDashedName: Scalars['String']['input'];
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -445,8 +1021,109 @@ export type QueryModulesArgs = {
  *
  * Metadata/Content Separation:
  * - Challenge metadata (id, title) always available
- * - Challenge content (description, instructions, tests) returns null in MVP
- * - ChallengeContent types included for future v2 database integration
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryModulesConnectionArgs = {
+  after: InputMaybe<Scalars['String']['input']>;
+  chapterDashedName: InputMaybe<Scalars['String']['input']>;
+  first: InputMaybe<Scalars['Int']['input']>;
+  superblockDashedName: InputMaybe<Scalars['String']['input']>;
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryNodeArgs = {
+  id: Scalars['ID']['input'];
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QueryNodesArgs = {
+  ids: Array<Scalars['ID']['input']>;
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QuerySearchArgs = {
+  first: InputMaybe<Scalars['Int']['input']>;
+  query: Scalars['String']['input'];
+  types: InputMaybe<Array<SearchResultType>>;
+};
+
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
  *
  * Type Mappers (configured in codegen.ts):
  * - Curriculum → CurriculumData
@@ -460,6 +1137,30 @@ export type QuerySuperblockArgs = {
   dashedName: Scalars['String']['input'];
 };
 
+/**
+ * freeCodeCamp Curriculum GraphQL API Schema
+ * Sprint 004 - Schema Definition and Code Generation
+ *
+ * This schema defines the complete API contract for curriculum metadata queries.
+ * All types map to internal TypeScript types via @graphql-codegen type mappers.
+ *
+ * Metadata/Content Separation:
+ * - Challenge metadata (id, title) always available
+ * - Challenge content (description, instructions, tests) loaded on demand
+ *   from the configured content source, null when none is configured
+ *
+ * Type Mappers (configured in codegen.ts):
+ * - Curriculum → CurriculumData
+ * - Superblock → SuperblockData
+ * - Block → BlockData
+ * - Challenge → ChallengeMetadata (NOT full ChallengeData)
+ * - BlockLayout → BlockLayout enum
+ * - BlockType → BlockType enum
+ */
+export type QuerySuperblockResultArgs = {
+  dashedName: Scalars['String']['input'];
+};
+
 /**
  * External resource (CDN script or stylesheet) required for challenges
  * Used in blocks that depend on external libraries
@@ -474,6 +1175,30 @@ export type RequiredResource = {
   src?: Maybe<Scalars['String']['output']>;
 };
 
+/**
+ * Ranked search hit with its breadcrumb
+ * Fields below the matched entry's level are null, as are chapter and module
+ * for legacy superblocks. Blocks in several superblocks report the first one.
+ */
+export type SearchResult = {
+  /** Block containing the match (the match itself for BLOCK, null for SUPERBLOCK) */
+  block?: Maybe<Block>;
+  /** Matched challenge (null unless type is CHALLENGE) */
+  challenge?: Maybe<Challenge>;
+  /** Chapter containing the match (null for SUPERBLOCK and legacy superblocks) */
+  chapter?: Maybe<Chapter>;
+  /** Module containing the match (null for SUPERBLOCK and legacy superblocks) */
+  module?: Maybe<Module>;
+  /** Relevance score (higher is better) */
+  score: Scalars['Float']['output'];
+  /** Superblock containing the match (the match itself for SUPERBLOCK) */
+  superblock: Superblock;
+  /** Kind of entry that matched */
+  type: SearchResultType;
+};
+
+export { SearchResultType };
+
 /**
  * Example solution for a challenge
  * Contains solution code files
@@ -487,7 +1212,7 @@ export type Solution = {
  * Major curriculum area (e.g., Responsive Web Design)
  * Supports both legacy (flat) and new v9 (hierarchical) curriculum structures
  */
-export type Superblock = {
+export type Superblock = Node & {
   /** Resolved Block objects - flattened view (convenience field) */
   blockObjects: Array<Block>;
   /** Flattened array of all block identifiers (from all chapters/modules) */
@@ -497,14 +1222,39 @@ export type Superblock = {
    * Empty array for legacy flat curriculum
    */
   chapters: Array<Chapter>;
+  /** True if every chapter is coming soon (always false for LEGACY superblocks) */
+  comingSoon: Scalars['Boolean']['output'];
   /** Unique identifier (e.g., 'responsive-web-design') */
   dashedName: Scalars['String']['output'];
+  /** Globally unique, opaque identifier */
+  id: Scalars['ID']['output'];
   /** True if this superblock is certification-eligible */
   isCertification: Scalars['Boolean']['output'];
   /** Human-readable name (e.g., 'Responsive Web Design') */
   name: Scalars['String']['output'];
+  /** Whether blocks are listed directly or grouped into chapters and modules */
+  structure: SuperblockStructure;
+};
+
+/** Superblock lookup result */
+export type SuperblockResult = NotFound | Superblock;
+
+/**
+ * Counts for one superblock
+ * Blocks shared with other superblocks count towards each of them
+ */
+export type SuperblockStats = {
+  blockCount: Scalars['Int']['output'];
+  challengeCount: Scalars['Int']['output'];
+  chapterCount: Scalars['Int']['output'];
+  /** Counts for each chapter (empty for legacy flat curriculum superblocks) */
+  chapters: Array<ChapterStats>;
+  dashedName: Scalars['String']['output'];
+  moduleCount: Scalars['Int']['output'];
 };
 
+export { SuperblockStructure };
+
 /**
  * Validation test for challenge submission
  * Contains human-readable description and assertion code
@@ -633,60 +1383,180 @@ export type DirectiveResolverFn<
   info: GraphQLResolveInfo
 ) => TResult | Promise<TResult>;
 
+/** Mapping of union types */
+export type ResolversUnionTypes<_RefType extends Record<string, unknown>> = {
+  BlockResult: BlockData | NotFoundResult;
+  ChallengeResult: ChallengeMetadata | NotFoundResult;
+  SuperblockResult: NotFoundResult | SuperblockData;
+};
+
+/** Mapping of interface types */
+export type ResolversInterfaceTypes<_RefType extends Record<string, unknown>> =
+  {
+    Node:
+      BlockData | ChallengeMetadata | ChapterData | ModuleData | SuperblockData;
+  };
+
 /** Mapping between all available schema types and the resolvers types */
 export type ResolversTypes = {
   Block: ResolverTypeWrapper<BlockData>;
+  BlockConnection: ResolverTypeWrapper<
+    Omit<BlockConnection, 'edges' | 'nodes'> & {
+      edges: Array<ResolversTypes['BlockEdge']>;
+      nodes: Array<ResolversTypes['Block']>;
+    }
+  >;
+  BlockEdge: ResolverTypeWrapper<
+    Omit<BlockEdge, 'node'> & { node: ResolversTypes['Block'] }
+  >;
+  BlockFilter: BlockFilter;
   BlockLabel: BlockLabel;
+  BlockLabelCount: ResolverTypeWrapper<BlockLabelCount>;
   BlockLayout: BlockLayout;
+  BlockLayoutCount: ResolverTypeWrapper<BlockLayoutCount>;
+  BlockResult: ResolverTypeWrapper<
+    ResolversUnionTypes<ResolversTypes>['BlockResult']
+  >;
   Boolean: ResolverTypeWrapper<Scalars['Boolean']['output']>;
   Certification: ResolverTypeWrapper<CertificationData>;
   Challenge: ResolverTypeWrapper<ChallengeMetadata>;
-  ChallengeContent: ResolverTypeWrapper<ChallengeContent>;
-  ChallengeFile: ResolverTypeWrapper<ChallengeFile>;
+  ChallengeConnection: ResolverTypeWrapper<
+    Omit<ChallengeConnection, 'edges' | 'nodes'> & {
+      edges: Array<ResolversTypes['ChallengeEdge']>;
+      nodes: Array<ResolversTypes['Challenge']>;
+    }
+  >;
+  ChallengeContent: ResolverTypeWrapper<ChallengeContentData>;
+  ChallengeEdge: ResolverTypeWrapper<
+    Omit<ChallengeEdge, 'node'> & { node: ResolversTypes['Challenge'] }
+  >;
+  ChallengeFile: ResolverTypeWrapper<ChallengeFileData>;
+  ChallengeFilter: ChallengeFilter;
+  ChallengeResult: ResolverTypeWrapper<
+    ResolversUnionTypes<ResolversTypes>['ChallengeResult']
+  >;
   Chapter: ResolverTypeWrapper<ChapterData>;
+  ChapterConnection: ResolverTypeWrapper<
+    Omit<ChapterConnection, 'edges' | 'nodes'> & {
+      edges: Array<ResolversTypes['ChapterEdge']>;
+      nodes: Array<ResolversTypes['Chapter']>;
+    }
+  >;
+  ChapterEdge: ResolverTypeWrapper<
+    Omit<ChapterEdge, 'node'> & { node: ResolversTypes['Chapter'] }
+  >;
+  ChapterStats: ResolverTypeWrapper<ChapterStatsData>;
+  ContentCacheMetrics: ResolverTypeWrapper<ContentCacheMetrics>;
   Curriculum: ResolverTypeWrapper<CurriculumData>;
+  CurriculumPath: ResolverTypeWrapper<BlockPlacement>;
+  CurriculumStats: ResolverTypeWrapper<CurriculumStatsData>;
   DataStoreMetrics: ResolverTypeWrapper<DataStoreMetrics>;
+  ErrorCode: ErrorCode;
   Float: ResolverTypeWrapper<Scalars['Float']['output']>;
   HealthCheck: ResolverTypeWrapper<HealthCheck>;
   ID: ResolverTypeWrapper<Scalars['ID']['output']>;
   Int: ResolverTypeWrapper<Scalars['Int']['output']>;
   Module: ResolverTypeWrapper<ModuleData>;
+  ModuleConnection: ResolverTypeWrapper<
+    Omit<ModuleConnection, 'edges' | 'nodes'> & {
+      edges: Array<ResolversTypes['ModuleEdge']>;
+      nodes: Array<ResolversTypes['Module']>;
+    }
+  >;
+  ModuleEdge: ResolverTypeWrapper<
+    Omit<ModuleEdge, 'node'> & { node: ResolversTypes['Module'] }
+  >;
+  ModuleStats: ResolverTypeWrapper<ModuleStats>;
+  Node: ResolverTypeWrapper<ResolversInterfaceTypes<ResolversTypes>['Node']>;
+  NodeType: NodeType;
+  NotFound: ResolverTypeWrapper<NotFoundResult>;
+  PageInfo: ResolverTypeWrapper<PageInfo>;
   Query: ResolverTypeWrapper<Record<PropertyKey, never>>;
   RequiredResource: ResolverTypeWrapper<RequiredResource>;
-  Solution: ResolverTypeWrapper<Solution>;
+  SearchResult: ResolverTypeWrapper<SearchHit>;
+  SearchResultType: SearchResultType;
+  Solution: ResolverTypeWrapper<SolutionData>;
   String: ResolverTypeWrapper<Scalars['String']['output']>;
   Superblock: ResolverTypeWrapper<SuperblockData>;
-  Test: ResolverTypeWrapper<Test>;
+  SuperblockResult: ResolverTypeWrapper<
+    ResolversUnionTypes<ResolversTypes>['SuperblockResult']
+  >;
+  SuperblockStats: ResolverTypeWrapper<SuperblockStatsData>;
+  SuperblockStructure: SuperblockStructure;
+  Test: ResolverTypeWrapper<TestData>;
 };
 
 /** Mapping between all available schema types and the resolvers parents */
 export type ResolversParentTypes = {
   Block: BlockData;
+  BlockConnection: Omit<BlockConnection, 'edges' | 'nodes'> & {
+    edges: Array<ResolversParentTypes['BlockEdge']>;
+    nodes: Array<ResolversParentTypes['Block']>;
+  };
+  BlockEdge: Omit<BlockEdge, 'node'> & { node: ResolversParentTypes['Block'] };
+  BlockFilter: BlockFilter;
+  BlockLabelCount: BlockLabelCount;
+  BlockLayoutCount: BlockLayoutCount;
+  BlockResult: ResolversUnionTypes<ResolversParentTypes>['BlockResult'];
   Boolean: Scalars['Boolean']['output'];
   Certification: CertificationData;
   Challenge: ChallengeMetadata;
-  ChallengeContent: ChallengeContent;
-  ChallengeFile: ChallengeFile;
+  ChallengeConnection: Omit<ChallengeConnection, 'edges' | 'nodes'> & {
+    edges: Array<ResolversParentTypes['ChallengeEdge']>;
+    nodes: Array<ResolversParentTypes['Challenge']>;
+  };
+  ChallengeContent: ChallengeContentData;
+  ChallengeEdge: Omit<ChallengeEdge, 'node'> & {
+    node: ResolversParentTypes['Challenge'];
+  };
+  ChallengeFile: ChallengeFileData;
+  ChallengeFilter: ChallengeFilter;
+  ChallengeResult: ResolversUnionTypes<ResolversParentTypes>['ChallengeResult'];
   Chapter: ChapterData;
+  ChapterConnection: Omit<ChapterConnection, 'edges' | 'nodes'> & {
+    edges: Array<ResolversParentTypes['ChapterEdge']>;
+    nodes: Array<ResolversParentTypes['Chapter']>;
+  };
+  ChapterEdge: Omit<ChapterEdge, 'node'> & {
+    node: ResolversParentTypes['Chapter'];
+  };
+  ChapterStats: ChapterStatsData;
+  ContentCacheMetrics: ContentCacheMetrics;
   Curriculum: CurriculumData;
+  CurriculumPath: BlockPlacement;
+  CurriculumStats: CurriculumStatsData;
   DataStoreMetrics: DataStoreMetrics;
   Float: Scalars['Float']['output'];
   HealthCheck: HealthCheck;
   ID: Scalars['ID']['output'];
   Int: Scalars['Int']['output'];
   Module: ModuleData;
+  ModuleConnection: Omit<ModuleConnection, 'edges' | 'nodes'> & {
+    edges: Array<ResolversParentTypes['ModuleEdge']>;
+    nodes: Array<ResolversParentTypes['Module']>;
+  };
+  ModuleEdge: Omit<ModuleEdge, 'node'> & {
+    node: ResolversParentTypes['Module'];
+  };
+  ModuleStats: ModuleStats;
+  Node: ResolversInterfaceTypes<ResolversParentTypes>['Node'];
+  NotFound: NotFoundResult;
+  PageInfo: PageInfo;
   Query: Record<PropertyKey, never>;
   RequiredResource: RequiredResource;
-  Solution: Solution;
+  SearchResult: SearchHit;
+  Solution: SolutionData;
   String: Scalars['String']['output'];
   Superblock: SuperblockData;
-  Test: Test;
+  SuperblockResult: ResolversUnionTypes<ResolversParentTypes>['SuperblockResult'];
+  SuperblockStats: SuperblockStatsData;
+  Test: TestData;
 };
 
 export type BlockResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Block'] = ResolversParentTypes['Block'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Block'] =
+    ResolversParentTypes['Block'],
 > = {
   blockLabel?: Resolver<
     Maybe<ResolversTypes['BlockLabel']>,
@@ -703,6 +1573,12 @@ export type BlockResolvers<
     ParentType,
     ContextType
   >;
+  chapters?: Resolver<
+    Array<ResolversTypes['Chapter']>,
+    ParentType,
+    ContextType
+  >;
+  comingSoon?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   disableLoopProtectPreview?: Resolver<
     Maybe<ResolversTypes['Boolean']>,
@@ -720,11 +1596,14 @@ export type BlockResolvers<
     ContextType
   >;
   helpCategory?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  isShared?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   isUpcomingChange?: Resolver<
     ResolversTypes['Boolean'],
     ParentType,
     ContextType
   >;
+  modules?: Resolver<Array<ResolversTypes['Module']>, ParentType, ContextType>;
   name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   required?: Resolver<
     Maybe<Array<ResolversTypes['RequiredResource']>>,
@@ -742,6 +1621,27 @@ export type BlockResolvers<
     ParentType,
     ContextType
   >;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+};
+
+export type BlockConnectionResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['BlockConnection'] =
+    ResolversParentTypes['BlockConnection'],
+> = {
+  edges?: Resolver<Array<ResolversTypes['BlockEdge']>, ParentType, ContextType>;
+  nodes?: Resolver<Array<ResolversTypes['Block']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+};
+
+export type BlockEdgeResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['BlockEdge'] =
+    ResolversParentTypes['BlockEdge'],
+> = {
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Block'], ParentType, ContextType>;
 };
 
 export type BlockLabelResolvers = EnumResolverSignature<
@@ -759,6 +1659,19 @@ export type BlockLabelResolvers = EnumResolverSignature<
   ResolversTypes['BlockLabel']
 >;
 
+export type BlockLabelCountResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['BlockLabelCount'] =
+    ResolversParentTypes['BlockLabelCount'],
+> = {
+  count?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  label?: Resolver<
+    Maybe<ResolversTypes['BlockLabel']>,
+    ParentType,
+    ContextType
+  >;
+};
+
 export type BlockLayoutResolvers = EnumResolverSignature<
   {
     CHALLENGE_GRID?: any;
@@ -773,19 +1686,36 @@ export type BlockLayoutResolvers = EnumResolverSignature<
   ResolversTypes['BlockLayout']
 >;
 
+export type BlockLayoutCountResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['BlockLayoutCount'] =
+    ResolversParentTypes['BlockLayoutCount'],
+> = {
+  count?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  layout?: Resolver<ResolversTypes['BlockLayout'], ParentType, ContextType>;
+};
+
+export type BlockResultResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['BlockResult'] =
+    ResolversParentTypes['BlockResult'],
+> = {
+  __resolveType: TypeResolveFn<'Block' | 'NotFound', ParentType, ContextType>;
+};
+
 export type CertificationResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Certification'] = ResolversParentTypes['Certification'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Certification'] =
+    ResolversParentTypes['Certification'],
 > = {
   dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   superblock?: Resolver<ResolversTypes['Superblock'], ParentType, ContextType>;
 };
 
 export type ChallengeResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Challenge'] = ResolversParentTypes['Challenge'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Challenge'] =
+    ResolversParentTypes['Challenge'],
 > = {
   block?: Resolver<ResolversTypes['Block'], ParentType, ContextType>;
   content?: Resolver<
@@ -794,13 +1724,49 @@ export type ChallengeResolvers<
     ContextType
   >;
   id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  isFirst?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  isLast?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  next?: Resolver<Maybe<ResolversTypes['Challenge']>, ParentType, ContextType>;
+  nextInSuperblock?: Resolver<
+    Maybe<ResolversTypes['Challenge']>,
+    ParentType,
+    ContextType,
+    Partial<ChallengeNextInSuperblockArgs>
+  >;
+  order?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  path?: Resolver<
+    Array<ResolversTypes['CurriculumPath']>,
+    ParentType,
+    ContextType
+  >;
+  previous?: Resolver<
+    Maybe<ResolversTypes['Challenge']>,
+    ParentType,
+    ContextType
+  >;
   title?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+};
+
+export type ChallengeConnectionResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChallengeConnection'] =
+    ResolversParentTypes['ChallengeConnection'],
+> = {
+  edges?: Resolver<
+    Array<ResolversTypes['ChallengeEdge']>,
+    ParentType,
+    ContextType
+  >;
+  nodes?: Resolver<Array<ResolversTypes['Challenge']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
 };
 
 export type ChallengeContentResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['ChallengeContent'] = ResolversParentTypes['ChallengeContent'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChallengeContent'] =
+    ResolversParentTypes['ChallengeContent'],
 > = {
   description?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   files?: Resolver<
@@ -817,10 +1783,19 @@ export type ChallengeContentResolvers<
   tests?: Resolver<Array<ResolversTypes['Test']>, ParentType, ContextType>;
 };
 
+export type ChallengeEdgeResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChallengeEdge'] =
+    ResolversParentTypes['ChallengeEdge'],
+> = {
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Challenge'], ParentType, ContextType>;
+};
+
 export type ChallengeFileResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['ChallengeFile'] = ResolversParentTypes['ChallengeFile'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChallengeFile'] =
+    ResolversParentTypes['ChallengeFile'],
 > = {
   contents?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   editableRegionBoundaries?: Resolver<
@@ -832,21 +1807,90 @@ export type ChallengeFileResolvers<
   name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 };
 
+export type ChallengeResultResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChallengeResult'] =
+    ResolversParentTypes['ChallengeResult'],
+> = {
+  __resolveType: TypeResolveFn<
+    'Challenge' | 'NotFound',
+    ParentType,
+    ContextType
+  >;
+};
+
 export type ChapterResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Chapter'] = ResolversParentTypes['Chapter'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Chapter'] =
+    ResolversParentTypes['Chapter'],
 > = {
   comingSoon?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   modules?: Resolver<Array<ResolversTypes['Module']>, ParentType, ContextType>;
   superblock?: Resolver<ResolversTypes['Superblock'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+};
+
+export type ChapterConnectionResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChapterConnection'] =
+    ResolversParentTypes['ChapterConnection'],
+> = {
+  edges?: Resolver<
+    Array<ResolversTypes['ChapterEdge']>,
+    ParentType,
+    ContextType
+  >;
+  nodes?: Resolver<Array<ResolversTypes['Chapter']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+};
+
+export type ChapterEdgeResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChapterEdge'] =
+    ResolversParentTypes['ChapterEdge'],
+> = {
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Chapter'], ParentType, ContextType>;
+};
+
+export type ChapterStatsResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ChapterStats'] =
+    ResolversParentTypes['ChapterStats'],
+> = {
+  blockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  challengeCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  comingSoon?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  moduleCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  modules?: Resolver<
+    Array<ResolversTypes['ModuleStats']>,
+    ParentType,
+    ContextType
+  >;
+};
+
+export type ContentCacheMetricsResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ContentCacheMetrics'] =
+    ResolversParentTypes['ContentCacheMetrics'],
+> = {
+  entries?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  evictions?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  hitRate?: Resolver<ResolversTypes['Float'], ParentType, ContextType>;
+  hits?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  maxSizeMB?: Resolver<ResolversTypes['Float'], ParentType, ContextType>;
+  misses?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  sizeMB?: Resolver<ResolversTypes['Float'], ParentType, ContextType>;
 };
 
 export type CurriculumResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Curriculum'] = ResolversParentTypes['Curriculum'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Curriculum'] =
+    ResolversParentTypes['Curriculum'],
 > = {
   certifications?: Resolver<
     Array<ResolversTypes['String']>,
@@ -860,23 +1904,97 @@ export type CurriculumResolvers<
   >;
 };
 
+export type CurriculumPathResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['CurriculumPath'] =
+    ResolversParentTypes['CurriculumPath'],
+> = {
+  block?: Resolver<ResolversTypes['Block'], ParentType, ContextType>;
+  chapter?: Resolver<Maybe<ResolversTypes['Chapter']>, ParentType, ContextType>;
+  module?: Resolver<Maybe<ResolversTypes['Module']>, ParentType, ContextType>;
+  superblock?: Resolver<ResolversTypes['Superblock'], ParentType, ContextType>;
+};
+
+export type CurriculumStatsResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['CurriculumStats'] =
+    ResolversParentTypes['CurriculumStats'],
+> = {
+  blockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  blocksByLabel?: Resolver<
+    Array<ResolversTypes['BlockLabelCount']>,
+    ParentType,
+    ContextType
+  >;
+  blocksByLayout?: Resolver<
+    Array<ResolversTypes['BlockLayoutCount']>,
+    ParentType,
+    ContextType
+  >;
+  challengeCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  chapterCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  comingSoonChapterCount?: Resolver<
+    ResolversTypes['Int'],
+    ParentType,
+    ContextType
+  >;
+  comingSoonModuleCount?: Resolver<
+    ResolversTypes['Int'],
+    ParentType,
+    ContextType
+  >;
+  moduleCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  superblockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  superblocks?: Resolver<
+    Array<ResolversTypes['SuperblockStats']>,
+    ParentType,
+    ContextType
+  >;
+  upcomingChangeBlockCount?: Resolver<
+    ResolversTypes['Int'],
+    ParentType,
+    ContextType
+  >;
+  upcomingChangeChallengeCount?: Resolver<
+    ResolversTypes['Int'],
+    ParentType,
+    ContextType
+  >;
+};
+
 export type DataStoreMetricsResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['DataStoreMetrics'] = ResolversParentTypes['DataStoreMetrics'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['DataStoreMetrics'] =
+    ResolversParentTypes['DataStoreMetrics'],
 > = {
   blockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
   challengeCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
   chapterCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  contentCache?: Resolver<
+    Maybe<ResolversTypes['ContentCacheMetrics']>,
+    ParentType,
+    ContextType
+  >;
   memoryUsageMB?: Resolver<ResolversTypes['Float'], ParentType, ContextType>;
   moduleCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
   superblockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
 };
 
+export type ErrorCodeResolvers = EnumResolverSignature<
+  {
+    BAD_USER_INPUT?: any;
+    CONTENT_LOAD_FAILED?: any;
+    DATA_INTEGRITY?: any;
+    INTERNAL_SERVER_ERROR?: any;
+    NOT_FOUND?: any;
+  },
+  ResolversTypes['ErrorCode']
+>;
+
 export type HealthCheckResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['HealthCheck'] = ResolversParentTypes['HealthCheck'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['HealthCheck'] =
+    ResolversParentTypes['HealthCheck'],
 > = {
   dataStore?: Resolver<
     ResolversTypes['DataStoreMetrics'],
@@ -888,9 +2006,9 @@ export type HealthCheckResolvers<
 };
 
 export type ModuleResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Module'] = ResolversParentTypes['Module'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Module'] =
+    ResolversParentTypes['Module'],
 > = {
   blockObjects?: Resolver<
     Array<ResolversTypes['Block']>,
@@ -901,17 +2019,112 @@ export type ModuleResolvers<
   chapter?: Resolver<ResolversTypes['Chapter'], ParentType, ContextType>;
   comingSoon?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   moduleType?: Resolver<
     Maybe<ResolversTypes['String']>,
     ParentType,
     ContextType
   >;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+};
+
+export type ModuleConnectionResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ModuleConnection'] =
+    ResolversParentTypes['ModuleConnection'],
+> = {
+  edges?: Resolver<
+    Array<ResolversTypes['ModuleEdge']>,
+    ParentType,
+    ContextType
+  >;
+  nodes?: Resolver<Array<ResolversTypes['Module']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+  totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+};
+
+export type ModuleEdgeResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ModuleEdge'] =
+    ResolversParentTypes['ModuleEdge'],
+> = {
+  cursor?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  node?: Resolver<ResolversTypes['Module'], ParentType, ContextType>;
+};
+
+export type ModuleStatsResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['ModuleStats'] =
+    ResolversParentTypes['ModuleStats'],
+> = {
+  blockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  challengeCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  comingSoon?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+};
+
+export type NodeResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Node'] =
+    ResolversParentTypes['Node'],
+> = {
+  __resolveType: TypeResolveFn<
+    'Block' | 'Challenge' | 'Chapter' | 'Module' | 'Superblock',
+    ParentType,
+    ContextType
+  >;
+};
+
+export type NodeTypeResolvers = EnumResolverSignature<
+  {
+    Block?: any;
+    Challenge?: any;
+    Chapter?: any;
+    Module?: any;
+    Superblock?: any;
+  },
+  ResolversTypes['NodeType']
+>;
+
+export type NotFoundResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['NotFound'] =
+    ResolversParentTypes['NotFound'],
+> = {
+  code?: Resolver<ResolversTypes['ErrorCode'], ParentType, ContextType>;
+  entityType?: Resolver<ResolversTypes['NodeType'], ParentType, ContextType>;
+  key?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  message?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+};
+
+export type PageInfoResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['PageInfo'] =
+    ResolversParentTypes['PageInfo'],
+> = {
+  endCursor?: Resolver<
+    Maybe<ResolversTypes['String']>,
+    ParentType,
+    ContextType
+  >;
+  hasNextPage?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  hasPreviousPage?: Resolver<
+    ResolversTypes['Boolean'],
+    ParentType,
+    ContextType
+  >;
+  startCursor?: Resolver<
+    Maybe<ResolversTypes['String']>,
+    ParentType,
+    ContextType
+  >;
 };
 
 export type QueryResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Query'] = ResolversParentTypes['Query'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Query'] =
+    ResolversParentTypes['Query'],
 > = {
   _health?: Resolver<ResolversTypes['HealthCheck'], ParentType, ContextType>;
   block?: Resolver<
@@ -920,12 +2133,24 @@ export type QueryResolvers<
     ContextType,
     RequireFields<QueryBlockArgs, 'dashedName'>
   >;
+  blockResult?: Resolver<
+    ResolversTypes['BlockResult'],
+    ParentType,
+    ContextType,
+    RequireFields<QueryBlockResultArgs, 'dashedName'>
+  >;
   blocks?: Resolver<
     Array<ResolversTypes['Block']>,
     ParentType,
     ContextType,
     Partial<QueryBlocksArgs>
   >;
+  blocksConnection?: Resolver<
+    ResolversTypes['BlockConnection'],
+    ParentType,
+    ContextType,
+    Partial<QueryBlocksConnectionArgs>
+  >;
   certifications?: Resolver<
     Array<ResolversTypes['Certification']>,
     ParentType,
@@ -937,31 +2162,95 @@ export type QueryResolvers<
     ContextType,
     RequireFields<QueryChallengeArgs, 'id'>
   >;
+  challengeResult?: Resolver<
+    ResolversTypes['ChallengeResult'],
+    ParentType,
+    ContextType,
+    RequireFields<QueryChallengeResultArgs, 'id'>
+  >;
   challenges?: Resolver<
     Array<ResolversTypes['Challenge']>,
     ParentType,
     ContextType,
     Partial<QueryChallengesArgs>
   >;
+  challengesConnection?: Resolver<
+    ResolversTypes['ChallengeConnection'],
+    ParentType,
+    ContextType,
+    Partial<QueryChallengesConnectionArgs>
+  >;
+  chapter?: Resolver<
+    Maybe<ResolversTypes['Chapter']>,
+    ParentType,
+    ContextType,
+    RequireFields<QueryChapterArgs, 'dashedName' | 'superblockDashedName'>
+  >;
   chapters?: Resolver<
     Array<ResolversTypes['Chapter']>,
     ParentType,
     ContextType,
     Partial<QueryChaptersArgs>
   >;
+  chaptersConnection?: Resolver<
+    ResolversTypes['ChapterConnection'],
+    ParentType,
+    ContextType,
+    Partial<QueryChaptersConnectionArgs>
+  >;
   curriculum?: Resolver<ResolversTypes['Curriculum'], ParentType, ContextType>;
+  module?: Resolver<
+    Maybe<ResolversTypes['Module']>,
+    ParentType,
+    ContextType,
+    RequireFields<
+      QueryModuleArgs,
+      'chapterDashedName' | 'dashedName' | 'superblockDashedName'
+    >
+  >;
   modules?: Resolver<
     Array<ResolversTypes['Module']>,
     ParentType,
     ContextType,
     Partial<QueryModulesArgs>
   >;
+  modulesConnection?: Resolver<
+    ResolversTypes['ModuleConnection'],
+    ParentType,
+    ContextType,
+    Partial<QueryModulesConnectionArgs>
+  >;
+  node?: Resolver<
+    Maybe<ResolversTypes['Node']>,
+    ParentType,
+    ContextType,
+    RequireFields<QueryNodeArgs, 'id'>
+  >;
+  nodes?: Resolver<
+    Array<Maybe<ResolversTypes['Node']>>,
+    ParentType,
+    ContextType,
+    RequireFields<QueryNodesArgs, 'ids'>
+  >;
+  search?: Resolver<
+    Array<ResolversTypes['SearchResult']>,
+    ParentType,
+    ContextType,
+    RequireFields<QuerySearchArgs, 'query'>
+  >;
+  stats?: Resolver<ResolversTypes['CurriculumStats'], ParentType, ContextType>;
   superblock?: Resolver<
     Maybe<ResolversTypes['Superblock']>,
     ParentType,
     ContextType,
     RequireFields<QuerySuperblockArgs, 'dashedName'>
   >;
+  superblockResult?: Resolver<
+    ResolversTypes['SuperblockResult'],
+    ParentType,
+    ContextType,
+    RequireFields<QuerySuperblockResultArgs, 'dashedName'>
+  >;
   superblocks?: Resolver<
     Array<ResolversTypes['Superblock']>,
     ParentType,
@@ -970,18 +2259,41 @@ export type QueryResolvers<
 };
 
 export type RequiredResourceResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['RequiredResource'] = ResolversParentTypes['RequiredResource'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['RequiredResource'] =
+    ResolversParentTypes['RequiredResource'],
 > = {
   link?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   src?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
 };
 
+export type SearchResultResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['SearchResult'] =
+    ResolversParentTypes['SearchResult'],
+> = {
+  block?: Resolver<Maybe<ResolversTypes['Block']>, ParentType, ContextType>;
+  challenge?: Resolver<
+    Maybe<ResolversTypes['Challenge']>,
+    ParentType,
+    ContextType
+  >;
+  chapter?: Resolver<Maybe<ResolversTypes['Chapter']>, ParentType, ContextType>;
+  module?: Resolver<Maybe<ResolversTypes['Module']>, ParentType, ContextType>;
+  score?: Resolver<ResolversTypes['Float'], ParentType, ContextType>;
+  superblock?: Resolver<ResolversTypes['Superblock'], ParentType, ContextType>;
+  type?: Resolver<ResolversTypes['SearchResultType'], ParentType, ContextType>;
+};
+
+export type SearchResultTypeResolvers = EnumResolverSignature<
+  { BLOCK?: any; CHALLENGE?: any; SUPERBLOCK?: any },
+  ResolversTypes['SearchResultType']
+>;
+
 export type SolutionResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Solution'] = ResolversParentTypes['Solution'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Solution'] =
+    ResolversParentTypes['Solution'],
 > = {
   files?: Resolver<
     Array<ResolversTypes['ChallengeFile']>,
@@ -991,9 +2303,9 @@ export type SolutionResolvers<
 };
 
 export type SuperblockResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Superblock'] = ResolversParentTypes['Superblock'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Superblock'] =
+    ResolversParentTypes['Superblock'],
 > = {
   blockObjects?: Resolver<
     Array<ResolversTypes['Block']>,
@@ -1006,40 +2318,109 @@ export type SuperblockResolvers<
     ParentType,
     ContextType
   >;
+  comingSoon?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  id?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   isCertification?: Resolver<
     ResolversTypes['Boolean'],
     ParentType,
     ContextType
   >;
   name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  structure?: Resolver<
+    ResolversTypes['SuperblockStructure'],
+    ParentType,
+    ContextType
+  >;
+  __isTypeOf?: IsTypeOfResolverFn<ParentType, ContextType>;
+};
+
+export type SuperblockResultResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['SuperblockResult'] =
+    ResolversParentTypes['SuperblockResult'],
+> = {
+  __resolveType: TypeResolveFn<
+    'NotFound' | 'Superblock',
+    ParentType,
+    ContextType
+  >;
+};
+
+export type SuperblockStatsResolvers<
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['SuperblockStats'] =
+    ResolversParentTypes['SuperblockStats'],
+> = {
+  blockCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  challengeCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  chapterCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  chapters?: Resolver<
+    Array<ResolversTypes['ChapterStats']>,
+    ParentType,
+    ContextType
+  >;
+  dashedName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  moduleCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
 };
 
+export type SuperblockStructureResolvers = EnumResolverSignature<
+  { CHAPTERED?: any; LEGACY?: any },
+  ResolversTypes['SuperblockStructure']
+>;
+
 export type TestResolvers<
-  ContextType = DataProvider,
-  ParentType extends
-    ResolversParentTypes['Test'] = ResolversParentTypes['Test'],
+  ContextType = GraphQLContext,
+  ParentType extends ResolversParentTypes['Test'] =
+    ResolversParentTypes['Test'],
 > = {
   testString?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   text?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 };
 
-export type Resolvers<ContextType = DataProvider> = {
+export type Resolvers<ContextType = GraphQLContext> = {
   Block?: BlockResolvers<ContextType>;
+  BlockConnection?: BlockConnectionResolvers<ContextType>;
+  BlockEdge?: BlockEdgeResolvers<ContextType>;
   BlockLabel?: BlockLabelResolvers;
+  BlockLabelCount?: BlockLabelCountResolvers<ContextType>;
   BlockLayout?: BlockLayoutResolvers;
+  BlockLayoutCount?: BlockLayoutCountResolvers<ContextType>;
+  BlockResult?: BlockResultResolvers<ContextType>;
   Certification?: CertificationResolvers<ContextType>;
   Challenge?: ChallengeResolvers<ContextType>;
+  ChallengeConnection?: ChallengeConnectionResolvers<ContextType>;
   ChallengeContent?: ChallengeContentResolvers<ContextType>;
+  ChallengeEdge?: ChallengeEdgeResolvers<ContextType>;
   ChallengeFile?: ChallengeFileResolvers<ContextType>;
+  ChallengeResult?: ChallengeResultResolvers<ContextType>;
   Chapter?: ChapterResolvers<ContextType>;
+  ChapterConnection?: ChapterConnectionResolvers<ContextType>;
+  ChapterEdge?: ChapterEdgeResolvers<ContextType>;
+  ChapterStats?: ChapterStatsResolvers<ContextType>;
+  ContentCacheMetrics?: ContentCacheMetricsResolvers<ContextType>;
   Curriculum?: CurriculumResolvers<ContextType>;
+  CurriculumPath?: CurriculumPathResolvers<ContextType>;
+  CurriculumStats?: CurriculumStatsResolvers<ContextType>;
   DataStoreMetrics?: DataStoreMetricsResolvers<ContextType>;
+  ErrorCode?: ErrorCodeResolvers;
   HealthCheck?: HealthCheckResolvers<ContextType>;
   Module?: ModuleResolvers<ContextType>;
+  ModuleConnection?: ModuleConnectionResolvers<ContextType>;
+  ModuleEdge?: ModuleEdgeResolvers<ContextType>;
+  ModuleStats?: ModuleStatsResolvers<ContextType>;
+  Node?: NodeResolvers<ContextType>;
+  NodeType?: NodeTypeResolvers;
+  NotFound?: NotFoundResolvers<ContextType>;
+  PageInfo?: PageInfoResolvers<ContextType>;
   Query?: QueryResolvers<ContextType>;
   RequiredResource?: RequiredResourceResolvers<ContextType>;
+  SearchResult?: SearchResultResolvers<ContextType>;
+  SearchResultType?: SearchResultTypeResolvers;
   Solution?: SolutionResolvers<ContextType>;
   Superblock?: SuperblockResolvers<ContextType>;
+  SuperblockResult?: SuperblockResultResolvers<ContextType>;
+  SuperblockStats?: SuperblockStatsResolvers<ContextType>;
+  SuperblockStructure?: SuperblockStructureResolvers;
   Test?: TestResolvers<ContextType>;
 };
@@ -1,15 +1,43 @@
-import { createYoga, createSchema } from 'graphql-yoga';
+import { NoSchemaIntrospectionCustomRule } from 'graphql';
+import { createYoga, createSchema, type Plugin } from 'graphql-yoga';
 import {
   createServer,
   type IncomingMessage,
   type ServerResponse,
 } from 'node:http';
 import { readFileSync } from 'node:fs';
+import { timingSafeEqual } from 'node:crypto';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { DataProvider } from './data/types.js';
+import type { DataReloader } from './data/reload.js';
 import { loadSchemaFile } from './schema/load-schema.js';
-import { isReady } from './readiness.js';
+import { isReady, setReady } from './readiness.js';
+import { DEFAULT_SHUTDOWN_CONFIG, type ShutdownConfig } from './shutdown.js';
+import {
+  createPersistedQueryPlugins,
+  type PersistedQueriesConfig,
+} from './persisted-queries.js';
+import {
+  DEFAULT_QUERY_LIMITS,
+  useQueryLimits,
+  type QueryLimits,
+} from './query-limits.js';
+import { useRequestProfiling } from './profiling.js';
+import {
+  METRICS_CONTENT_TYPE,
+  useMetrics,
+  type ServerMetrics,
+} from './metrics.js';
+import {
+  getRequestId,
+  SILENT_LOGGER,
+  toYogaLogger,
+  useRequestLogging,
+  type Logger,
+} from './logger.js';
+import { CorsPolicy, parseCorsOrigins, useCors } from './cors.js';
+import { createGraphQLContext } from './context.js';
 import { resolvers } from './schema/resolvers/index.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -22,7 +50,57 @@ function loadLandingPage(): string {
 
 export interface ServerConfig {
   readonly port: number;
-  readonly corsOrigin: string;
+  // Allowed origins: a list or a comma-separated string (see cors.ts)
+  readonly corsOrigin: string | readonly string[];
+  // POST /admin/reload is only served when both are set
+  readonly reloader?: DataReloader;
+  readonly adminToken?: string;
+  // Persisted queries are off unless configured
+  readonly persistedQueries?: PersistedQueriesConfig;
+  // Depth/alias/cost limits, DEFAULT_QUERY_LIMITS unless overridden
+  readonly queryLimits?: QueryLimits;
+  // Report resolver call counts in extensions.profile
+  readonly profiling?: boolean;
+  // GraphiQL on GET /graphql (default on, always off in strict persisted
+  // queries mode)
+  readonly graphiql?: boolean;
+  // Reject __schema and __type queries when false (default on)
+  readonly introspection?: boolean;
+  // Add the original message and stack of unexpected (masked) errors to
+  // extensions.originalError; never enable in production
+  readonly exposeErrors?: boolean;
+  // GET /metrics (Prometheus text format) is only served when set
+  readonly metrics?: ServerMetrics;
+  // Bearer token GET /metrics requires, open without one
+  readonly metricsToken?: string;
+  // Log every GraphQL request (with its x-request-id) and Yoga's own output;
+  // resolvers get a child logger with the request id in context.logger
+  readonly logger?: Logger;
+  // Grace period and drain timeout of stop(), DEFAULT_SHUTDOWN_CONFIG unless
+  // overridden
+  readonly shutdown?: ShutdownConfig;
+}
+
+/**
+ * Check the request's bearer token against an expected token
+ * Uses a constant-time comparison to avoid leaking the token via timing
+ */
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Reject introspection queries during validation
+ */
+function useDisableIntrospection(): Plugin {
+  return {
+    onValidate({ addValidationRule }) {
+      addValidationRule(NoSchemaIntrospectionCustomRule);
+    },
+  };
 }
 
 export interface GraphQLServer {
@@ -30,6 +108,13 @@ export interface GraphQLServer {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   readonly yoga: any; // GraphQL Yoga internal types are complex and external
   readonly start: () => Promise<void>;
+  /**
+   * Gracefully stop serving
+   * Marks the server not ready, keeps serving for the grace period, then
+   * closes the listener and waits for in-flight requests. Keep-alive
+   * connections are closed as soon as they are idle.
+   */
+  readonly stop: () => Promise<void>;
 }
 
 export function createGraphQLServer(
@@ -43,28 +128,45 @@ export function createGraphQLServer(
     resolvers,
   });
 
-  // Create a context factory that ensures all DataProvider methods are properly bound
-  const contextFactory = () => {
-    return {
-      getCurriculum: () => dataProvider.getCurriculum(),
-      getSuperblock: (dashedName: string) =>
-        dataProvider.getSuperblock(dashedName),
-      getBlock: (dashedName: string) => dataProvider.getBlock(dashedName),
-      getChallenge: (id: string) => dataProvider.getChallenge(id),
-    };
-  };
+  const persistedQueries = config.persistedQueries;
+  const corsPolicy = new CorsPolicy(
+    typeof config.corsOrigin === 'string'
+      ? parseCorsOrigins(config.corsOrigin)
+      : config.corsOrigin
+  );
+
+  const logger = config.logger ?? SILENT_LOGGER;
 
   const yoga = createYoga({
     schema,
     graphqlEndpoint: '/graphql',
-    context: contextFactory,
-    cors: {
-      origin: config.corsOrigin,
-      credentials: true,
-    },
-    graphiql: {
-      title: 'freeCodeCamp Curriculum API',
-      defaultQuery: `# Welcome to freeCodeCamp Curriculum GraphQL API
+    context: ({ request }) =>
+      createGraphQLContext(
+        dataProvider,
+        logger.child({ requestId: getRequestId(request) })
+      ),
+    // Errors outside the taxonomy in schema/errors.ts become
+    // INTERNAL_SERVER_ERROR with a generic message
+    maskedErrors: { isDev: config.exposeErrors ?? false },
+    ...(config.logger && { logging: toYogaLogger(config.logger) }),
+    plugins: [
+      useCors(corsPolicy),
+      ...(persistedQueries
+        ? createPersistedQueryPlugins(persistedQueries)
+        : []),
+      useQueryLimits(config.queryLimits ?? DEFAULT_QUERY_LIMITS, dataProvider),
+      ...(config.profiling ? [useRequestProfiling()] : []),
+      ...(config.introspection === false ? [useDisableIntrospection()] : []),
+      ...(config.metrics ? [useMetrics(config.metrics)] : []),
+      ...(config.logger ? [useRequestLogging(config.logger)] : []),
+    ],
+    // Handled by useCors, which supports origin lists and patterns
+    cors: false,
+    // GraphiQL sends ad-hoc operations, which strict mode rejects
+    graphiql: config.graphiql !== false &&
+      persistedQueries?.mode !== 'strict' && {
+        title: 'freeCodeCamp Curriculum API',
+        defaultQuery: `# Welcome to freeCodeCamp Curriculum GraphQL API
 # Query curriculum metadata for superblocks, blocks, and challenges
 
 # Get detailed data from a block including challenges
@@ -93,11 +195,20 @@ query GetSuperblockStructure {
     blocks
   }
 }`,
-    },
+      },
   });
 
+  // Responses in flight, so draining can ask their clients not to reuse
+  // the connection
+  const activeResponses = new Set<ServerResponse>();
+  let draining = false;
+
   // Health check handlers
   const requestHandler = (req: IncomingMessage, res: ServerResponse) => {
+    activeResponses.add(res);
+    res.on('close', () => activeResponses.delete(res));
+    if (draining) res.setHeader('Connection', 'close');
+
     // Liveness probe - simple health check
     if (req.url === '/health' && req.method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -117,6 +228,74 @@ query GetSuperblockStructure {
       return;
     }
 
+    // Prometheus scrape endpoint (scrapers may add query parameters)
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname === '/metrics' && req.method === 'GET' && config.metrics) {
+      if (config.metricsToken && !hasBearerToken(req, config.metricsToken)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'unauthorized' }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+      res.end(config.metrics.render(dataProvider));
+      return;
+    }
+
+    // Admin trigger for hot reload of curriculum data
+    const { reloader, adminToken } = config;
+    if (
+      req.url === '/admin/reload' &&
+      req.method === 'POST' &&
+      reloader &&
+      adminToken
+    ) {
+      if (!hasBearerToken(req, adminToken)) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'unauthorized' }));
+        return;
+      }
+
+      void reloader
+        .reload()
+        .then((result) => {
+          if (result.success) {
+            const { diagnostics } = result.data;
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(
+              JSON.stringify({
+                status: 'reloaded',
+                superblocks: result.data.superblocks.size,
+                blocks: result.data.blocks.size,
+                challenges: result.data.challenges.size,
+                excludedBlocks: diagnostics.excludedBlocks,
+              })
+            );
+          } else {
+            res.writeHead(422, { 'Content-Type': 'application/json' });
+            res.end(
+              JSON.stringify({
+                status: 'failed',
+                errors: result.error.map((error) => ({
+                  message: error.message,
+                  filePath: error.filePath,
+                  field: error.field ?? null,
+                })),
+              })
+            );
+          }
+        })
+        .catch((error: unknown) => {
+          logger.error('Admin reload failed', { error });
+          if (res.headersSent) {
+            res.end();
+            return;
+          }
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: 'error' }));
+        });
+      return;
+    }
+
     // Landing page
     if (req.url === '/' && req.method === 'GET') {
       res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
@@ -129,10 +308,47 @@ query GetSuperblockStructure {
   };
 
   const httpServer = createServer(requestHandler);
+  const shutdown = config.shutdown ?? DEFAULT_SHUTDOWN_CONFIG;
+
+  const closeHttpServer = () =>
+    new Promise<void>((resolve, reject) => {
+      if (!httpServer.listening) {
+        resolve();
+        return;
+      }
+
+      const forceClose = setTimeout(() => {
+        httpServer.closeAllConnections();
+      }, shutdown.drainTimeoutMs);
+      httpServer.close((error) => {
+        clearTimeout(forceClose);
+        if (error) reject(error);
+        else resolve();
+      });
+      httpServer.closeIdleConnections();
+    });
+
+  let stopping: Promise<void> | null = null;
+  const stop = () => {
+    stopping ??= (async () => {
+      setReady(false);
+      draining = true;
+      for (const res of activeResponses) {
+        if (!res.headersSent) res.setHeader('Connection', 'close');
+      }
+
+      await new Promise((resolve) => {
+        setTimeout(resolve, shutdown.gracePeriodMs);
+      });
+      await closeHttpServer();
+    })();
+    return stopping;
+  };
 
   return {
     httpServer,
     yoga,
+    stop,
     start: () => {
       return new Promise<void>((resolve, reject) => {
         try {
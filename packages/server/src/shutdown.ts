@@ -0,0 +1,16 @@
+/**
+ * Timing of GraphQLServer.stop()
+ * - gracePeriodMs: Time requests are still served after /ready turns 503,
+ *   so load balancers stop routing new traffic first
+ * - drainTimeoutMs: Time in-flight requests get to finish once the server
+ *   stops accepting connections; remaining connections are then destroyed
+ */
+export interface ShutdownConfig {
+  readonly gracePeriodMs: number;
+  readonly drainTimeoutMs: number;
+}
+
+export const DEFAULT_SHUTDOWN_CONFIG: ShutdownConfig = {
+  gracePeriodMs: 5_000,
+  drainTimeoutMs: 10_000,
+};
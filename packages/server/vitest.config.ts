@@ -1,6 +1,11 @@
 import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
+  resolve: {
+    // Resolve graphql to the same CommonJS build that graphql-yoga loads,
+    // otherwise GraphQLError instances fail Yoga's instanceof checks
+    alias: [{ find: /^graphql$/, replacement: 'graphql/index.js' }],
+  },
   test: {
     globals: false, // Explicit imports preferred
     environment: 'node',